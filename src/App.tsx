@@ -15,8 +15,15 @@ import { useNDK, useNDKInit } from '@nostr-dev-kit/ndk-hooks';
 import { NostrNote } from './types/nostr';
 import { motion, AnimatePresence } from 'framer-motion';
 import SettingsModal from './components/SettingsModal';
+import PaymentRequestOverlay from './components/PaymentRequestOverlay';
 import { useAuth } from './hooks/useAuth';
 import { useMediaContent } from './hooks/useMediaContent';
+import { useStorageManager } from './hooks/useStorageManager';
+import { useOfflineMedia } from './hooks/useOfflineMedia';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { useBlossomMedia } from './hooks/useBlossomMedia';
+import OfflineIndicator from './components/OfflineIndicator';
+import { eventStore } from './utils/eventStore';
 import { nip19 } from 'nostr-tools'; // <-- Re-added nip19 import
 
 // Fullscreen Timeouts
@@ -42,9 +49,9 @@ function App() {
 
   // --- Media Content Hook --- 
   const { 
-      shuffledImageNotes,
-      shuffledVideoNotes,
-      podcastNotes,
+      shuffledImageNotes: networkImageNotes,
+      shuffledVideoNotes: networkVideoNotes,
+      podcastNotes: networkPodcastNotes,
       fetchOlderImages,
       fetchOlderVideos,
       // Add loading states if needed for UI
@@ -54,6 +61,23 @@ function App() {
       isLoadingPodcasts 
   } = useMediaContent({ followedTags, currentUserNpub });
 
+  // --- Offline Library --- 
+  // Pre-downloads upcoming media; while offline, lists only hold locally available items (object URLs)
+  const {
+      imageNotes: shuffledImageNotes,
+      videoNotes: shuffledVideoNotes,
+      podcastNotes,
+      isOffline,
+      isUsingOfflineLibrary,
+      offlineItemCount,
+      setPlaybackPositions,
+  } = useOfflineMedia({
+      ndk,
+      imageNotes: networkImageNotes,
+      podcastNotes: networkPodcastNotes,
+      videoNotes: networkVideoNotes,
+  });
+
   // --- State for Podcast Initial Time (if needed) --- 
   const [initialPodcastTime] = useState<number>(0);
 
@@ -69,6 +93,7 @@ function App() {
       currentPodcastIndex, 
       currentVideoIndex, 
       currentItemUrl, 
+      videoNotes, 
       handleVideoSelect, 
       handlePrevious, 
       handleNext, 
@@ -94,8 +119,35 @@ function App() {
     return null; // Return null if no note is active
   }, [viewMode, currentImageIndex, currentVideoIndex, shuffledImageNotes, shuffledVideoNotes]);
 
+  // Current video note (same ordering as currentItemUrl) for NIP-71 renditions and poster
+  const currentVideoNote = viewMode === 'videoPlayer' ? videoNotes[currentVideoIndex] : undefined;
+
+  useEffect(() => {
+    setPlaybackPositions({ image: currentImageIndex, podcast: currentPodcastIndex, video: currentVideoIndex });
+  }, [currentImageIndex, currentPodcastIndex, currentVideoIndex, setPlaybackPositions]);
+
+  // --- Local Cache Retention ---
+  // Prunes the event store on startup and periodically; settings live in SettingsModal
+  useStorageManager({ autoPrune: true });
+
+  // Record what is on screen so pruning evicts least-recently-shown notes first
+  const currentImageNote = viewMode === 'imagePodcast' ? shuffledImageNotes[currentImageIndex] : undefined;
+  const currentPodcastNote = podcastNotes[currentPodcastIndex];
+  const shownEventIds = [currentImageNote, currentVideoNote, currentPodcastNote]
+    .filter((note): note is NostrNote => !!note)
+    .map(note => note.eventId ?? note.id)
+    .join(',');
+  useEffect(() => {
+    if (shownEventIds) eventStore.markEventsShown(shownEventIds.split(','));
+  }, [shownEventIds]);
+
   const activeMediaRef = viewMode === 'videoPlayer' ? videoRef : audioRef;
 
+  // --- Blossom Resolution --- 
+  // The playing item's URL, failed over to other Blossom servers when the media element can't load it
+  const currentMediaNote = viewMode === 'videoPlayer' ? currentVideoNote : currentPodcastNote;
+  const { url: resolvedItemUrl, onError: handleMediaSourceError } = useBlossomMedia(currentMediaNote, currentItemUrl, { stream: true });
+
   const { 
       isPlaying, 
       currentTime, 
@@ -113,12 +165,17 @@ function App() {
       toggleMute 
   } = useMediaElementPlayback({
       mediaElementRef: activeMediaRef,
-      currentItemUrl,
+      currentItemUrl: resolvedItemUrl,
+      positionKey: currentItemUrl,
       viewMode,
       onEnded: handleNext,
       initialTime: viewMode === 'imagePodcast' ? initialPodcastTime : 0,
   });
 
+  // --- Service Worker --- 
+  // New app versions are applied only when nothing is playing, so a deploy never cuts off a video
+  useServiceWorker({ isPlaybackIdle: !isPlaying });
+
   // --- Fullscreen Hook --- 
   const { isFullScreen, signalInteraction, signalMessage } = useFullscreen({
       interactionTimeout: INTERACTION_TIMEOUT,
@@ -151,6 +208,12 @@ function App() {
 
   // --- Settings Modal State --- 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Fullscreen tip jar QR, opened from Settings
+  const [isPaymentRequestOpen, setIsPaymentRequestOpen] = useState(false);
+  const showPaymentRequest = useCallback(() => {
+      setIsSettingsOpen(false);
+      setIsPaymentRequestOpen(true);
+  }, []);
 
   // --- Render Logic --- 
   // Determine overall loading state (optional, could show spinners per section)
@@ -179,7 +242,7 @@ function App() {
   return (
     <div className={`flex flex-col h-screen overflow-hidden bg-black text-white relative ${isFullScreen ? '' : 'p-4 border-8 border-gray-800'}`}>
       {/* Invisible Audio Player */}
-      <audio ref={audioRef} src={viewMode === 'imagePodcast' ? (currentItemUrl ?? undefined) : undefined} preload="auto" />
+      <audio ref={audioRef} src={viewMode === 'imagePodcast' ? (resolvedItemUrl ?? undefined) : undefined} preload="auto" onError={handleMediaSourceError} />
 
       {/* Main Content Area */}
       <div className="flex-grow flex flex-col overflow-hidden">
@@ -211,11 +274,14 @@ function App() {
             >
               <VideoPlayer
                 videoRef={videoRef}
-                src={currentItemUrl}
+                src={resolvedItemUrl}
                 isPlaying={isPlaying}
                 togglePlayPause={togglePlayPause}
                 autoplayFailed={autoplayFailed}
                 isMuted={isMuted}
+                renditions={currentVideoNote?.renditions}
+                poster={currentVideoNote?.image}
+                onSourceError={handleMediaSourceError}
               />
             </motion.div>
           )}
@@ -235,6 +301,8 @@ function App() {
             <MessageBoard
               neventToFollow={MAIN_THREAD_NEVENT_URI}
               onNewMessage={signalMessage}
+              viewerNpub={currentUserNpub}
+              isReadOnly={auth.isReadOnly}
             />
           </div>
           <div className="w-1/3 pl-2 h-full overflow-hidden">
@@ -262,10 +330,26 @@ function App() {
         </motion.div>
       )}
 
+      {/* Offline Indicator (visible in fullscreen too) */}
+      <div className="absolute top-0 left-0 mt-2 ml-2 z-50 pointer-events-none">
+        <OfflineIndicator
+          isOffline={isOffline}
+          isUsingOfflineLibrary={isUsingOfflineLibrary}
+          offlineItemCount={offlineItemCount}
+        />
+      </div>
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
+        onShowPaymentRequest={showPaymentRequest}
+      />
+
+      {/* Tip Jar Overlay */}
+      <PaymentRequestOverlay
+        isOpen={isPaymentRequestOpen}
+        onClose={() => setIsPaymentRequestOpen(false)}
       />
 
       {/* Relay Status / Settings Button */}
@@ -0,0 +1,29 @@
+import React, { useState } from 'react';
+
+// Profile picture requested with CORS, so the service worker gets a readable response it can cache
+// (a plain <img> request comes back opaque and is never stored). Hosts that don't send CORS headers
+// fail that request; the image is then loaded again without crossOrigin, uncached but visible.
+const AvatarImage: React.FC<React.ImgHTMLAttributes<HTMLImageElement>> = ({ src, onError, ...props }) => {
+    const [corsFailedSrc, setCorsFailedSrc] = useState<string | undefined>(undefined);
+    const useCors = corsFailedSrc !== src;
+
+    const handleError = (event: React.SyntheticEvent<HTMLImageElement, Event>) => {
+        if (useCors) {
+            setCorsFailedSrc(src);
+            return;
+        }
+        onError?.(event);
+    };
+
+    return (
+        <img
+            {...props}
+            key={useCors ? 'cors' : 'no-cors'} // A new element, so the browser issues a fresh request
+            src={src}
+            crossOrigin={useCors ? 'anonymous' : undefined}
+            onError={handleError}
+        />
+    );
+};
+
+export default AvatarImage;
@@ -11,8 +11,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import QRCode from 'react-qr-code';
 import { useWallet, SendTipParams } from '../hooks/useWallet'; // Import wallet hook and types
 import { useAuth } from '../hooks/useAuth'; // Import auth hook for context
+import { useBlossomMedia } from '../hooks/useBlossomMedia';
 // import { useMediaAuthors } from '../hooks/useMediaAuthors'; // Remove this - NDK comes from useNDK
-import { FiZap } from 'react-icons/fi'; // Import Zap icon
+import { FiEye, FiZap } from 'react-icons/fi'; // Import Zap icon, and the eye for read-only sessions
 // import NDK from '@nostr-dev-kit/ndk'; // Removed unused NDK import
 import { useNDK, useProfile } from '@nostr-dev-kit/ndk-hooks'; // Import useNDK and useProfile
 // import { formatTimeAgo } from '../utils/timeUtils'; // Removed - file not found, function unused
@@ -144,8 +145,10 @@ const ImageFeed: React.FC<MediaFeedProps> = (
     [profile, currentAuthorPubkey]
   );
   const timestamp = currentImageNote?.created_at ? new Date(currentImageNote.created_at * 1000).toLocaleString() : 'Date unknown';
-  const imageUrl = currentImageNote?.url;
-  const currentNoteId = currentImageNote?.id;
+  // Verified against the note's sha256, with Blossom server failover when the original host is down
+  const { url: imageUrl, isResolving: isResolvingImage } = useBlossomMedia(currentImageNote);
+  // Multi-media events yield suffixed note ids; tips must reference the real event
+  const currentNoteId = currentImageNote?.eventId ?? currentImageNote?.id;
 
   // --- Derive npub for QR code and tipping --- 
   const currentAuthorNpub = useMemo(() => {
@@ -181,10 +184,13 @@ const ImageFeed: React.FC<MediaFeedProps> = (
         auth: auth, 
         ndk: ndk, 
         eventIdToZap: currentNoteId, 
-        comment: `📺⚡️ Tip from MadTrips TV App!`
+        eventKindToZap: currentImageNote?.kind,
+        comment: `📺⚡️ Tip from MadTrips TV App!`,
+        zapSplitTags: currentImageNote?.tags,
     };
 
     try {
+        // Split per the note's zap tags; each share goes as a nutzap where possible, otherwise by DM
         const success = await wallet.sendCashuTipWithSplits(params);
         if (success) {
             console.log('Tip successful!');
@@ -200,7 +206,7 @@ const ImageFeed: React.FC<MediaFeedProps> = (
         setIsTipping(false);
         setTimeout(() => setTipStatus(null), 2000);
     }
-  }, [canTip, currentAuthorNpub, ndk, auth, wallet, currentNoteId]);
+  }, [canTip, currentAuthorNpub, ndk, auth, wallet, currentNoteId, currentImageNote?.kind, currentImageNote?.tags]);
 
   // --- Keyboard Handler for Tipping ---
   const handleAuthorKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
@@ -237,7 +243,7 @@ const ImageFeed: React.FC<MediaFeedProps> = (
              {imageUrl ? (
                 <img 
                     src={imageUrl} 
-                    alt={`Nostr media ${currentImageNote?.id}`}
+                    alt={currentImageNote?.alt || `Nostr media ${currentImageNote?.id}`}
                     className="max-w-full max-h-full object-contain shadow-lg"
                     // loading="lazy" // Let the browser handle lazy loading if needed
                     onError={(e) => {
@@ -246,7 +252,7 @@ const ImageFeed: React.FC<MediaFeedProps> = (
                         (e.target as HTMLImageElement).style.display = 'none'; // Hide broken image
                     }}
                 />
-            ) : (
+            ) : isResolvingImage ? null : (
                 <div className="text-gray-500">No Image Available</div>
             )}
           </motion.div>
@@ -292,6 +298,13 @@ const ImageFeed: React.FC<MediaFeedProps> = (
                         </div>
                     )}
 
+                    {/* Read-only session: watching someone's follows, tipping needs a signer */}
+                    {auth.isReadOnly && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-black/10 rounded-sm" title="Read-only: log in to tip">
+                             <FiEye className="w-2/5 h-2/5 text-gray-300 opacity-90" />
+                        </div>
+                    )}
+
                     {/* Tip possible indicator (Zap icon) */} 
                     {canTip && !isTipping && (
                         // Position the Zap icon; it might overlap the custom icon or be offset
@@ -7,6 +7,7 @@ import { useMediaElementPlayback } from '../hooks/useMediaElementPlayback'; // K
 // Import useProfile from ndk-hooks
 import { useProfile } from '@nostr-dev-kit/ndk-hooks';
 import { NostrNote } from '../types/nostr'; // Fixed import path
+import AvatarImage from './AvatarImage';
 
 // --- Helper to format time (seconds) into MM:SS ---
 const formatTime = (seconds: number): string => {
@@ -378,7 +379,7 @@ const MediaPanel: React.FC<MediaPanelProps> = ({
                         </div>
                         <div className="flex-shrink-0 w-7 h-7 rounded-full bg-blue-600 overflow-hidden mr-2">
                              {itemPictureUrl ? (
-                                <img src={itemPictureUrl} alt={itemDisplayName} className="w-full h-full object-cover" />
+                                <AvatarImage src={itemPictureUrl} alt={itemDisplayName} className="w-full h-full object-cover" />
                             ) : (
                                 <span className="text-gray-300 text-xs font-semibold flex items-center justify-center h-full uppercase">{itemDisplayName.substring(0, 1)}</span>
                             )}
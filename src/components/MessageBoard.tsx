@@ -4,13 +4,49 @@ import { NDKEvent, NDKKind, NDKFilter } from '@nostr-dev-kit/ndk';
 import { nip19 } from 'nostr-tools'; // Import nip19 for decoding
 import { useNDK } from '@nostr-dev-kit/ndk-hooks'; // Import useNDK
 import { useSubscribe, useProfile } from '@nostr-dev-kit/ndk-hooks'; // Import useSubscribe and useProfile
+import AvatarImage from './AvatarImage';
 
 // Define the props for the component
 interface MessageBoardProps {
   neventToFollow: string;
   onNewMessage?: () => void;
+  viewerNpub?: string | null; // Who the TV is logged in (or watching) as
+  isReadOnly?: boolean;       // Watching without a signer, so no posting
 }
 
+// --- Viewer Identity Component ---
+interface ViewerBadgeProps {
+  npub: string;
+  isReadOnly: boolean;
+}
+
+const ViewerBadge: React.FC<ViewerBadgeProps> = ({ npub, isReadOnly }) => {
+  const pubkey = useMemo(() => {
+    try {
+      const decoded = nip19.decode(npub);
+      return decoded.type === 'npub' ? decoded.data : undefined;
+    } catch {
+      return undefined;
+    }
+  }, [npub]);
+  const profile = useProfile(pubkey);
+  const displayName = profile?.name || profile?.displayName || npub.substring(0, 12) + '...';
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-400 min-w-0">
+      {(profile?.image || profile?.picture) && (
+        <AvatarImage src={profile.image || profile.picture} alt="" className="w-6 h-6 rounded-full" />
+      )}
+      <span className="truncate">{isReadOnly ? 'Watching as' : 'As'} <span className="text-purple-300">{displayName}</span></span>
+      {isReadOnly && (
+        <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300 whitespace-nowrap" title="No signer: replies and tips are off">
+          Read-only
+        </span>
+      )}
+    </div>
+  );
+};
+
 // --- Individual Message Component ---
 interface MessageItemProps {
   message: NDKEvent;
@@ -30,7 +66,7 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
 
   return (
     <div className="p-3 mb-2 bg-gray-800 rounded-lg shadow flex space-x-3">
-      <img src={displayPicture} alt={`${displayName}'s avatar`} className="w-10 h-10 rounded-full" />
+      <AvatarImage src={displayPicture} alt={`${displayName}'s avatar`} className="w-10 h-10 rounded-full" />
       <div className="flex-1">
         <div className="flex items-center justify-between">
           <span className="font-semibold text-purple-400 truncate">
@@ -44,7 +80,7 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
   );
 };
 
-const MessageBoard: React.FC<MessageBoardProps> = ({ neventToFollow, onNewMessage }) => {
+const MessageBoard: React.FC<MessageBoardProps> = ({ neventToFollow, onNewMessage, viewerNpub, isReadOnly = false }) => {
   // Get NDK instance via hook
   const { ndk } = useNDK(); 
   const [targetEventId, setTargetEventId] = useState<string | null>(null);
@@ -127,7 +163,10 @@ const MessageBoard: React.FC<MessageBoardProps> = ({ neventToFollow, onNewMessag
 
   return (
     <div className="w-full h-full bg-gray-900 text-white overflow-y-auto p-4 flex flex-col">
-      <h2 className="text-xl font-bold mb-4 text-purple-300">Live Chat</h2>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-purple-300">Live Chat</h2>
+        {viewerNpub && <ViewerBadge npub={viewerNpub} isReadOnly={isReadOnly} />}
+      </div>
       <div className="flex-1 overflow-y-auto mb-4 pr-2">
         {renderStatus()} 
         {/* Render messages using MessageItem which handles profile fetching */} 
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface OfflineIndicatorProps {
+  isOffline: boolean;
+  isUsingOfflineLibrary: boolean;
+  offlineItemCount: number;
+}
+
+// Small badge shown while the network is down, so it's obvious the TV is playing local copies
+const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ isOffline, isUsingOfflineLibrary, offlineItemCount }) => {
+  if (!isOffline) return null;
+
+  return (
+    <div
+      className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/70 border border-yellow-500 text-yellow-400 text-xs font-semibold"
+      role="status"
+      aria-live="polite"
+    >
+      <span className="w-2 h-2 rounded-full bg-yellow-400 animate-pulse" aria-hidden="true" />
+      {isUsingOfflineLibrary
+        ? `Offline - playing from local library (${offlineItemCount} items)`
+        : 'Offline - no local media available'}
+    </div>
+  );
+};
+
+export default OfflineIndicator;
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import QRCode from 'react-qr-code';
+import { useNDK } from '@nostr-dev-kit/ndk-hooks';
+import { useAuth } from '../hooks/useAuth';
+import { RequestPayment, useWallet } from '../hooks/useWallet';
+
+const PAYMENT_BANNER_MS = 8000; // How long "received X sats" stays up
+
+export interface PaymentRequestOverlayProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Fullscreen tip jar: the NUT-18 payment request as a big QR code for viewers in the room. Listens
+// for payments while open and celebrates each one with a banner.
+const PaymentRequestOverlay: React.FC<PaymentRequestOverlayProps> = ({ isOpen, onClose }) => {
+    const { ndk } = useNDK();
+    const auth = useAuth();
+    const wallet = useWallet();
+    const [bannerPayment, setBannerPayment] = useState<RequestPayment | null>(null);
+    const closeButtonRef = useRef<HTMLButtonElement>(null);
+    const { loadWalletState, startDepositListener, stopDepositListener, lastRequestPayment } = wallet;
+
+    // The request may have been (re)created from Settings since this instance last loaded it
+    useEffect(() => {
+        if (isOpen) {
+            loadWalletState();
+            closeButtonRef.current?.focus();
+        }
+    }, [isOpen, loadWalletState]);
+
+    // Payments arrive as NIP-17 DMs, so listen for them only while the code is on screen
+    useEffect(() => {
+        if (!isOpen || !auth.isLoggedIn || !ndk) return;
+        startDepositListener(auth, ndk);
+        return () => stopDepositListener();
+    }, [isOpen, auth, ndk, startDepositListener, stopDepositListener]);
+
+    useEffect(() => {
+        if (!lastRequestPayment) return;
+        setBannerPayment(lastRequestPayment);
+        const timeoutId = setTimeout(() => setBannerPayment(null), PAYMENT_BANNER_MS);
+        return () => clearTimeout(timeoutId);
+    }, [lastRequestPayment]);
+
+    if (!isOpen) return null;
+
+    const request = wallet.paymentRequest;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/90 flex flex-col items-center justify-center z-50 p-8 text-white"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Tip jar payment request"
+            onKeyDown={(e: React.KeyboardEvent<HTMLDivElement>) => {
+                if (e.key === 'Escape' || e.key === 'Backspace') {
+                    e.preventDefault();
+                    onClose();
+                }
+            }}
+        >
+            <AnimatePresence>
+                {bannerPayment && (
+                    <motion.div
+                        key={bannerPayment.receivedAt}
+                        initial={{ y: -40, opacity: 0 }}
+                        animate={{ y: 0, opacity: 1 }}
+                        exit={{ y: -40, opacity: 0 }}
+                        className="absolute top-8 px-6 py-3 rounded-full bg-green-600 text-2xl font-bold shadow-lg"
+                        role="status"
+                        aria-live="polite"
+                    >
+                        Received {bannerPayment.amount} sats!
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <h2 className="text-3xl font-bold text-purple-300 mb-2">Tip the TV</h2>
+            {request ? (
+                <>
+                    <p className="text-lg text-gray-300 mb-6">
+                        {request.description ?? 'Scan with a Cashu wallet'}{request.amount ? ` - ${request.amount} sats` : ''}
+                    </p>
+                    <div className="p-4 bg-white rounded-lg shadow-lg">
+                        <QRCode value={request.encoded} size={360} level="L" />
+                    </div>
+                    <p className="mt-6 text-xl text-gray-200">{request.receivedSats} sats received so far</p>
+                </>
+            ) : (
+                <p className="text-lg text-gray-400 mb-6">No payment request yet. Create one in Settings under Tip Jar.</p>
+            )}
+            {!auth.isLoggedIn && (
+                <p className="mt-4 text-sm text-yellow-400">
+                    {auth.isReadOnly ? 'Read-only session: log in with a key or signer to receive payments.' : 'Log in to receive payments.'}
+                </p>
+            )}
+            <button
+                ref={closeButtonRef}
+                onClick={onClose}
+                className="mt-8 px-6 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded font-semibold focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+                Close
+            </button>
+        </motion.div>
+    );
+};
+
+export default PaymentRequestOverlay;
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MIN_PIN_LENGTH } from '../utils/ncryptsec';
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'back', '0', 'ok'] as const;
+const COLUMNS = 3;
+const MAX_PIN_LENGTH = 12;
+
+export interface PinKeypadProps {
+    title: string;
+    onSubmit: (pin: string) => void;
+    onCancel: () => void;
+    confirm?: boolean; // New PINs are entered twice and must have MIN_PIN_LENGTH digits
+    isBusy?: boolean;
+}
+
+// Numeric keypad for entering a PIN with a TV remote: arrow keys move between the buttons and OK
+// presses one. Digit and Backspace keys work directly too.
+const PinKeypad: React.FC<PinKeypadProps> = ({ title, onSubmit, onCancel, confirm = false, isBusy = false }) => {
+    const [pin, setPin] = useState<string>('');
+    const [firstEntry, setFirstEntry] = useState<string | null>(null); // Set while confirming
+    const [message, setMessage] = useState<string | null>(null);
+    const buttonRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+    useEffect(() => {
+        buttonRefs.current[0]?.focus();
+    }, []);
+
+    const pressKey = (key: typeof KEYS[number]) => {
+        if (isBusy) return;
+        setMessage(null);
+        if (key === 'back') {
+            setPin(prev => prev.slice(0, -1));
+        } else if (key === 'ok') {
+            // Existing PINs are checked by decryption, which keeps keys from older, shorter PINs usable
+            if (pin.length < (confirm ? MIN_PIN_LENGTH : 1)) {
+                setMessage(confirm ? `Choose at least ${MIN_PIN_LENGTH} digits.` : 'Enter your PIN.');
+            } else if (confirm && firstEntry === null) {
+                setFirstEntry(pin);
+                setPin('');
+            } else if (confirm && firstEntry !== pin) {
+                setFirstEntry(null);
+                setPin('');
+                setMessage("PINs didn't match. Start again.");
+            } else {
+                onSubmit(pin);
+                setPin('');
+                setFirstEntry(null);
+            }
+        } else if (pin.length < MAX_PIN_LENGTH) {
+            setPin(prev => prev + key);
+        }
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const index = buttonRefs.current.findIndex(button => button === document.activeElement);
+        const moves: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -COLUMNS, ArrowDown: COLUMNS };
+        if (event.key in moves) {
+            event.preventDefault();
+            event.stopPropagation();
+            const target = index === -1 ? 0 : index + moves[event.key];
+            if (target >= 0 && target < KEYS.length) buttonRefs.current[target]?.focus();
+        } else if (/^[0-9]$/.test(event.key)) {
+            event.preventDefault();
+            pressKey(event.key as typeof KEYS[number]);
+        } else if (event.key === 'Backspace') {
+            event.preventDefault();
+            pressKey('back');
+        } else if (event.key === 'Escape') {
+            event.preventDefault();
+            event.stopPropagation();
+            onCancel();
+        }
+    };
+
+    return (
+        <div className="p-3 bg-gray-800 rounded border border-purple-700/50" onKeyDown={handleKeyDown}>
+            <p className="text-sm text-gray-300 mb-2 text-center">
+                {confirm && firstEntry !== null ? 'Enter the PIN again' : title}
+            </p>
+            {confirm && firstEntry === null && (
+                <p className="text-xs text-gray-500 mb-2 text-center">At least {MIN_PIN_LENGTH} digits</p>
+            )}
+            <div className="flex justify-center gap-1.5 mb-3 h-4" aria-label={`${pin.length} digits entered`}>
+                {Array.from({ length: Math.max(confirm ? MIN_PIN_LENGTH : 1, pin.length) }, (_, index) => (
+                    <span key={index} className={`w-3 h-3 rounded-full ${index < pin.length ? 'bg-purple-400' : 'bg-gray-600'}`} />
+                ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                {KEYS.map((key, index) => (
+                    <button
+                        key={key}
+                        ref={element => { buttonRefs.current[index] = element; }}
+                        onClick={() => pressKey(key)}
+                        disabled={isBusy}
+                        className={`py-2 rounded text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:opacity-50 ${key === 'ok' ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                        aria-label={key === 'back' ? 'Delete last digit' : key === 'ok' ? 'Confirm PIN' : key}
+                    >
+                        {key === 'back' ? '⌫' : key === 'ok' ? (isBusy ? '...' : 'OK') : key}
+                    </button>
+                ))}
+            </div>
+            {message && <p className="text-xs text-yellow-400 mt-2 text-center">{message}</p>}
+            <button
+                onClick={onCancel}
+                className="w-full text-xs text-gray-400 hover:text-white mt-2 focus:outline-none focus:underline"
+            >
+                Cancel
+            </button>
+        </div>
+    );
+};
+
+export default PinKeypad;
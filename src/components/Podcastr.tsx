@@ -6,6 +6,7 @@ import { useInactivityTimer } from '../hooks/useInactivityTimer';
 import { useNDK, useProfile } from '@nostr-dev-kit/ndk-hooks'; // <<< CHANGE IMPORT PATH
 import { useMediaElementPlayback } from '../hooks/useMediaElementPlayback';
 import { NostrNote } from '../types/nostr'; // <<< ADD type import
+import AvatarImage from './AvatarImage';
 
 // --- Helper to format time (seconds) into MM:SS ---
 const formatTime = (seconds: number): string => {
@@ -55,7 +56,7 @@ const PodcastItem: React.FC<PodcastItemProps> = ({ note, isSelected, onClick, on
       onKeyDown={onKeyDown}
     >
       {itemPictureUrl ? (
-        <img src={itemPictureUrl} alt={itemDisplayName} className="w-8 h-8 rounded-full mr-3 flex-shrink-0 bg-gray-600" />
+        <AvatarImage src={itemPictureUrl} alt={itemDisplayName} className="w-8 h-8 rounded-full mr-3 flex-shrink-0 bg-gray-600" />
       ) : (
         <div className="w-8 h-8 rounded-full mr-3 flex-shrink-0 bg-gray-600 flex items-center justify-center text-gray-400 text-xs">
           {itemDisplayName.substring(0, 2)}
@@ -322,7 +323,7 @@ const Podcastr: React.FC<PodcastPlayerProps> = ({ authors, notes, isLoadingNotes
                     onBlur={handleItemBlur}
                 >
                     {itemPictureUrl ? (
-                      <img src={itemPictureUrl} alt={itemDisplayName} className="w-8 h-8 rounded-full mr-3 flex-shrink-0 bg-gray-600" />
+                      <AvatarImage src={itemPictureUrl} alt={itemDisplayName} className="w-8 h-8 rounded-full mr-3 flex-shrink-0 bg-gray-600" />
                     ) : (
                       <div className="w-8 h-8 rounded-full mr-3 flex-shrink-0 bg-gray-600 flex items-center justify-center text-gray-400 text-xs">
                           {itemDisplayName.substring(0, 2)}
@@ -0,0 +1,102 @@
+import React, { useRef } from 'react';
+import { useProfile } from '@nostr-dev-kit/ndk-hooks';
+import { StoredProfile } from '../utils/idb';
+import AvatarImage from './AvatarImage';
+
+const KIND_LABELS: Record<StoredProfile['kind'], string> = {
+    nsec: 'Key',
+    nip46: 'Signer',
+    npub: 'Read-only',
+};
+
+export interface ProfileSwitcherProps {
+    profiles: StoredProfile[];
+    activeProfileId: string | null;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    disabled?: boolean;
+}
+
+interface ProfileButtonProps {
+    profile: StoredProfile;
+    isActive: boolean;
+    onSelect: (id: string) => void;
+    disabled: boolean;
+    buttonRef: (element: HTMLButtonElement | null) => void;
+}
+
+// One account, with the avatar and name from its kind 0 profile
+const ProfileButton: React.FC<ProfileButtonProps> = ({ profile, isActive, onSelect, disabled, buttonRef }) => {
+    const metadata = useProfile(profile.pubkey);
+    const displayName = metadata?.name || metadata?.displayName || profile.pubkey.substring(0, 8) + '...';
+    const picture = metadata?.image || metadata?.picture;
+
+    return (
+        <button
+            ref={buttonRef}
+            onClick={() => onSelect(profile.id)}
+            disabled={disabled}
+            className={`flex flex-col items-center w-20 p-2 rounded focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:opacity-50 ${isActive ? 'bg-purple-800/60 border border-purple-500' : 'bg-gray-800 hover:bg-gray-700 border border-transparent'}`}
+            aria-label={`${displayName}${isActive ? ' (active)' : ''}`}
+            aria-pressed={isActive}
+        >
+            {picture ? (
+                <AvatarImage src={picture} alt="" className="w-10 h-10 rounded-full object-cover" />
+            ) : (
+                <span className="w-10 h-10 rounded-full bg-gray-600 flex items-center justify-center text-lg text-gray-300">
+                    {displayName.charAt(0).toUpperCase()}
+                </span>
+            )}
+            <span className="mt-1 w-full text-xs text-gray-200 truncate">{displayName}</span>
+            <span className="text-[10px] text-gray-500">{profile.loggedOut ? 'Logged out' : KIND_LABELS[profile.kind]}</span>
+        </button>
+    );
+};
+
+// Row of saved accounts; left/right on the remote moves between them
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, onSelect, onAdd, disabled = false }) => {
+    const buttonRefs = useRef<Array<HTMLButtonElement | null>>([]);
+    // A profile without a record is new and empty already, so there's nothing to add
+    const canAdd = profiles.some(profile => profile.id === activeProfileId);
+    const sortedProfiles = [...profiles].sort((a, b) => a.addedAt - b.addedAt);
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+        const buttons = buttonRefs.current.filter((button): button is HTMLButtonElement => !!button);
+        const index = buttons.findIndex(button => button === document.activeElement);
+        const target = buttons[index + (event.key === 'ArrowRight' ? 1 : -1)];
+        if (index !== -1 && target) {
+            event.preventDefault();
+            target.focus();
+        }
+    };
+
+    return (
+        <div className="flex gap-2 overflow-x-auto pb-1" onKeyDown={handleKeyDown} role="group" aria-label="Saved accounts">
+            {sortedProfiles.map((profile, index) => (
+                <ProfileButton
+                    key={profile.id}
+                    profile={profile}
+                    isActive={profile.id === activeProfileId}
+                    onSelect={onSelect}
+                    disabled={disabled}
+                    buttonRef={element => { buttonRefs.current[index] = element; }}
+                />
+            ))}
+            {canAdd && (
+                <button
+                    ref={element => { buttonRefs.current[sortedProfiles.length] = element; }}
+                    onClick={onAdd}
+                    disabled={disabled}
+                    className="flex flex-col items-center justify-center w-20 p-2 rounded bg-gray-800 hover:bg-gray-700 border border-dashed border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:opacity-50"
+                    aria-label="Add account"
+                >
+                    <span className="w-10 h-10 rounded-full bg-gray-700 flex items-center justify-center text-2xl text-gray-300">+</span>
+                    <span className="mt-1 text-xs text-gray-300">Add</span>
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ProfileSwitcher;
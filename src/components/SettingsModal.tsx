@@ -2,10 +2,28 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth, UseAuthReturn } from '../hooks/useAuth'; // Assuming useAuth provides all necessary states and functions, and exports its return type
 import { useWallet, UseWalletReturn } from '../hooks/useWallet'; // Import useWallet
+import { useStorageManager } from '../hooks/useStorageManager';
+import { useRelayManager } from '../hooks/useRelayManager';
+import { RelayInfo } from '../utils/relayConfig';
+import { RelayHealth } from '../utils/relayHealth';
+import { getMintBalance, isTrustedMint } from '../utils/mints';
+import { TEST_MINT_URL } from '../utils/testMint';
+import { isValidMnemonic, loadWalletMnemonic, markWalletMnemonicBackedUp } from '../utils/cashuSeed';
+import { WALLET_HISTORY_PAGE_SIZE, WalletHistoryEntry, exportWalletHistory, loadWalletHistoryPage } from '../utils/walletHistory';
+import { DEFAULT_TIP_SPLIT_SETTINGS, TipSplitSettings, loadTipSplitSettings, saveTipSplitSettings } from '../utils/tipSplits';
+import { DEFAULT_DEPOSIT_SETTINGS, DepositSettings, loadDepositSettings, saveDepositSettings } from '../utils/cashuTokens';
+import { DEFAULT_DM_PROTOCOL_SETTINGS, DmProtocol, DmProtocolSettings, loadDmProtocolSettings, saveDmProtocolSettings } from '../utils/privateMessages';
+import { isNcryptsec } from '../utils/ncryptsec';
+import { nip19 } from 'nostr-tools';
+import { loadFallbackServers, saveFallbackServers } from '../utils/blossom';
+import { DEFAULT_OUTBOX_SETTINGS, OutboxSettings, loadOutboxSettings, saveOutboxSettings } from '../utils/outbox';
 import QRCode from 'react-qr-code'; // Import QRCode for backup
+import PinKeypad from './PinKeypad';
+import ProfileSwitcher from './ProfileSwitcher';
 import NDK from '@nostr-dev-kit/ndk'; // Import NDK class directly
 import { useNDK } from '@nostr-dev-kit/ndk-hooks'; // Correct the import path for useNDK
 type NDKInstance = NDK; // Alias NDK class as NDKInstance type
+type PinPromptPurpose = 'unlock' | 'login-nsec' | 'use-generated' | 'export';
 
 // Helper to truncate npub/nsec
 const truncateKey = (key: string | null, length = 16): string => {
@@ -14,10 +32,70 @@ const truncateKey = (key: string | null, length = 16): string => {
     return `${key.substring(0, length / 2)}...${key.substring(key.length - length / 2)}`;
 };
 
+// Helper to format byte counts for the storage section
+const formatBytes = (bytes: number | null | undefined): string => {
+    if (bytes === null || bytes === undefined) return 'Unknown';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Retention choices offered in the storage section (selects are easier than number inputs on a remote)
+const MAX_AGE_OPTIONS = [7, 14, 30, 90, 365];
+const MAX_NOTES_OPTIONS = [100, 250, 500, 1000, 2500];
+const MAX_BYTES_OPTIONS = [50, 100, 250, 500, 1000].map(mb => mb * 1024 * 1024);
+const OUTBOX_MAX_RELAY_OPTIONS = [4, 8, 12, 20, 30];
+const OUTBOX_RELAYS_PER_AUTHOR_OPTIONS = [1, 2, 3];
+const HOUSE_CUT_OPTIONS = [0, 5, 10, 20];
+const READ_ONLY_NOTICE = 'Read-only session: log in with a key or remote signer to use this.';
+const DM_PROTOCOL_OPTIONS: Array<{ value: DmProtocol; label: string }> = [
+    { value: 'auto', label: 'Auto (match recipient)' },
+    { value: 'nip17', label: 'NIP-17 gift wrap' },
+    { value: 'nip04', label: 'NIP-04 (legacy)' },
+];
+
+const PAYMENT_BANNER_MS = 8000; // How long "received X sats" stays up
+
+// Helper to label a wallet history entry: what happened and which way the sats went
+const HISTORY_TYPE_LABELS: Record<WalletHistoryEntry['type'], { label: string; sign: string }> = {
+    deposit: { label: 'Received token', sign: '+' },
+    mint: { label: 'Lightning deposit', sign: '+' },
+    tip: { label: 'Tip', sign: '-' },
+    melt: { label: 'Lightning payment', sign: '-' },
+};
+const HISTORY_STATUS_COLORS: Record<WalletHistoryEntry['status'], string> = {
+    completed: 'text-green-400',
+    pending: 'text-yellow-400',
+    failed: 'text-red-400',
+};
+
+// Helper to summarize the NIP-11 limitations that matter to a viewer
+const describeRelayLimits = (info: RelayInfo | null | undefined): string | null => {
+    const limits = info?.limitation;
+    if (!limits) return null;
+    const parts: string[] = [];
+    if (limits.auth_required) parts.push('auth required');
+    if (limits.payment_required) parts.push('paid');
+    if (limits.restricted_writes) parts.push('restricted writes');
+    if (limits.max_subscriptions) parts.push(`max ${limits.max_subscriptions} subs`);
+    if (limits.max_limit) parts.push(`limit ${limits.max_limit}`);
+    return parts.length > 0 ? parts.join(', ') : null;
+};
+
+// Helper to label a relay's live state in the relay manager
+const describeRelayState = (health: RelayHealth | undefined, enabled: boolean): { label: string; color: string } => {
+    if (!enabled) return { label: 'Disabled', color: 'bg-gray-500' };
+    if (!health?.inPool) return { label: 'Write only', color: 'bg-blue-400' };
+    if (health.connected) return { label: 'Connected', color: 'bg-green-400' };
+    return { label: 'Disconnected', color: 'bg-red-400' };
+};
+
 // Define component props
 export interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
+    onShowPaymentRequest?: () => void; // Opens the fullscreen tip jar QR
     // REMOVED: ndkInstance prop is no longer needed, use useNDK hook
     // ndkInstance: NDK | null; 
 }
@@ -29,23 +107,56 @@ const truncateNpub = (npub: string | null): string => {
     return `${npub.substring(0, 10)}...${npub.substring(npub.length - 5)}`;
 };
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onShowPaymentRequest }) => {
     // Get NDK instance via hook
     const { ndk } = useNDK();
     // Use auth hook (gets NDK internally)
     const auth = useAuth();
     const wallet: UseWalletReturn = useWallet(); // Use the wallet hook
+    const storage = useStorageManager();
+    const [confirmPurge, setConfirmPurge] = useState<boolean>(false);
+    const [blossomServers, setBlossomServers] = useState<string[]>([]);
+    const [blossomServerInput, setBlossomServerInput] = useState<string>('');
+    const [outboxSettings, setOutboxSettings] = useState<OutboxSettings>(DEFAULT_OUTBOX_SETTINGS);
+    const relayManager = useRelayManager({ ndk, isActive: isOpen });
+    const [relayInput, setRelayInput] = useState<string>('');
+    const [dmSettings, setDmSettings] = useState<DmProtocolSettings>(DEFAULT_DM_PROTOCOL_SETTINGS);
+    const [depositSettings, setDepositSettings] = useState<DepositSettings>(DEFAULT_DEPOSIT_SETTINGS);
+    const [dmOverrideInput, setDmOverrideInput] = useState<string>('');
+    const [dmOverrideProtocol, setDmOverrideProtocol] = useState<DmProtocol>('nip17');
+    const [tipSplitSettings, setTipSplitSettings] = useState<TipSplitSettings>(DEFAULT_TIP_SPLIT_SETTINGS);
+    const [houseNpubInput, setHouseNpubInput] = useState<string>('');
     const [generatedNpub, setGeneratedNpub] = useState<string | null>(null);
     const [generatedNsec, setGeneratedNsec] = useState<string | null>(null);
     const [showNsecQR, setShowNsecQR] = useState<boolean>(false);
     const [showNsecBackupQR, setShowNsecBackupQR] = useState<boolean>(false); // For logged-in user backup
-    const [nsecInput, setNsecInput] = useState<string>(''); // For login with nsec
+    const [nsecInput, setNsecInput] = useState<string>(''); // For login with nsec or ncryptsec import
+    const [watchInput, setWatchInput] = useState<string>(''); // npub, nprofile or NIP-05 for a read-only session
+    const [pinPrompt, setPinPrompt] = useState<PinPromptPurpose | null>(null); // Keypad shown for this action
+    const [exportedNcryptsec, setExportedNcryptsec] = useState<string | null>(null);
+    const [logoutWarning, setLogoutWarning] = useState<string | null>(null); // Shown until confirmed or cancelled
     const [displayError, setDisplayError] = useState<string | null>(null);
     const [npubPressCount, setNpubPressCount] = useState(0); // Counter for nsec reveal
     const [hashtagInput, setHashtagInput] = useState<string>(''); // For adding hashtags
     const [focusedTagIndex, setFocusedTagIndex] = useState<number | null>(null); // For tag list navigation/deletion
     const [mintUrlInput, setMintUrlInput] = useState<string>(''); // State for Mint URL input
     const [isSavingMintUrl, setIsSavingMintUrl] = useState<boolean>(false); // Loading state for save button
+    const [depositAmountInput, setDepositAmountInput] = useState<string>('');
+    const [payDestinationInput, setPayDestinationInput] = useState<string>(''); // Invoice or lightning address
+    const [payAmountInput, setPayAmountInput] = useState<string>(''); // Only needed for lightning addresses
+    const [requestAmountInput, setRequestAmountInput] = useState<string>(''); // Empty: payer chooses
+    const [requestDescriptionInput, setRequestDescriptionInput] = useState<string>('');
+    const [showRequestBanner, setShowRequestBanner] = useState<boolean>(false);
+    const [paymentStatus, setPaymentStatus] = useState<string | null>(null);
+    const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null); // Shown while set
+    const [restorePhraseInput, setRestorePhraseInput] = useState<string>('');
+    const [restoreStatus, setRestoreStatus] = useState<string | null>(null);
+    const [proofCheckStatus, setProofCheckStatus] = useState<string | null>(null);
+    const [historyPage, setHistoryPage] = useState<number>(0);
+    const [historyEntries, setHistoryEntries] = useState<WalletHistoryEntry[]>([]);
+    const [historyTotal, setHistoryTotal] = useState<number>(0);
+    const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+    const [historyStatus, setHistoryStatus] = useState<string | null>(null);
 
     const modalRef = useRef<HTMLDivElement>(null);
     const closeButtonRef = useRef<HTMLButtonElement>(null);
@@ -62,18 +173,15 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
     const tagListRef = useRef<HTMLUListElement>(null);
     const mintUrlInputRef = useRef<HTMLInputElement>(null); // Ref for Mint URL input
     const saveMintUrlButtonRef = useRef<HTMLButtonElement>(null); // Ref for Save Mint URL button
+    const historyListRef = useRef<HTMLUListElement>(null);
+    const focusHistoryRowRef = useRef<number | null>(null); // Row to focus once a new page has loaded
 
-    // Effect to initialize Mint URL input when modal opens or wallet loads
+    // Effect to clear the add-mint input when the modal opens
     useEffect(() => {
-        if (isOpen && auth.isLoggedIn && wallet.configuredMintUrl !== null) {
-            setMintUrlInput(wallet.configuredMintUrl);
-        } else if (isOpen && auth.isLoggedIn) {
-            // If logged in but no URL configured yet, maybe set a default placeholder or empty
-            setMintUrlInput(''); // Or DEFAULT_MINT_URL placeholder?
-        }
-        // Reset saving state when modal opens/closes or URL changes upstream
+        if (isOpen) setMintUrlInput('');
+        // Reset saving state when modal opens/closes
         setIsSavingMintUrl(false);
-    }, [isOpen, auth.isLoggedIn, wallet.configuredMintUrl]);
+    }, [isOpen]);
 
     // Effect to start/stop deposit listener based on login state and NDK instance
     useEffect(() => {
@@ -92,6 +200,299 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         // Dependencies: isOpen, auth object (for isLoggedIn and methods), ndk, wallet hook instance
     }, [isOpen, auth, ndk, wallet]);
 
+    // Refresh storage usage each time the modal opens
+    const { refreshUsage } = storage;
+    useEffect(() => {
+        if (isOpen) {
+            refreshUsage();
+            setConfirmPurge(false);
+        }
+    }, [isOpen, refreshUsage]);
+
+    // Usage counted against the budget: the cached notes only, the rest of the origin can't be pruned
+    const notesStorageUsage = storage.storageUsage ? storage.storageUsage.eventBytes : null;
+
+    // Load Blossom fallback servers and outbox settings when the modal opens
+    useEffect(() => {
+        if (!isOpen) return;
+        loadFallbackServers().then(setBlossomServers);
+        loadOutboxSettings().then(setOutboxSettings);
+        loadDmProtocolSettings().then(setDmSettings);
+        loadDepositSettings().then(setDepositSettings);
+        loadTipSplitSettings().then(settings => {
+            setTipSplitSettings(settings);
+            setHouseNpubInput(settings.houseNpub);
+        });
+    }, [isOpen]);
+
+    // Never leave the recovery phrase on screen between visits
+    useEffect(() => {
+        if (!isOpen) {
+            setRecoveryPhrase(null);
+            setRestorePhraseInput('');
+            setRestoreStatus(null);
+            setProofCheckStatus(null);
+            setLogoutWarning(null);
+        }
+    }, [isOpen]);
+
+    const handleToggleRecoveryPhrase = useCallback(async () => {
+        if (recoveryPhrase) {
+            setRecoveryPhrase(null);
+            return;
+        }
+        try {
+            setRecoveryPhrase(await loadWalletMnemonic());
+            await markWalletMnemonicBackedUp();
+        } catch (error) {
+            console.error('SettingsModal: Failed to load recovery phrase:', error);
+            setDisplayError('Could not load the wallet recovery phrase.');
+        }
+    }, [recoveryPhrase]);
+
+    // An empty input rescans the mints with the current phrase
+    const handleRestoreFromSeed = useCallback(async () => {
+        const phrase = restorePhraseInput.trim();
+        if (phrase && !isValidMnemonic(phrase)) {
+            setRestoreStatus(null);
+            setDisplayError('That is not a valid 12 or 24 word recovery phrase.');
+            return;
+        }
+        setRestoreStatus('Scanning mints...');
+        const recovered = await wallet.restoreFromSeed(phrase || undefined);
+        if (recovered === null) {
+            setRestoreStatus(null);
+            return;
+        }
+        setRestorePhraseInput('');
+        setRecoveryPhrase(null);
+        setRestoreStatus(recovered > 0 ? `Recovered ${recovered} sats.` : 'No unspent proofs found.');
+    }, [restorePhraseInput, wallet]);
+
+    const handleCheckProofs = useCallback(async () => {
+        setProofCheckStatus('Checking proofs with the mints...');
+        const result = await wallet.reconcileProofs();
+        if (!result) {
+            setProofCheckStatus('Could not check the proofs.');
+            return;
+        }
+        const findings = [
+            result.removedSats > 0 && `removed ${result.removedSats} sats of spent proofs`,
+            result.consolidatedMints.length > 0 && `merged small proofs at ${result.consolidatedMints.length} mint(s)`,
+        ].filter(Boolean);
+        setProofCheckStatus(findings.length > 0 ? `Done: ${findings.join(', ')}.` : 'All proofs check out.');
+    }, [wallet]);
+
+    // Wallet history: back to the newest page on open; reloaded when this instance's balance changes
+    useEffect(() => {
+        if (isOpen) {
+            setHistoryPage(0);
+            setExpandedHistoryId(null);
+            setHistoryStatus(null);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCancelled = false;
+        loadWalletHistoryPage(historyPage)
+            .then(({ entries, total }) => {
+                if (isCancelled) return;
+                setHistoryEntries(entries);
+                setHistoryTotal(total);
+                if (focusHistoryRowRef.current !== null) {
+                    const row = Math.min(focusHistoryRowRef.current, entries.length - 1);
+                    focusHistoryRowRef.current = null;
+                    setTimeout(() => (historyListRef.current?.children[row] as HTMLLIElement | undefined)?.focus(), 50);
+                }
+            })
+            .catch(error => console.error('SettingsModal: Failed to load wallet history:', error));
+        return () => { isCancelled = true; };
+    }, [isOpen, historyPage, wallet.balanceSats]);
+
+    const historyPageCount = Math.max(1, Math.ceil(historyTotal / WALLET_HISTORY_PAGE_SIZE));
+
+    const goToHistoryPage = useCallback((page: number, focusRow: number | null = null) => {
+        if (page < 0 || page >= historyPageCount) return;
+        focusHistoryRowRef.current = focusRow;
+        setExpandedHistoryId(null);
+        setHistoryPage(page);
+    }, [historyPageCount]);
+
+    // D-pad: up/down move through the rows (and on to the neighbouring page), left/right flip pages, OK shows details
+    const handleHistoryKeyDown = (event: React.KeyboardEvent<HTMLLIElement>, index: number, entry: WalletHistoryEntry) => {
+        const rows = historyListRef.current?.children;
+        switch (event.key) {
+            case 'ArrowUp':
+                event.preventDefault();
+                if (index > 0) (rows?.[index - 1] as HTMLLIElement)?.focus();
+                else goToHistoryPage(historyPage - 1, WALLET_HISTORY_PAGE_SIZE - 1);
+                break;
+            case 'ArrowDown':
+                event.preventDefault();
+                if (index < historyEntries.length - 1) (rows?.[index + 1] as HTMLLIElement)?.focus();
+                else goToHistoryPage(historyPage + 1, 0);
+                break;
+            case 'ArrowLeft':
+                event.preventDefault();
+                goToHistoryPage(historyPage - 1, 0);
+                break;
+            case 'ArrowRight':
+                event.preventDefault();
+                goToHistoryPage(historyPage + 1, 0);
+                break;
+            case 'Enter':
+            case ' ':
+                event.preventDefault();
+                setExpandedHistoryId(prev => (prev === entry.id ? null : entry.id));
+                break;
+        }
+    };
+
+    const handleExportHistory = useCallback(async (format: 'csv' | 'json') => {
+        try {
+            const count = await exportWalletHistory(format);
+            setHistoryStatus(`Exported ${count} entries as ${format.toUpperCase()}.`);
+        } catch (error) {
+            console.error('SettingsModal: History export failed:', error);
+            setHistoryStatus('Export failed.');
+        }
+    }, []);
+
+    const updateTipSplitSettings = useCallback(async (updated: TipSplitSettings) => {
+        setTipSplitSettings(updated);
+        await saveTipSplitSettings(updated);
+    }, []);
+
+    const handleSaveHouseNpub = useCallback(async () => {
+        try {
+            if (nip19.decode(houseNpubInput.trim()).type !== 'npub') throw new Error('Not an npub');
+        } catch {
+            setDisplayError('House cut recipient must be an npub.');
+            return;
+        }
+        await updateTipSplitSettings({ ...tipSplitSettings, houseNpub: houseNpubInput.trim() });
+    }, [houseNpubInput, tipSplitSettings, updateTipSplitSettings]);
+
+    const updateDmSettings = useCallback(async (updated: DmProtocolSettings) => {
+        setDmSettings(updated);
+        await saveDmProtocolSettings(updated);
+    }, []);
+
+    const updateDepositSettings = useCallback(async (updated: DepositSettings) => {
+        setDepositSettings(updated);
+        await saveDepositSettings(updated);
+    }, []);
+
+    const handleAddDmOverride = useCallback(async () => {
+        let pubkey: string;
+        try {
+            const decoded = nip19.decode(dmOverrideInput.trim());
+            if (decoded.type !== 'npub') throw new Error('Not an npub');
+            pubkey = decoded.data;
+        } catch {
+            setDisplayError('Recipient must be an npub.');
+            return;
+        }
+        await updateDmSettings({ ...dmSettings, overrides: { ...dmSettings.overrides, [pubkey]: dmOverrideProtocol } });
+        setDmOverrideInput('');
+    }, [dmOverrideInput, dmOverrideProtocol, dmSettings, updateDmSettings]);
+
+    const handleRemoveDmOverride = useCallback(async (pubkey: string) => {
+        const { [pubkey]: _removed, ...overrides } = dmSettings.overrides;
+        await updateDmSettings({ ...dmSettings, overrides });
+    }, [dmSettings, updateDmSettings]);
+
+    // Applies to the next media subscription (e.g. after a follow list change or reload)
+    const handleOutboxSettingChange = useCallback(async (changes: Partial<OutboxSettings>) => {
+        const updated = { ...outboxSettings, ...changes };
+        setOutboxSettings(updated);
+        await saveOutboxSettings(updated);
+    }, [outboxSettings]);
+
+    const handleAddBlossomServer = useCallback(async () => {
+        const server = blossomServerInput.trim().replace(/\/+$/, '');
+        if (!/^https?:\/\/\S+$/.test(server)) {
+            setDisplayError('Media server must be an http(s) URL.');
+            return;
+        }
+        if (blossomServers.includes(server)) {
+            setBlossomServerInput('');
+            return;
+        }
+        const updated = [...blossomServers, server];
+        setBlossomServers(updated);
+        setBlossomServerInput('');
+        await saveFallbackServers(updated);
+    }, [blossomServerInput, blossomServers]);
+
+    const handleRemoveBlossomServer = useCallback(async (server: string) => {
+        const updated = blossomServers.filter(s => s !== server);
+        setBlossomServers(updated);
+        await saveFallbackServers(updated);
+    }, [blossomServers]);
+
+    const handleAddRelay = useCallback(async () => {
+        if (await relayManager.addRelay(relayInput)) setRelayInput('');
+    }, [relayManager, relayInput]);
+
+    const handleAddMint = useCallback(async () => {
+        setIsSavingMintUrl(true);
+        try {
+            if (await wallet.addMint(mintUrlInput)) setMintUrlInput('');
+        } finally {
+            setIsSavingMintUrl(false);
+        }
+    }, [wallet, mintUrlInput]);
+
+    const handleRequestDeposit = useCallback(async () => {
+        if (await wallet.requestLightningDeposit(Number(depositAmountInput))) setDepositAmountInput('');
+    }, [wallet, depositAmountInput]);
+
+    const handleCreatePaymentRequest = useCallback(async () => {
+        if (!ndk) return;
+        const created = await wallet.createPaymentRequest({
+            auth,
+            ndk,
+            amount: requestAmountInput ? Number(requestAmountInput) : undefined,
+            description: requestDescriptionInput,
+        });
+        if (created) {
+            setRequestAmountInput('');
+            setRequestDescriptionInput('');
+        }
+    }, [wallet, auth, ndk, requestAmountInput, requestDescriptionInput]);
+
+    // "Received X sats" for a few seconds after each payment to the request
+    useEffect(() => {
+        if (!wallet.lastRequestPayment) return;
+        setShowRequestBanner(true);
+        const timeoutId = setTimeout(() => setShowRequestBanner(false), PAYMENT_BANNER_MS);
+        return () => clearTimeout(timeoutId);
+    }, [wallet.lastRequestPayment]);
+
+    const handlePreparePayment = useCallback(async () => {
+        setPaymentStatus(null);
+        await wallet.prepareLightningPayment(payDestinationInput, payAmountInput ? Number(payAmountInput) : undefined);
+    }, [wallet, payDestinationInput, payAmountInput]);
+
+    const handleConfirmPayment = useCallback(async () => {
+        const result = await wallet.confirmLightningPayment();
+        if (!result) return;
+        setPaymentStatus(`Paid ${result.amount} sats (${result.feePaid} sats in fees).`);
+        setPayDestinationInput('');
+        setPayAmountInput('');
+    }, [wallet]);
+
+    const handlePurgeCache = useCallback(async () => {
+        if (!confirmPurge) {
+            setConfirmPurge(true); // Require a second press before wiping the cache
+            return;
+        }
+        setConfirmPurge(false);
+        await storage.purgeAll();
+    }, [confirmPurge, storage]);
+
     // Focus trapping and initial focus
     useEffect(() => {
         if (isOpen) {
@@ -155,9 +556,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         setDisplayError(null);
         setNpubPressCount(0);
         setNsecInput('');
+        setWatchInput('');
+        setPinPrompt(null);
+        setExportedNcryptsec(null);
         setHashtagInput('');
         setMintUrlInput('');
         setIsSavingMintUrl(false);
+        setPaymentStatus(null);
         onClose();
     }, [onClose]);
 
@@ -192,12 +597,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         }
     };
 
-     const handleUseGeneratedIdentity = async () => {
+     const handleUseGeneratedIdentity = async (pin: string) => {
         if (generatedNsec) {
             setDisplayError(null);
             try {
-                // Attempt to save and login
-        const success = await auth.loginWithNsec(generatedNsec);
+                // Attempt to save (encrypted under the PIN) and login
+        const success = await auth.loginWithNsec(generatedNsec, pin);
         if (success) {
                      console.log("Successfully logged in with generated identity.");
                      // Optional: Prompt immediate backup after first save
@@ -228,20 +633,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         }
     };
 
-    const handleLoginWithNsec = async () => {
+    const handleLoginWithNsec = async (pin: string) => {
         if (!nsecInput.trim()) {
             setDisplayError("Please enter an nsec value.");
             return;
         }
         setDisplayError(null);
         try {
-            const success = await auth.loginWithNsec(nsecInput.trim());
+            // An ncryptsec is imported with the PIN it was exported under; a plain nsec gets a new PIN
+            const success = isNcryptsec(nsecInput)
+                ? await auth.loginWithNcryptsec(nsecInput.trim(), pin)
+                : await auth.loginWithNsec(nsecInput.trim(), pin);
             if (success) {
                 console.log("Successfully logged in with provided nsec.");
                 setNsecInput(''); // Clear input on success
                 // Focus shifts to logged-in view
         } else {
-                setDisplayError("Login failed. Invalid nsec or error saving.");
+                setDisplayError("Login failed. Invalid key, wrong PIN or error saving.");
             }
         } catch (error) {
             console.error("Error logging in with nsec:", error);
@@ -249,15 +657,72 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         }
     };
 
+    const handleWatchNpub = async () => {
+        if (!watchInput.trim()) return;
+        setDisplayError(null);
+        if (await auth.watchNpub(watchInput)) {
+            setWatchInput('');
+        }
+    };
+
+    // Every key entry and export goes through the keypad; this runs the action the PIN was asked for
+    const handlePinSubmit = async (pin: string) => {
+        const purpose = pinPrompt;
+        setPinPrompt(null);
+        if (purpose === 'unlock') {
+            if (!await auth.unlockWithPin(pin)) setPinPrompt('unlock'); // Wrong PIN: ask again
+        } else if (purpose === 'use-generated') {
+            await handleUseGeneratedIdentity(pin);
+        } else if (purpose === 'login-nsec') {
+            await handleLoginWithNsec(pin);
+        } else if (purpose === 'export') {
+            setExportedNcryptsec(auth.exportNcryptsec(pin));
+        }
+    };
+
+    const getPinPromptTitle = (purpose: PinPromptPurpose): string => {
+        switch (purpose) {
+            case 'unlock':
+                return auth.lockedKey === 'plain' ? 'Choose a PIN to encrypt the stored key' : 'Enter your PIN to unlock';
+            case 'login-nsec':
+                return isNcryptsec(nsecInput) ? 'Enter the PIN this key was exported with' : 'Choose a PIN to encrypt your key';
+            case 'use-generated':
+                return 'Choose a PIN to encrypt your key';
+            case 'export':
+                return 'Choose a PIN for the exported key';
+        }
+    };
+
+    // Switching reloads the app on the chosen profile's data
+    const handleSwitchProfile = async (switchTo: () => Promise<void>) => {
+        setDisplayError(null);
+        try {
+            await switchTo();
+        } catch (error) {
+            console.error("Profile switch error:", error);
+            setDisplayError(`Switching accounts failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    // The first press shows what the wallet would leave behind, if anything; the second logs out anyway
     const handleLogout = async () => {
         setDisplayError(null);
         try {
-         await auth.logout();
+            if (logoutWarning === null) {
+                const warning = await auth.getLogoutWarning();
+                if (warning) {
+                    setLogoutWarning(warning);
+                    return;
+                }
+            }
+            await auth.logout(true);
+            setLogoutWarning(null);
             // Reset any local state tied to login
             setGeneratedNpub(null);
             setGeneratedNsec(null);
             setShowNsecQR(false);
             setShowNsecBackupQR(false);
+            setExportedNcryptsec(null);
             setNpubPressCount(0);
              // Focus should shift back to logged-out state view
              setTimeout(() => connectSignerButtonRef.current?.focus(), 50);
@@ -417,7 +882,67 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                  <div className="mb-6 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
                     <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Identity</h3>
 
-                    {auth.isLoggedIn ? (
+                    {/* Saved accounts, each with its own follows, hashtags and wallet */}
+                    {auth.profiles.length > 0 && !pinPrompt && (
+                        <div className="mb-4">
+                            <ProfileSwitcher
+                                profiles={auth.profiles}
+                                activeProfileId={auth.activeProfileId}
+                                onSelect={id => handleSwitchProfile(() => auth.switchProfile(id))}
+                                onAdd={() => handleSwitchProfile(auth.addProfile)}
+                                disabled={auth.isLoadingAuth}
+                            />
+                        </div>
+                    )}
+
+                    {pinPrompt ? (
+                        <PinKeypad
+                            key={pinPrompt}
+                            title={getPinPromptTitle(pinPrompt)}
+                            // New PINs are typed twice; existing ones are checked by decryption
+                            confirm={pinPrompt === 'export' || pinPrompt === 'use-generated' || (pinPrompt === 'unlock' && auth.lockedKey === 'plain') || (pinPrompt === 'login-nsec' && !isNcryptsec(nsecInput))}
+                            onSubmit={handlePinSubmit}
+                            onCancel={() => setPinPrompt(null)}
+                            isBusy={auth.isLoadingAuth}
+                        />
+                    ) : !auth.isLoggedIn && auth.lockedKey ? (
+                        // --- Stored key waiting for its PIN ---
+                        <div className="space-y-3">
+                            <p className="text-sm text-gray-400">
+                                {auth.lockedKey === 'plain'
+                                    ? 'This TV has an unencrypted key from an older version. Choose a PIN to encrypt it.'
+                                    : 'This TV has a PIN-protected key.'}
+                            </p>
+                            <button
+                                onClick={() => setPinPrompt('unlock')}
+                                disabled={auth.isLoadingAuth}
+                                className="w-full px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
+                            >
+                                {auth.lockedKey === 'plain' ? 'Encrypt and Unlock' : 'Unlock with PIN'}
+                            </button>
+                            <button
+                                onClick={handleLogout}
+                                className="w-full text-xs text-gray-400 hover:text-white focus:outline-none focus:underline"
+                            >
+                                Forget Stored Key
+                            </button>
+                        </div>
+                    ) : auth.isReadOnly ? (
+                        // --- Read-only (Watch) View ---
+                        <div className="space-y-3">
+                            <p className="text-sm text-gray-400">Watching (read-only):</p>
+                            <p className="text-md font-mono p-2 bg-gray-800 rounded">{truncateNpub(auth.currentUserNpub)}</p>
+                            <p className="text-xs text-gray-500">
+                                Their follows drive the feed. Tipping, the tip jar and private messages need a key or remote signer.
+                            </p>
+                            <button
+                                onClick={handleLogout}
+                                className="w-full px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
+                            >
+                                Stop Watching
+                            </button>
+                        </div>
+                    ) : auth.isLoggedIn ? (
                         // --- Logged In View ---
                         <div className="space-y-3">
                              <p className="text-sm text-gray-400">Logged in as:</p>
@@ -445,13 +970,47 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                                  </div>
                              )}
 
+                            {/* Encrypted export, e.g. to move the identity to another device */}
+                            {auth.currentUserNsecForBackup && (exportedNcryptsec ? (
+                                <div className="p-3 bg-white rounded shadow flex flex-col items-center">
+                                    <p className="text-black text-sm mb-2">Encrypted key (ncryptsec), import it with the same PIN:</p>
+                                    <QRCode value={exportedNcryptsec} size={160} level="L" />
+                                    <p className="mt-2 font-mono text-xs text-gray-700 break-all">{exportedNcryptsec}</p>
+                                    <button
+                                        onClick={() => setExportedNcryptsec(null)}
+                                        className="mt-3 text-xs text-gray-600 hover:text-black focus:outline-none focus:ring-1 focus:ring-gray-500 rounded px-1"
+                                        aria-label="Hide Encrypted Key"
+                                    >
+                                        Hide
+                                    </button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => setPinPrompt('export')}
+                                    className="w-full px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
+                                >
+                                    Export Encrypted Key (ncryptsec)
+                                </button>
+                            ))}
+
+                            {logoutWarning && (
+                                <p className="text-sm text-yellow-300 bg-yellow-900/30 border border-yellow-700/50 rounded p-2">{logoutWarning}</p>
+                            )}
                             <button
                                 ref={logoutButtonRef}
                                 onClick={handleLogout}
                                 className="w-full px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
                             >
-                                Logout
+                                {logoutWarning ? 'Logout Anyway' : 'Logout'}
                             </button>
+                            {logoutWarning && (
+                                <button
+                                    onClick={() => setLogoutWarning(null)}
+                                    className="w-full px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
+                                >
+                                    Cancel
+                                </button>
+                            )}
                         </div>
                      ) : (
                          // --- Logged Out View ---
@@ -526,7 +1085,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                                      {generatedNsec && ( // Only show 'Use' button if nsec is generated
                              <button
                                               ref={useIdentityButtonRef}
-                                              onClick={handleUseGeneratedIdentity}
+                                              onClick={() => setPinPrompt('use-generated')}
                                               disabled={auth.isLoadingAuth}
                                               className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
                             >
@@ -546,26 +1105,49 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                              {/* Login with Existing Nsec */}
                             {!generatedNpub && !auth.nip46ConnectUri && (
                                 <div className="mt-4 pt-4 border-t border-gray-700">
-                                     <p className="text-sm text-gray-400 mb-2">Login with existing nsec:</p>
+                                     <p className="text-sm text-gray-400 mb-2">Login with existing nsec or ncryptsec:</p>
                                      <input
                                          ref={loginNsecInputRef}
                                          type="password" // Use password type to obscure input
                                          value={nsecInput}
                                          onChange={(e) => setNsecInput(e.target.value)}
-                                         placeholder="nsec1..."
+                                         placeholder="nsec1... or ncryptsec1..."
                                          className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500 mb-2"
-                                         aria-label="Enter your nsec private key"
+                                         aria-label="Enter your nsec private key or ncryptsec"
                                      />
                             <button
                                          ref={loginNsecButtonRef}
-                                         onClick={handleLoginWithNsec}
+                                         onClick={() => setPinPrompt('login-nsec')}
                                          disabled={auth.isLoadingAuth || !nsecInput.trim()}
                                          className="w-full px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
                                      >
-                                         Login with Nsec
+                                         {isNcryptsec(nsecInput) ? 'Import Ncryptsec' : 'Login with Nsec'}
                             </button>
                                  </div>
                             )}
+
+                            {/* Read-only: show someone's follows without their keys */}
+                            {!generatedNpub && !auth.nip46ConnectUri && (
+                                <div className="mt-4 pt-4 border-t border-gray-700">
+                                    <p className="text-sm text-gray-400 mb-2">Or watch someone's follows (read-only):</p>
+                                    <input
+                                        type="text"
+                                        value={watchInput}
+                                        onChange={(e) => setWatchInput(e.target.value)}
+                                        placeholder="npub1..., nprofile1... or name@domain"
+                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500 mb-2"
+                                        aria-label="npub, nprofile or NIP-05 address to watch"
+                                        onKeyDown={(e) => { if (e.key === 'Enter') handleWatchNpub(); }}
+                                    />
+                                    <button
+                                        onClick={handleWatchNpub}
+                                        disabled={auth.isLoadingAuth || !watchInput.trim()}
+                                        className="w-full px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
+                                    >
+                                        Watch
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
@@ -573,7 +1155,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                 {/* --- Hashtag Following Section --- */}
                 <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
                     <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Follow Hashtags</h3>
-                    {auth.isLoggedIn ? (
+                    {auth.isLoggedIn || auth.isReadOnly ? ( // Stored on the TV, no signing needed
                         <>
                              <div className="flex items-center gap-2 mb-3">
                                  <span className="text-gray-400">#</span>
@@ -623,6 +1205,756 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                     )}
                 </div>
 
+                {/* --- Storage Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Storage</h3>
+                    {storage.storageUsage ? (
+                        <div className="mb-3 text-sm text-gray-300 space-y-1">
+                            <p>
+                                Used: <span className="font-mono">{formatBytes(storage.storageUsage.usage)}</span>
+                                {storage.storageUsage.quota !== null && (
+                                    <> of <span className="font-mono">{formatBytes(storage.storageUsage.quota)}</span></>
+                                )}
+                            </p>
+                            {notesStorageUsage !== null && (
+                                <div className="w-full h-2 bg-gray-800 rounded overflow-hidden" aria-hidden="true">
+                                    <div
+                                        className={`h-full ${notesStorageUsage > storage.policy.maxBytes ? 'bg-red-500' : 'bg-purple-500'}`}
+                                        style={{ width: `${Math.min(100, (notesStorageUsage / storage.policy.maxBytes) * 100)}%` }}
+                                    />
+                                </div>
+                            )}
+                            <p className="text-xs text-gray-400">
+                                Cached notes: {storage.storageUsage.eventCount} (~{formatBytes(storage.storageUsage.eventBytes)})
+                            </p>
+                            <p className="text-xs text-gray-400">
+                                Offline library: {formatBytes(storage.storageUsage.offlineMediaBytes)}
+                            </p>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500 italic mb-3">Reading storage usage...</p>
+                    )}
+
+                    <div className="grid grid-cols-3 gap-2 mb-3 text-xs text-gray-400">
+                        <label className="flex flex-col gap-1">
+                            Keep for
+                            <select
+                                value={storage.policy.maxAgeDays}
+                                onChange={(e) => storage.updatePolicy({ maxAgeDays: Number(e.target.value) })}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                            >
+                                {MAX_AGE_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            Notes per type
+                            <select
+                                value={storage.policy.maxNotesPerType}
+                                onChange={(e) => storage.updatePolicy({ maxNotesPerType: Number(e.target.value) })}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                            >
+                                {MAX_NOTES_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            Budget
+                            <select
+                                value={storage.policy.maxBytes}
+                                onChange={(e) => storage.updatePolicy({ maxBytes: Number(e.target.value) })}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                            >
+                                {MAX_BYTES_OPTIONS.map(bytes => <option key={bytes} value={bytes}>{formatBytes(bytes)}</option>)}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={storage.pruneNow}
+                            disabled={storage.isBusy}
+                            className="flex-1 px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            Clean Up Now
+                        </button>
+                        <button
+                            onClick={handlePurgeCache}
+                            onBlur={() => setConfirmPurge(false)}
+                            disabled={storage.isBusy}
+                            className="flex-1 px-4 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            {confirmPurge ? 'Press again to confirm' : 'Purge Cache'}
+                        </button>
+                    </div>
+                    {storage.lastPruneResult && (
+                        <p className="text-xs text-gray-400 mt-2">
+                            Last clean-up removed {storage.lastPruneResult.evictedCount} notes (~{formatBytes(storage.lastPruneResult.freedBytes)}).
+                        </p>
+                    )}
+                    {storage.storageError && <p className="text-xs text-red-400 mt-2">{storage.storageError}</p>}
+                </div>
+
+                {/* --- Relays Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Relays</h3>
+                    <div className="flex items-center gap-2 mb-3">
+                        <input
+                            type="url"
+                            value={relayInput}
+                            onChange={(e) => setRelayInput(e.target.value)}
+                            placeholder="wss://relay.example.com"
+                            className="flex-grow px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Relay URL"
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddRelay(); }}
+                        />
+                        <button
+                            onClick={handleAddRelay}
+                            disabled={!relayInput.trim()}
+                            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            Add
+                        </button>
+                    </div>
+                    <ul className="max-h-72 overflow-y-auto space-y-2 bg-gray-800/50 p-2 rounded border border-gray-700 mb-3">
+                        {relayManager.relays.map(relay => {
+                            const info = relayManager.relayInfo[relay.url];
+                            const health = relayManager.relayHealth[relay.url];
+                            const state = describeRelayState(health, relay.enabled);
+                            const limits = describeRelayLimits(info);
+                            const software = info?.software ? `${info.software.replace(/^.*\//, '')}${info.version ? ` ${info.version}` : ''}` : null;
+                            const toggleClass = (active: boolean) => `px-2 py-0.5 rounded text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-purple-400 ${active ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-400'}`;
+                            return (
+                                <li key={relay.url} className={`px-2 py-1.5 rounded bg-gray-700 text-sm ${relay.enabled ? 'text-gray-200' : 'text-gray-500'}`}>
+                                    <div className="flex items-center gap-2">
+                                        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${state.color}`} title={state.label}></span>
+                                        <span className="font-mono truncate flex-grow">{relay.url}</span>
+                                        <button onClick={() => relayManager.updateRelay(relay.url, { enabled: !relay.enabled })} className={toggleClass(relay.enabled)} aria-label={`${relay.enabled ? 'Disable' : 'Enable'} ${relay.url}`}>
+                                            {relay.enabled ? 'On' : 'Off'}
+                                        </button>
+                                        <button onClick={() => relayManager.updateRelay(relay.url, { read: !relay.read })} className={toggleClass(relay.read)} aria-label={`Toggle reading from ${relay.url}`}>
+                                            R
+                                        </button>
+                                        <button onClick={() => relayManager.updateRelay(relay.url, { write: !relay.write })} className={toggleClass(relay.write)} aria-label={`Toggle writing to ${relay.url}`}>
+                                            W
+                                        </button>
+                                        <button onClick={() => relayManager.removeRelay(relay.url)} className="px-2 py-0.5 rounded text-xs font-semibold bg-red-700 hover:bg-red-600 text-white focus:outline-none focus:ring-2 focus:ring-red-400" aria-label={`Remove ${relay.url}`}>
+                                            Del
+                                        </button>
+                                    </div>
+                                    <div className="text-xs text-gray-400 mt-1 pl-4 space-y-0.5">
+                                        <p>
+                                            {info?.name ?? 'No NIP-11 info'}{software && ` · ${software}`}{limits && ` · ${limits}`}
+                                        </p>
+                                        <p>
+                                            {state.label}
+                                            {health?.latencyMs != null && ` · ${health.latencyMs} ms`}
+                                            {health && ` · ${health.eventsReceived} events`}
+                                        </p>
+                                        {health?.lastError && (
+                                            <p className="text-red-400 truncate" title={health.lastError}>
+                                                {health.lastError}{health.lastErrorAt && ` (${new Date(health.lastErrorAt).toLocaleTimeString()})`}
+                                            </p>
+                                        )}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    {relayManager.relayError && <p className="text-xs text-red-400 mb-2">{relayManager.relayError}</p>}
+                    <p className="text-xs text-gray-400 mb-2">
+                        Followed authors are fetched from their own write relays (NIP-65). Outbox limits apply on the next reload.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+                        <label className="flex flex-col gap-1">
+                            Max outbox relays
+                            <select
+                                value={outboxSettings.maxRelays}
+                                onChange={(e) => handleOutboxSettingChange({ maxRelays: Number(e.target.value) })}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                            >
+                                {OUTBOX_MAX_RELAY_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            Relays per author
+                            <select
+                                value={outboxSettings.relaysPerAuthor}
+                                onChange={(e) => handleOutboxSettingChange({ relaysPerAuthor: Number(e.target.value) })}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                            >
+                                {OUTBOX_RELAYS_PER_AUTHOR_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                </div>
+
+                {/* --- Private Messages Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Private Messages</h3>
+                    {auth.isReadOnly && <p className="text-xs text-yellow-400 mb-2">{READ_ONLY_NOTICE}</p>}
+                    <p className="text-xs text-gray-400 mb-2">
+                        Deposits arrive as NIP-04 DMs or NIP-17 gift wraps (both are detected), with any number of cashuA/cashuB tokens each. Choose how tips are sent.
+                    </p>
+                    <label className="flex flex-col gap-1 text-xs text-gray-400 mb-3">
+                        Default for tips
+                        <select
+                            value={dmSettings.defaultProtocol}
+                            onChange={(e) => updateDmSettings({ ...dmSettings, defaultProtocol: e.target.value as DmProtocol })}
+                            className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                        >
+                            {DM_PROTOCOL_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </label>
+                    <div className="flex items-center gap-2 mb-3">
+                        <input
+                            type="text"
+                            value={dmOverrideInput}
+                            onChange={(e) => setDmOverrideInput(e.target.value)}
+                            placeholder="npub1... (recipient)"
+                            className="flex-grow min-w-0 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Recipient npub"
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddDmOverride(); }}
+                        />
+                        <select
+                            value={dmOverrideProtocol}
+                            onChange={(e) => setDmOverrideProtocol(e.target.value as DmProtocol)}
+                            className="px-2 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                            aria-label="Protocol for this recipient"
+                        >
+                            {DM_PROTOCOL_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.value.toUpperCase()}</option>)}
+                        </select>
+                        <button
+                            onClick={handleAddDmOverride}
+                            disabled={!dmOverrideInput.trim()}
+                            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            Set
+                        </button>
+                    </div>
+                    {Object.keys(dmSettings.overrides).length > 0 ? (
+                        <ul className="max-h-32 overflow-y-auto space-y-1 bg-gray-800/50 p-2 rounded border border-gray-700">
+                            {Object.entries(dmSettings.overrides).map(([pubkey, protocol]) => (
+                                <li
+                                    key={pubkey}
+                                    tabIndex={0}
+                                    className="px-2 py-1 rounded text-sm cursor-pointer flex justify-between items-center bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:bg-purple-700 focus:text-white focus:ring-2 focus:ring-purple-400"
+                                    onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handleRemoveDmOverride(pubkey); } }}
+                                    onClick={() => handleRemoveDmOverride(pubkey)}
+                                    aria-label={`Recipient ${pubkey} uses ${protocol}. Press OK to remove.`}
+                                >
+                                    <span className="font-mono truncate">{truncateNpub(nip19.npubEncode(pubkey))}</span>
+                                    <span className="text-xs text-gray-400 ml-2">{protocol.toUpperCase()} (OK to Del)</span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-gray-500 italic">No per-recipient overrides.</p>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-300 mt-3">
+                        <input
+                            type="checkbox"
+                            checked={depositSettings.sendAck}
+                            onChange={(e) => updateDepositSettings({ ...depositSettings, sendAck: e.target.checked })}
+                            className="accent-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        />
+                        Reply to received tokens with a thank-you DM
+                    </label>
+                </div>
+
+                {/* --- Tips Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Tips</h3>
+                    {auth.isReadOnly && <p className="text-xs text-yellow-400 mb-2">{READ_ONLY_NOTICE}</p>}
+                    <p className="text-xs text-gray-400 mb-2">
+                        Tips are split between the pubkeys in a note's zap tags (NIP-57), or go to the author. A house cut is taken first.
+                    </p>
+                    <label className="flex flex-col gap-1 text-xs text-gray-400 mb-3">
+                        House cut
+                        <select
+                            value={tipSplitSettings.houseCutPercent}
+                            onChange={(e) => updateTipSplitSettings({ ...tipSplitSettings, houseCutPercent: Number(e.target.value) })}
+                            className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-purple-500"
+                        >
+                            {HOUSE_CUT_OPTIONS.map(percent => <option key={percent} value={percent}>{percent === 0 ? 'Off' : `${percent}%`}</option>)}
+                        </select>
+                    </label>
+                    {tipSplitSettings.houseCutPercent > 0 && (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={houseNpubInput}
+                                onChange={(e) => setHouseNpubInput(e.target.value)}
+                                placeholder="npub1... (TV operator)"
+                                className="flex-grow min-w-0 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                                aria-label="House cut recipient npub"
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveHouseNpub(); }}
+                            />
+                            <button
+                                onClick={handleSaveHouseNpub}
+                                disabled={!houseNpubInput.trim() || houseNpubInput.trim() === tipSplitSettings.houseNpub}
+                                className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* --- Mints Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Mints</h3>
+                    <p className="text-xs text-gray-400 mb-2">
+                        Balance: {wallet.balanceSats} sats. Tips are paid from the first mint in this list that holds enough.
+                    </p>
+                    {wallet.pendingSats > 0 && (
+                        <p className="text-xs text-yellow-400 mb-2">
+                            {wallet.pendingSats} sats are pending at their mint and can't be spent until it settles them.
+                        </p>
+                    )}
+                    <div className="flex items-center gap-2 mb-3">
+                        <input
+                            ref={mintUrlInputRef}
+                            type="url"
+                            value={mintUrlInput}
+                            onChange={(e) => setMintUrlInput(e.target.value)}
+                            placeholder="https://mint.example.com"
+                            className="flex-grow px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Mint URL"
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddMint(); }}
+                        />
+                        <button
+                            ref={saveMintUrlButtonRef}
+                            onClick={handleAddMint}
+                            disabled={!mintUrlInput.trim() || isSavingMintUrl}
+                            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            {isSavingMintUrl ? 'Checking...' : 'Add'}
+                        </button>
+                    </div>
+                    <ul className="max-h-72 overflow-y-auto space-y-2 bg-gray-800/50 p-2 rounded border border-gray-700 mb-3">
+                        {wallet.trustedMints.map((mint, index) => {
+                            const info = wallet.mintInfo[mint];
+                            const buttonClass = 'px-2 py-0.5 rounded text-xs font-semibold bg-gray-600 hover:bg-gray-500 text-gray-200 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-purple-400';
+                            return (
+                                <li key={mint} className="px-2 py-1.5 rounded bg-gray-700 text-sm text-gray-200">
+                                    <div className="flex items-center gap-2">
+                                        {index === 0 && <span className="px-1.5 py-0.5 rounded text-xs bg-purple-700 text-white">Primary</span>}
+                                        <span className="font-mono truncate flex-grow">{mint}</span>
+                                        <span className="text-xs text-gray-300 whitespace-nowrap">{getMintBalance(wallet.mintBalances, mint)} sats</span>
+                                        <button onClick={() => wallet.moveMint(mint, -1)} disabled={index === 0} className={buttonClass} aria-label={`Move ${mint} up`}>
+                                            ↑
+                                        </button>
+                                        <button onClick={() => wallet.moveMint(mint, 1)} disabled={index === wallet.trustedMints.length - 1} className={buttonClass} aria-label={`Move ${mint} down`}>
+                                            ↓
+                                        </button>
+                                        <button onClick={() => wallet.removeMint(mint)} className="px-2 py-0.5 rounded text-xs font-semibold bg-red-700 hover:bg-red-600 text-white focus:outline-none focus:ring-2 focus:ring-red-400" aria-label={`Remove ${mint}`}>
+                                            Del
+                                        </button>
+                                    </div>
+                                    <p className="text-xs text-gray-400 mt-1 truncate" title={info?.description}>
+                                        {info === undefined ? 'Loading mint info...' : info === null ? 'Mint unreachable' : `${info.name ?? 'Unnamed mint'}${info.version ? ` · ${info.version}` : ''}${info.description ? ` · ${info.description}` : ''}`}
+                                    </p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    {import.meta.env.DEV && !isTrustedMint(wallet.trustedMints, TEST_MINT_URL) && (
+                        <button
+                            onClick={() => wallet.addMint(TEST_MINT_URL)}
+                            className="mb-3 px-3 py-1 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        >
+                            Add test mint (development only, fake sats)
+                        </button>
+                    )}
+                    <div className="flex items-center gap-2 mb-3">
+                        <button
+                            onClick={handleCheckProofs}
+                            disabled={wallet.isLoadingWallet}
+                            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded text-xs font-semibold disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        >
+                            Check Proofs
+                        </button>
+                        <span className="text-xs text-gray-400">{proofCheckStatus ?? 'Spent proofs are removed and small ones merged every 10 minutes.'}</span>
+                    </div>
+                    {/* Proofs held at mints that were removed from the list (e.g. restored from relays) */}
+                    {Object.entries(wallet.mintBalances).filter(([mint]) => !isTrustedMint(wallet.trustedMints, mint)).map(([mint, amount]) => (
+                        <p key={mint} className="text-xs text-yellow-400 mb-1 truncate">
+                            {amount} sats at untrusted mint {mint}
+                        </p>
+                    ))}
+                    {wallet.pendingDeposits.length > 0 && (
+                        <div className="mt-2 p-2 rounded border border-yellow-600 bg-yellow-900/30">
+                            <p className="text-sm text-yellow-300 font-semibold mb-1">Deposits from untrusted mints</p>
+                            <p className="text-xs text-yellow-200/80 mb-2">
+                                Accepting redeems the token at that mint. Only accept if you trust it to hold your sats.
+                            </p>
+                            <ul className="space-y-2">
+                                {wallet.pendingDeposits.map(deposit => (
+                                    <li key={deposit.token} className="text-xs text-gray-200">
+                                        <p className="truncate">
+                                            {deposit.amount} sats from {truncateNpub(nip19.npubEncode(deposit.senderPubkey))} via <span className="font-mono">{deposit.mintUrl}</span>
+                                        </p>
+                                        <div className="flex gap-2 mt-1">
+                                            <button onClick={() => wallet.acceptPendingDeposit(deposit.token, true)} className="px-2 py-0.5 rounded font-semibold bg-purple-600 hover:bg-purple-700 text-white focus:outline-none focus:ring-2 focus:ring-purple-400">
+                                                Accept &amp; Trust
+                                            </button>
+                                            <button onClick={() => wallet.acceptPendingDeposit(deposit.token, false)} className="px-2 py-0.5 rounded font-semibold bg-gray-600 hover:bg-gray-500 text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-400">
+                                                Accept Once
+                                            </button>
+                                            <button onClick={() => wallet.rejectPendingDeposit(deposit.token)} className="px-2 py-0.5 rounded font-semibold bg-red-700 hover:bg-red-600 text-white focus:outline-none focus:ring-2 focus:ring-red-400">
+                                                Reject
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+
+                {/* --- Lightning Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Lightning</h3>
+                    <p className="text-sm text-gray-300 mb-2">Deposit to {wallet.configuredMintUrl ?? 'your primary mint'}</p>
+                    {!wallet.lightningDeposit ? (
+                        <div className="flex items-center gap-2 mb-4">
+                            <input
+                                type="number"
+                                min={1}
+                                value={depositAmountInput}
+                                onChange={(e) => setDepositAmountInput(e.target.value)}
+                                placeholder="Amount (sats)"
+                                className="flex-grow px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                                aria-label="Deposit amount in sats"
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleRequestDeposit(); }}
+                            />
+                            <button
+                                onClick={handleRequestDeposit}
+                                disabled={!depositAmountInput || !wallet.configuredMintUrl}
+                                className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                            >
+                                Get Invoice
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="mb-4 flex flex-col items-center">
+                            {wallet.lightningDeposit.state === 'UNPAID' && (
+                                <div className="p-3 bg-white rounded shadow flex flex-col items-center">
+                                    <p className="text-black text-sm mb-2">Scan to deposit {wallet.lightningDeposit.amount} sats</p>
+                                    <QRCode value={`lightning:${wallet.lightningDeposit.request}`} size={192} level="L" />
+                                </div>
+                            )}
+                            <p className="text-sm text-gray-300 mt-2">
+                                {wallet.lightningDeposit.state === 'UNPAID' && 'Waiting for payment...'}
+                                {wallet.lightningDeposit.state === 'MINTING' && 'Invoice paid, minting...'}
+                                {wallet.lightningDeposit.state === 'ISSUED' && `Received ${wallet.lightningDeposit.amount} sats.`}
+                                {wallet.lightningDeposit.state === 'EXPIRED' && 'The invoice expired.'}
+                            </p>
+                            <button
+                                onClick={wallet.cancelLightningDeposit}
+                                className="mt-2 px-3 py-1 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-purple-400"
+                            >
+                                {wallet.lightningDeposit.state === 'ISSUED' || wallet.lightningDeposit.state === 'EXPIRED' ? 'Done' : 'Cancel'}
+                            </button>
+                        </div>
+                    )}
+                    <p className="text-sm text-gray-300 mb-2">Withdraw</p>
+                    {!wallet.lightningPayment ? (
+                        <div className="flex flex-col gap-2">
+                            <input
+                                type="text"
+                                value={payDestinationInput}
+                                onChange={(e) => setPayDestinationInput(e.target.value)}
+                                placeholder="lnbc... invoice or name@domain.com"
+                                className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                                aria-label="Lightning invoice or address"
+                            />
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={payAmountInput}
+                                    onChange={(e) => setPayAmountInput(e.target.value)}
+                                    placeholder="Amount (sats, for addresses)"
+                                    className="flex-grow px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                                    aria-label="Amount to send in sats"
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handlePreparePayment(); }}
+                                />
+                                <button
+                                    onClick={handlePreparePayment}
+                                    disabled={!payDestinationInput.trim() || wallet.isLoadingWallet}
+                                    className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                                >
+                                    Get Quote
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="p-2 rounded border border-gray-600 bg-gray-800/50 text-sm text-gray-200">
+                            <p className="truncate">To {wallet.lightningPayment.destination}</p>
+                            <p>
+                                {wallet.lightningPayment.quote.amount} sats + up to {wallet.lightningPayment.quote.fee_reserve} sats fee reserve
+                            </p>
+                            <p className="text-xs text-gray-400 truncate">From {wallet.lightningPayment.mintUrl}. Unused fee reserve is returned.</p>
+                            <div className="flex gap-2 mt-2">
+                                <button
+                                    onClick={handleConfirmPayment}
+                                    disabled={wallet.isLoadingWallet}
+                                    className="px-3 py-1 rounded font-semibold bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                                >
+                                    {wallet.isLoadingWallet ? 'Paying...' : 'Pay'}
+                                </button>
+                                <button
+                                    onClick={wallet.cancelLightningPayment}
+                                    disabled={wallet.isLoadingWallet}
+                                    className="px-3 py-1 rounded font-semibold bg-gray-600 hover:bg-gray-500 text-gray-200 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                    {paymentStatus && <p className="text-xs text-green-400 mt-2">{paymentStatus}</p>}
+                    {wallet.walletError && <p className="text-xs text-red-400 mt-2">{wallet.walletError}</p>}
+                </div>
+
+                {/* --- Tip Jar Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Tip Jar</h3>
+                    {auth.isReadOnly && <p className="text-xs text-yellow-400 mb-2">{READ_ONLY_NOTICE}</p>}
+                    <p className="text-xs text-gray-400 mb-2">
+                        A Cashu payment request (NUT-18) viewers can scan. Payments arrive as NIP-17 DMs from any of your trusted mints.
+                    </p>
+                    {showRequestBanner && wallet.lastRequestPayment && (
+                        <p className="mb-2 px-3 py-1.5 rounded bg-green-700 text-white text-sm font-semibold" role="status" aria-live="polite">
+                            Received {wallet.lastRequestPayment.amount} sats!
+                        </p>
+                    )}
+                    {wallet.paymentRequest && (
+                        <div className="mb-3 flex flex-col items-center">
+                            <div className="p-3 bg-white rounded shadow">
+                                <QRCode value={wallet.paymentRequest.encoded} size={160} level="L" />
+                            </div>
+                            <p className="text-xs text-gray-300 mt-2">
+                                {wallet.paymentRequest.amount ? `${wallet.paymentRequest.amount} sats` : 'Any amount'}
+                                {wallet.paymentRequest.description ? ` - ${wallet.paymentRequest.description}` : ''}
+                                {` - ${wallet.paymentRequest.receivedSats} sats received`}
+                            </p>
+                            <p className="text-xs font-mono text-gray-500 break-all mt-1">{wallet.paymentRequest.encoded.substring(0, 48)}...</p>
+                            <div className="flex gap-2 mt-2">
+                                {onShowPaymentRequest && (
+                                    <button
+                                        onClick={onShowPaymentRequest}
+                                        className="px-3 py-1 rounded font-semibold bg-purple-600 hover:bg-purple-700 text-white text-xs focus:outline-none focus:ring-2 focus:ring-purple-400"
+                                    >
+                                        Show Fullscreen
+                                    </button>
+                                )}
+                                <button
+                                    onClick={wallet.clearPaymentRequest}
+                                    className="px-3 py-1 rounded font-semibold bg-gray-600 hover:bg-gray-500 text-gray-200 text-xs focus:outline-none focus:ring-2 focus:ring-purple-400"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            min={1}
+                            value={requestAmountInput}
+                            onChange={(e) => setRequestAmountInput(e.target.value)}
+                            placeholder="Sats (any)"
+                            className="w-24 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Requested amount in sats"
+                        />
+                        <input
+                            type="text"
+                            value={requestDescriptionInput}
+                            onChange={(e) => setRequestDescriptionInput(e.target.value)}
+                            placeholder="Description"
+                            className="flex-grow min-w-0 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Payment request description"
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleCreatePaymentRequest(); }}
+                        />
+                        <button
+                            onClick={handleCreatePaymentRequest}
+                            disabled={!auth.isLoggedIn || wallet.trustedMints.length === 0}
+                            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            {wallet.paymentRequest ? 'Replace' : 'Create'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* --- Wallet Backup Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Wallet Backup</h3>
+                    <p className="text-xs text-gray-400 mb-2">
+                        Your ecash is derived from a recovery phrase. With it, the sats held at your trusted mints can be restored on any device.
+                    </p>
+                    <button
+                        onClick={handleToggleRecoveryPhrase}
+                        className="w-full px-4 py-1.5 bg-yellow-600 hover:bg-yellow-700 text-black rounded text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2 focus:ring-offset-gray-800 font-semibold"
+                    >
+                        {recoveryPhrase ? 'Hide Recovery Phrase' : 'Show Recovery Phrase'}
+                    </button>
+                    {recoveryPhrase && (
+                        <div className="mt-2 p-3 bg-white rounded shadow flex flex-col items-center">
+                            <p className='text-red-700 font-bold text-center text-sm mb-2'>WALLET RECOVERY PHRASE - GUARD THIS!</p>
+                            <QRCode value={recoveryPhrase} size={160} level="L" />
+                            <ol className="mt-2 grid grid-cols-3 gap-x-4 gap-y-0.5 text-black text-sm font-mono list-decimal list-inside">
+                                {recoveryPhrase.split(' ').map((word, index) => <li key={index}>{word}</li>)}
+                            </ol>
+                        </div>
+                    )}
+                    <p className="text-sm text-gray-300 mt-3 mb-2">Restore</p>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={restorePhraseInput}
+                            onChange={(e) => setRestorePhraseInput(e.target.value)}
+                            placeholder="Recovery phrase (empty: rescan with this wallet's)"
+                            className="flex-grow px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Recovery phrase to restore from"
+                            autoComplete="off"
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleRestoreFromSeed(); }}
+                        />
+                        <button
+                            onClick={handleRestoreFromSeed}
+                            disabled={wallet.isLoadingWallet}
+                            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            Restore
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Entering a phrase makes it this wallet's phrase. Proofs you already hold are kept.</p>
+                    {restoreStatus && <p className="text-xs text-green-400 mt-2">{restoreStatus}</p>}
+                </div>
+
+                {/* --- Wallet History Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">History</h3>
+                    {historyEntries.length === 0 ? (
+                        <p className="text-sm text-gray-400 mb-2">No transactions yet.</p>
+                    ) : (
+                        <ul ref={historyListRef} className="space-y-1 mb-2">
+                            {historyEntries.map((entry, index) => {
+                                const { label, sign } = HISTORY_TYPE_LABELS[entry.type];
+                                return (
+                                    <li
+                                        key={entry.id}
+                                        tabIndex={0}
+                                        onKeyDown={(e) => handleHistoryKeyDown(e, index, entry)}
+                                        onClick={() => setExpandedHistoryId(prev => (prev === entry.id ? null : entry.id))}
+                                        className="p-2 rounded border border-gray-600 bg-gray-800/50 text-sm text-gray-200 cursor-pointer focus:outline-none focus:bg-purple-700 focus:ring-2 focus:ring-purple-400"
+                                    >
+                                        <div className="flex justify-between items-center gap-2">
+                                            <span className="truncate">
+                                                {label}
+                                                {entry.counterpartyNpub && <span className="text-gray-400"> {entry.type === 'deposit' ? 'from' : 'to'} {truncateNpub(entry.counterpartyNpub)}</span>}
+                                            </span>
+                                            <span className="font-mono whitespace-nowrap">{sign}{entry.amount} sats</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs text-gray-400">
+                                            <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                                            <span className={HISTORY_STATUS_COLORS[entry.status]}>{entry.status}</span>
+                                        </div>
+                                        {expandedHistoryId === entry.id && (
+                                            <div className="mt-1 text-xs text-gray-300 break-all space-y-0.5">
+                                                {entry.mintUrl && <p>Mint: {entry.mintUrl}</p>}
+                                                {entry.fee !== undefined && <p>Fee: {entry.fee} sats</p>}
+                                                {entry.noteId && <p>Note: {entry.noteId}</p>}
+                                                {entry.eventId && <p>Event: {entry.eventId}</p>}
+                                                {entry.memo && <p>{entry.memo}</p>}
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                        <button
+                            onClick={() => goToHistoryPage(historyPage - 1)}
+                            disabled={historyPage === 0}
+                            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded text-xs font-semibold disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        >
+                            ◀ Newer
+                        </button>
+                        <span className="text-xs text-gray-400">Page {historyPage + 1} of {historyPageCount}</span>
+                        <button
+                            onClick={() => goToHistoryPage(historyPage + 1)}
+                            disabled={historyPage >= historyPageCount - 1}
+                            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded text-xs font-semibold disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        >
+                            Older ▶
+                        </button>
+                    </div>
+                    <div className="flex gap-2 mt-3">
+                        <button
+                            onClick={() => handleExportHistory('csv')}
+                            disabled={historyTotal === 0}
+                            className="flex-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-xs font-semibold disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        >
+                            Export CSV
+                        </button>
+                        <button
+                            onClick={() => handleExportHistory('json')}
+                            disabled={historyTotal === 0}
+                            className="flex-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-xs font-semibold disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                        >
+                            Export JSON
+                        </button>
+                    </div>
+                    {historyStatus && <p className="text-xs text-green-400 mt-2">{historyStatus}</p>}
+                </div>
+
+                {/* --- Media Servers Section --- */}
+                <div className="mb-4 p-4 bg-gray-700/30 rounded-lg border border-gray-600">
+                    <h3 className="text-lg font-semibold mb-3 text-purple-300 border-b border-gray-600 pb-1">Media Servers</h3>
+                    <p className="text-xs text-gray-400 mb-2">
+                        Blossom servers tried (after the author's own list) when a media host is down.
+                    </p>
+                    <div className="flex items-center gap-2 mb-3">
+                        <input
+                            type="url"
+                            value={blossomServerInput}
+                            onChange={(e) => setBlossomServerInput(e.target.value)}
+                            placeholder="https://blossom.example.com"
+                            className="flex-grow px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+                            aria-label="Blossom server URL"
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddBlossomServer(); }}
+                        />
+                        <button
+                            onClick={handleAddBlossomServer}
+                            disabled={!blossomServerInput.trim()}
+                            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800 text-sm font-semibold"
+                        >
+                            Add
+                        </button>
+                    </div>
+                    {blossomServers.length > 0 ? (
+                        <ul className="max-h-32 overflow-y-auto space-y-1 bg-gray-800/50 p-2 rounded border border-gray-700">
+                            {blossomServers.map(server => (
+                                <li
+                                    key={server}
+                                    tabIndex={0}
+                                    className="px-2 py-1 rounded text-sm cursor-pointer flex justify-between items-center bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:bg-purple-700 focus:text-white focus:ring-2 focus:ring-purple-400"
+                                    onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handleRemoveBlossomServer(server); } }}
+                                    onClick={() => handleRemoveBlossomServer(server)}
+                                    aria-label={`Media server ${server}. Press OK to remove.`}
+                                >
+                                    <span className="font-mono truncate">{server}</span>
+                                    <span className="text-xs text-gray-500 ml-2">(OK to Del)</span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-gray-500 italic">No fallback servers; only the author's servers are tried.</p>
+                    )}
+                </div>
+
                 {/* Add other settings sections here (e.g., Tipping, Relays) */}
 
                  {/* Footer - Maybe Save button if needed later */}
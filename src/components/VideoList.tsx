@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useNdk } from 'nostr-hooks';
 import { NDKEvent, NDKFilter, NDKSubscription, NDKKind } from '@nostr-dev-kit/ndk';
 import { nip19 } from 'nostr-tools';
+import { eventStore } from '../utils/eventStore';
 
 // Interface for Video Notes
 export interface VideoNote {
@@ -14,51 +15,18 @@ export interface VideoNote {
   content?: string; // Optional content for display
 }
 
-// --- Video Note Caching --- (Similar to Podcastr)
-const VIDEO_NOTE_DB_NAME = 'VideoNoteCache'; 
-const VIDEO_NOTE_DB_VERSION = 1;
-const VIDEO_NOTE_STORE_NAME = 'videoNotes'; 
-
-async function openVideoNoteDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open(VIDEO_NOTE_DB_NAME, VIDEO_NOTE_DB_VERSION);
-        request.onerror = (event) => reject((event.target as IDBOpenDBRequest).error);
-        request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
-        request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
-             if (!db.objectStoreNames.contains(VIDEO_NOTE_STORE_NAME)) {
-                db.createObjectStore(VIDEO_NOTE_STORE_NAME, { keyPath: 'id' });
-            }
-        };
-    });
-}
-
-async function saveVideoNotesToCache(notes: VideoNote[]): Promise<void> {
-    if (notes.length === 0) return;
-    const db = await openVideoNoteDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([VIDEO_NOTE_STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(VIDEO_NOTE_STORE_NAME);
-        notes.forEach(note => store.put(note));
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
-    });
-}
+// --- Video Note Caching --- (Backed by the shared event store)
+const CACHE_QUERY_LIMIT = 500; // Newest cached notes to scan for videos; the store can hold far more
 
-async function getVideoNotesFromCache(): Promise<VideoNote[]> {
-    const db = await openVideoNoteDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([VIDEO_NOTE_STORE_NAME], 'readonly');
-        const store = transaction.objectStore(VIDEO_NOTE_STORE_NAME);
-        const request = store.getAll();
-        request.onsuccess = () => {
-            const notes = (request.result || []) as VideoNote[];
-            notes.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
-            // Limit cache size? Let's keep it simple for now.
-            resolve(notes);
-        };
-        request.onerror = () => reject(request.error);
+async function getVideoNotesFromCache(authors: string[]): Promise<VideoNote[]> {
+    const cachedEvents = await eventStore.queryEvents({
+        kinds: [NDKKind.Text],
+        authors: authors.length > 0 ? authors : undefined,
+        limit: CACHE_QUERY_LIMIT,
     });
+    const notes = processEventsIntoVideoNotes(cachedEvents.map(rawEvent => new NDKEvent(undefined, rawEvent)), new Map());
+    notes.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+    return notes;
 }
 // --- End Video Note Caching ---
 
@@ -127,9 +95,10 @@ const VideoList: React.FC<VideoListProps> = ({
   const [isCacheLoaded, setIsCacheLoaded] = useState(false);
   const scrollableListRef = useRef<HTMLDivElement>(null);
   
-  // Load video notes from cache on mount
+  // Load the followed authors' video notes from cache. Keyed by content: callers may pass a new array each render.
+  const authorsKey = authors.join(',');
   useEffect(() => {
-    getVideoNotesFromCache()
+    getVideoNotesFromCache(authorsKey ? authorsKey.split(',') : [])
       .then(cachedNotes => {
         console.log(`VideoList: Loaded ${cachedNotes.length} video notes from cache.`);
         onNotesLoaded(cachedNotes);
@@ -140,7 +109,7 @@ const VideoList: React.FC<VideoListProps> = ({
         console.error('VideoList: Failed to load notes from cache:', err);
         setIsCacheLoaded(true);
       });
-  }, [onNotesLoaded]);
+  }, [authorsKey, onNotesLoaded]);
 
   // NDK Subscription Effect for Video Notes
   useEffect(() => {
@@ -165,7 +134,7 @@ const VideoList: React.FC<VideoListProps> = ({
             
             notesById.current = new Map(limitedNotes.map(n => [n.id, n]));
             
-            saveVideoNotesToCache(newNotes).catch(err => console.error('VideoList: Failed cache save', err));
+            eventStore.saveEvents([event.rawEvent()]).catch(err => console.error('VideoList: Failed cache save', err));
             
             onNotesLoaded(limitedNotes);
         }
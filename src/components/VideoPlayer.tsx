@@ -7,7 +7,8 @@ import { useMediaElementPlayback } from '../hooks/useMediaElementPlayback';
 import { VideoNote } from '../types/nostr';
 import { useInactivityTimer } from '../hooks/useInactivityTimer';
 import { useFocusManager } from '../hooks/useFocusManager';
-import { NostrNote } from '../types/nostr';
+import { NostrNote, VideoRendition } from '../types/nostr';
+import { selectVideoRendition } from '../utils/videoRenditions';
 import { formatTime } from '../utils/timeUtils';
 import FullscreenButton from './shared/FullscreenButton';
 import Slider from './shared/Slider';
@@ -41,6 +42,9 @@ export interface VideoPlayerProps {
   // authorNpub: string | null; // Removed prop
   autoplayFailed: boolean;
   isMuted: boolean;
+  renditions?: VideoRendition[]; // NIP-71 variants of the current video, used as fallbacks
+  poster?: string; // Preview image shown before playback starts
+  onSourceError?: () => void; // src (and every rendition) failed to load; the caller may swap in a mirror
   // currentNoteId?: string; // Removed prop (was only used for tipping)
 }
 
@@ -55,6 +59,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   // authorNpub, // Removed from destructuring
   autoplayFailed,
   isMuted,
+  renditions,
+  poster,
+  onSourceError,
   // currentNoteId // Removed from destructuring
 }) => {
   // Remove unused hooks and state related to tipping/author
@@ -84,6 +91,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   }, [src, videoRef]);
 
+  // --- Rendition fallback: remember which variants failed for the current video ---
+  // Kept across src changes within a video, so a mirror swapped in by onSourceError doesn't retry them
+  const failedRenditionUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    failedRenditionUrlsRef.current = new Set();
+  }, [renditions]);
+
+  const handleVideoError = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (!renditions || renditions.length < 2) {
+      onSourceError?.();
+      return;
+    }
+    const failedUrl = video.currentSrc || video.src;
+    failedRenditionUrlsRef.current.add(failedUrl);
+    const next = selectVideoRendition(renditions.filter(r => !failedRenditionUrlsRef.current.has(r.url)));
+    if (!next) {
+      console.warn('VideoPlayer: All renditions failed for', src);
+      onSourceError?.();
+      return;
+    }
+    console.log(`VideoPlayer: Rendition ${failedUrl} failed, switching to ${next.url} (${next.height ?? '?'}p)`);
+    video.src = next.url;
+    video.load();
+    if (isPlaying) {
+      video.play().catch(error => console.error("Video play failed after rendition switch:", error));
+    }
+  }, [renditions, src, isPlaying, videoRef, onSourceError]);
+
   // --- Handle Play/Pause based on isPlaying prop ---
   useEffect(() => {
      if (videoRef.current) {
@@ -112,6 +149,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         ref={videoRef as React.RefObject<HTMLVideoElement>}
         className="max-w-full max-h-full object-contain"
         muted={isMuted}
+        poster={poster}
+        onError={handleVideoError}
         playsInline
       >
         Your browser does not support the video tag.
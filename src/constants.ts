@@ -7,6 +7,19 @@ export const RELAYS = [
   'wss://relay.nostr.band',
 ];
 
+// NIP-65 outbox model: followed authors are fetched from their own write relays.
+// Caps keep the number of open connections reasonable on TV hardware (configurable in Settings).
+export const DEFAULT_OUTBOX_MAX_RELAYS = 12;      // Total relays opened for author subscriptions
+export const DEFAULT_OUTBOX_RELAYS_PER_AUTHOR = 2; // Write relays used per author
+
+// Blossom (BUD-01) servers tried after the author's own kind 10063 list when a media host is down.
+// Can be overridden from Settings (stored in IndexedDB).
+export const DEFAULT_BLOSSOM_SERVERS = [
+  'https://blossom.primal.net',
+  'https://cdn.satellite.earth',
+  'https://nostr.download',
+];
+
 // !!! IMPORTANT !!!
 // Replace this placeholder with the ACTUAL HEX EVENT ID of the main post
 // that you manually published using the TV's nsec.
@@ -9,10 +9,13 @@ import { getPublicKey, generateSecretKey } from 'nostr-tools/pure';
 // Removed incorrect import: import { generatePrivateKey } from 'nostr-tools';
 // Removed unused NDKFilter, NDKSubscriptionOptions from import
 // Remove unused imports: NDK, NostrEvent, NDKUser, NDKSigner
-import { NDKPrivateKeySigner, NDKNip46Signer, NDKEvent, NDKFilter, NDKSubscription } from '@nostr-dev-kit/ndk';
+import { NDKPrivateKeySigner, NDKNip46Signer, NDKEvent, NDKFilter, NDKSubscription, NDKEncryptionScheme } from '@nostr-dev-kit/ndk';
 // Corrected import path - removed .ts extension
 // Use specific helpers from idb export
-import { idb, StoredNip46Data } from '../utils/idb';
+import { idb, ProfileKind, StoredNip46Data, StoredProfile } from '../utils/idb';
+import { decryptNcryptsec, encryptNsec, isNcryptsec } from '../utils/ncryptsec';
+import { resolvePubkey } from '../utils/pubkeyInput';
+import { addProfile, getActiveProfileId, getLogoutWarning, loadProfiles, logOutActiveProfile, rememberActiveProfile, switchProfile } from '../utils/profiles';
 // Import useNDK hook
 import { useNDK } from '@nostr-dev-kit/ndk-hooks';
 // Import the new helper
@@ -30,24 +33,38 @@ export interface UseAuthReturn {
     currentUserNsecForBackup: string | null;
     // isLoggedIn is derived from ndk.signer
     isLoggedIn: boolean;
+    // Watching someone's npub without a signer: their follows drive the content, signing features are off
+    isReadOnly: boolean;
+    watchNpub: (input: string) => Promise<boolean>; // npub, nprofile or NIP-05 address
     isLoadingAuth: boolean;
     authError: string | null;
     nip46ConnectUri: string | null; // Expose the generated URI
     isGeneratingUri: boolean; // Loading state for URI generation
     initiateNip46Connection: () => Promise<void>; // Renamed function
     cancelNip46Connection: () => void; // Function to cancel NIP-46 attempt
-    generateNewKeys: () => Promise<{ npub: string; nsec: string } | null>;
-    loginWithNsec: (nsec: string) => Promise<boolean>;
-    logout: () => Promise<void>;
+    generateNewKeys: () => Promise<{ npub: string; nsec: string } | null>; // Only generates; loginWithNsec stores the key
+    loginWithNsec: (nsec: string, pin: string) => Promise<boolean>; // Stored as a NIP-49 ncryptsec under the PIN
+    loginWithNcryptsec: (ncryptsec: string, passphrase: string) => Promise<boolean>; // Import; the passphrase becomes the PIN
+    exportNcryptsec: (passphrase: string) => string | null; // Current key encrypted under the passphrase
+    // A stored key waiting for its PIN: 'ncryptsec' to decrypt it, 'plain' (older versions) to choose one that encrypts it
+    lockedKey: 'ncryptsec' | 'plain' | null;
+    unlockWithPin: (pin: string) => Promise<boolean>;
+    getLogoutWarning: () => Promise<string | null>; // What logout leaves behind in this profile's wallet
+    logout: (acknowledgedWarning?: boolean) => Promise<void>; // Throws the warning unless it was acknowledged
+    // Saved accounts, each with its own credentials, tags and wallet; switching reloads the app
+    profiles: StoredProfile[];
+    activeProfileId: string | null;
+    switchProfile: (id: string) => Promise<void>;
+    addProfile: () => Promise<void>; // Switches to a new, empty profile
     // Removed saveNsecToDb, handled internally by loginWithNsec
     // Removed getNdkSigner, NDK instance holds the signer directly
     // Removed signEvent, use ndk.signer.sign directly
     // Hashtag state and setter
     followedTags: string[];
     setFollowedTags: (tags: string[]) => void;
-    // NIP-04 Methods using ndk.signer
-    encryptDm: (recipientPubkeyHex: string, plaintext: string) => Promise<string>;
-    decryptDm: (senderPubkeyHex: string, ciphertext: string) => Promise<string>;
+    // NIP-04 (default) / NIP-44 Methods using ndk.signer
+    encryptDm: (recipientPubkeyHex: string, plaintext: string, scheme?: NDKEncryptionScheme) => Promise<string>;
+    decryptDm: (senderPubkeyHex: string, ciphertext: string, scheme?: NDKEncryptionScheme) => Promise<string>;
 }
 
 
@@ -57,6 +74,11 @@ export interface UseAuthReturn {
 const NIP46_RELAYS = ['wss://nsec.app', 'wss://relay.damus.io', 'wss://relay.primal.net'];
 const NIP46_CONNECT_TIMEOUT = 75000; // 75 seconds
 
+// Other useAuth instances notice logins through ndk.signer; read-only sessions have no signer, so
+// starting or ending one is announced to every instance here (null: ended)
+const watchedNpubListeners = new Set<(npub: string | null) => void>();
+const announceWatchedNpub = (npub: string | null) => watchedNpubListeners.forEach(listener => listener(npub));
+
 // Remove NDK instance argument from the hook definition
 export const useAuth = (): UseAuthReturn => {
     // Get NDK instance via hook
@@ -65,6 +87,8 @@ export const useAuth = (): UseAuthReturn => {
     // --- State ---
     const [currentUserNpub, setCurrentUserNpub] = useState<string | null>(null);
     const [currentUserNsecForBackup, setCurrentUserNsecForBackup] = useState<string | null>(null); // Keep for backup/display
+    const [lockedKey, setLockedKey] = useState<'ncryptsec' | 'plain' | null>(null);
+    const [isReadOnly, setIsReadOnly] = useState<boolean>(false);
     const [isLoadingAuth, setIsLoadingAuth] = useState<boolean>(true); // Start as true
     const [authError, setAuthError] = useState<string | null>(null);
     // NIP-46 connection state
@@ -77,6 +101,9 @@ export const useAuth = (): UseAuthReturn => {
     const nip46SignerInstanceRef = useRef<NDKNip46Signer | null>(null); // Ref to hold the NIP-46 signer instance during connection
     // Followed tags state
     const [followedTags, setFollowedTagsState] = useState<string[]>(DEFAULT_FOLLOWED_TAGS); // Initialize with defaults
+    // Saved accounts
+    const [profiles, setProfiles] = useState<StoredProfile[]>([]);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
 
     // --- Derived State ---
     // Directly check ndk?.signer for login status
@@ -98,7 +125,7 @@ export const useAuth = (): UseAuthReturn => {
                     console.error("useAuth: Failed to get user from signer:", error);
                     setCurrentUserNpub(null); // Clear npub on error
                 }
-            } else {
+            } else if (!isReadOnly) { // A read-only session has an npub but no signer
                 setCurrentUserNpub(null);
                 // console.log("useAuth: Cleared currentUserNpub (no signer).");
             }
@@ -107,7 +134,43 @@ export const useAuth = (): UseAuthReturn => {
         if (ndk) {
             updateNpub();
         }
-    }, [ndk?.signer]); // Re-run whenever the signer instance changes (check ndk too)
+    }, [ndk?.signer, isReadOnly]); // Re-run whenever the signer instance changes (check ndk too)
+
+
+    useEffect(() => {
+        const listener = (npub: string | null) => {
+            setIsReadOnly(!!npub);
+            if (npub) setCurrentUserNpub(npub); // Otherwise the signer effect above sets or clears it
+        };
+        watchedNpubListeners.add(listener);
+        return () => { watchedNpubListeners.delete(listener); };
+    }, []);
+
+    // --- Saved Accounts ---
+    const refreshProfiles = useCallback(async () => {
+        const [storedProfiles, activeId] = await Promise.all([loadProfiles(), getActiveProfileId()]);
+        setProfiles(storedProfiles);
+        setActiveProfileId(activeId);
+    }, []);
+
+    useEffect(() => {
+        refreshProfiles().catch(error => console.error("useAuth: Failed to load profiles:", error));
+    }, [refreshProfiles]);
+
+    // Lists the identity now logged in on the active profile in the switcher
+    const rememberProfile = useCallback(async (kind: ProfileKind, pubkey: string) => {
+        try {
+            if (kind !== 'npub') {
+                // Logging in with a signer ends a read-only session on this profile
+                await idb.clearWatchedNpubFromDb();
+                announceWatchedNpub(null);
+            }
+            await rememberActiveProfile(kind, pubkey);
+            await refreshProfiles();
+        } catch (error) {
+            console.error("useAuth: Failed to save profile:", error);
+        }
+    }, [refreshProfiles]);
 
 
     // --- Hashtag Persistence (Mostly unchanged, uses specific idb helpers) ---
@@ -157,11 +220,12 @@ export const useAuth = (): UseAuthReturn => {
             // Use specific helper
             const storedNsec = await idb.loadNsecFromDb();
             if (storedNsec) {
-                if (storedNsec.startsWith('nsec1')) {
+                // An ncryptsec, or a plain nsec saved by an older version
+                if (isNcryptsec(storedNsec) || storedNsec.startsWith('nsec1')) {
                     // console.log("useAuth: DIAGNOSTIC - Found potentially valid nsec in DB."); // <-- DIAGNOSTIC LOG
                     return storedNsec;
                 } else {
-                    console.error("Stored key is not a valid nsec format.");
+                    console.error("Stored key is not a valid nsec or ncryptsec format.");
                     await idb.clearNsecFromDb(); // Clear invalid data
                 }
             } else {
@@ -173,17 +237,19 @@ export const useAuth = (): UseAuthReturn => {
         return null;
     }, []);
 
-    // Saves nsec to DB and updates backup state
-    const saveNsecToDbInternal = useCallback(async (nsec: string) => {
+    // Saves nsec to DB, encrypted under the PIN (NIP-49), and updates backup state.
+    // `wasExposed` marks a key that was previously stored in the clear.
+    const saveNsecToDbInternal = useCallback(async (nsec: string, pin: string, wasExposed = false) => {
         try {
             if (!nsec.startsWith('nsec1')) throw new Error("Invalid nsec format.");
             const decoded = nip19.decode(nsec);
             if (decoded.type !== 'nsec') throw new Error("Decoded key is not nsec.");
 
             // Use specific helper
-            await idb.saveNsecToDb(nsec);
+            await idb.saveNsecToDb(encryptNsec(nsec, pin, wasExposed));
             setCurrentUserNsecForBackup(nsec); // Update backup state
-            console.log("Saved nsec to DB.");
+            setLockedKey(null);
+            console.log("Saved encrypted nsec (ncryptsec) to DB.");
         } catch (error) {
             console.error("Failed to save nsec to IndexedDB:", error);
             setAuthError("Failed to save login credentials.");
@@ -285,6 +351,7 @@ export const useAuth = (): UseAuthReturn => {
                         console.log("useAuth: NIP-46 session restored successfully for user:", user.npub);
                         setCurrentUserNpub(user.npub);
                         setCurrentUserNsecForBackup(null);
+                        await rememberProfile('nip46', user.pubkey); // Sessions from before profiles existed
                     } catch (restoreError) {
                         console.error("useAuth: Failed to restore NIP-46 session:", restoreError);
                         setAuthError("Failed to restore remote signer connection. Please log in again.");
@@ -297,27 +364,24 @@ export const useAuth = (): UseAuthReturn => {
                     console.log("useAuth: No complete NIP-46 data found, checking for nsec...");
                     const nsec = await loadNsecFromDb();
                     if (nsec) {
-                        console.log("useAuth: Found stored nsec. Logging in...");
-                        try {
-                            const privateKeySigner = new NDKPrivateKeySigner(nsec);
-                            ndk.signer = privateKeySigner;
-                            const user = await ndk.signer.user();
-                            console.log("useAuth: Logged in successfully with nsec for user:", user.npub);
-                            setCurrentUserNpub(user.npub);
-                            setCurrentUserNsecForBackup(nsec);
-                        } catch (nsecError) {
-                            console.error("useAuth: Failed to create signer from stored nsec:", nsecError);
-                            setAuthError("Invalid stored login key. Please log in again.");
-                            await clearNsecFromDb();
-                            ndk.signer = undefined;
-                            setCurrentUserNpub(null);
-                            setCurrentUserNsecForBackup(null);
-                        }
-                    } else {
-                        console.log("useAuth: No nsec found. User is not logged in.");
+                        // The key stays locked until unlockWithPin; plain ones are encrypted at that point
+                        console.log(`useAuth: Found stored ${isNcryptsec(nsec) ? 'ncryptsec' : 'plain nsec'}. Waiting for the PIN.`);
                         ndk.signer = undefined;
                         setCurrentUserNpub(null);
                         setCurrentUserNsecForBackup(null);
+                        setLockedKey(isNcryptsec(nsec) ? 'ncryptsec' : 'plain');
+                    } else {
+                        const watchedNpub = await idb.loadWatchedNpubFromDb();
+                        ndk.signer = undefined;
+                        setCurrentUserNsecForBackup(null);
+                        if (watchedNpub) {
+                            console.log("useAuth: No nsec found. Resuming read-only session for", watchedNpub);
+                            setCurrentUserNpub(watchedNpub);
+                            setIsReadOnly(true);
+                        } else {
+                            console.log("useAuth: No nsec found. User is not logged in.");
+                            setCurrentUserNpub(null);
+                        }
                     }
                 }
 
@@ -344,12 +408,12 @@ export const useAuth = (): UseAuthReturn => {
              // console.log("useAuth: Cleanup effect (if needed).");
          };
     // Add all dependencies used within the effect
-    }, [ndk, loadNip46DataFromDb, loadNsecFromDb, clearNip46DataFromDb, clearNsecFromDb, loadFollowedTags, saveNip46DataToDb, saveNsecToDbInternal]); // Added save functions as they might be indirectly related via state updates if needed
+    }, [ndk, loadNip46DataFromDb, loadNsecFromDb, clearNip46DataFromDb, clearNsecFromDb, loadFollowedTags, saveNip46DataToDb, saveNsecToDbInternal, rememberProfile]); // Added save functions as they might be indirectly related via state updates if needed
 
 
     // --- Core Auth Logic (functions like generateNewKeys, loginWithNsec, initiateNip46Connection, logout) ---
 
-    const loginWithNsec = useCallback(async (nsecInput: string): Promise<boolean> => {
+    const loginWithNsec = useCallback(async (nsecInput: string, pin: string): Promise<boolean> => {
         if (!ndk) {
             setAuthError("NDK not initialized.");
             console.error("useAuth: NDK instance not available in loginWithNsec.");
@@ -368,8 +432,9 @@ export const useAuth = (): UseAuthReturn => {
             const user = await ndk.signer.user();
             console.log("Logged in with nsec, user:", user.npub);
             setCurrentUserNpub(user.npub);
-            await saveNsecToDbInternal(nsecInput);
+            await saveNsecToDbInternal(nsecInput, pin);
             await clearNip46DataFromDb();
+            await rememberProfile('nsec', user.pubkey);
             setIsLoadingAuth(false);
             return true;
         } catch (error) {
@@ -381,11 +446,11 @@ export const useAuth = (): UseAuthReturn => {
             setIsLoadingAuth(false);
             return false;
         }
-    }, [ndk, saveNsecToDbInternal, clearNip46DataFromDb]);
+    }, [ndk, saveNsecToDbInternal, clearNip46DataFromDb, rememberProfile]);
 
+    // Only generates the keys: they are saved (under a PIN) once the user picks them via loginWithNsec
     const generateNewKeys = useCallback(async (): Promise<{ npub: string; nsec: string } | null> => {
         console.log("Generating new keys...");
-        setIsLoadingAuth(true);
         setAuthError(null);
         try {
             const skBytes = generateSecretKey();
@@ -393,25 +458,124 @@ export const useAuth = (): UseAuthReturn => {
             const nsec = nip19.nsecEncode(skBytes);
             const npub = nip19.npubEncode(pkHex);
             console.log("Generated new keys - npub:", npub);
+            return { npub, nsec };
+        } catch (error) {
+            console.error("Failed to generate new keys:", error);
+            setAuthError(`Key generation failed: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }, []);
 
-            // Log in with the new nsec (Now defined above)
-            const loggedIn = await loginWithNsec(nsec);
-            if (loggedIn) {
-                // loginWithNsec sets loading to false
-                return { npub, nsec };
+    // Imports an ncryptsec (e.g. exported from another device). It's stored as given, so its passphrase unlocks it here too.
+    const loginWithNcryptsec = useCallback(async (ncryptsec: string, passphrase: string): Promise<boolean> => {
+        if (!ndk) {
+            setAuthError("NDK not initialized.");
+            return false;
+        }
+        setIsLoadingAuth(true);
+        setAuthError(null);
+        try {
+            if (!isNcryptsec(ncryptsec)) throw new Error("Not an ncryptsec.");
+            const nsec = decryptNcryptsec(ncryptsec, passphrase);
+            ndk.signer = new NDKPrivateKeySigner(nsec);
+            const user = await ndk.signer.user();
+            console.log("Logged in with imported ncryptsec, user:", user.npub);
+            setCurrentUserNpub(user.npub);
+            await idb.saveNsecToDb(ncryptsec.trim());
+            setCurrentUserNsecForBackup(nsec);
+            setLockedKey(null);
+            await clearNip46DataFromDb();
+            await rememberProfile('nsec', user.pubkey);
+            return true;
+        } catch (error) {
+            console.error("Failed to login with ncryptsec:", error);
+            setAuthError(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+            ndk.signer = undefined;
+            setCurrentUserNpub(null);
+            setCurrentUserNsecForBackup(null);
+            return false;
+        } finally {
+            setIsLoadingAuth(false);
+        }
+    }, [ndk, clearNip46DataFromDb, rememberProfile]);
+
+    const exportNcryptsec = useCallback((passphrase: string): string | null => {
+        if (!currentUserNsecForBackup) {
+            setAuthError("No local key to export (remote signers keep their own).");
+            return null;
+        }
+        try {
+            return encryptNsec(currentUserNsecForBackup, passphrase);
+        } catch (error) {
+            console.error("Failed to export ncryptsec:", error);
+            setAuthError(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }, [currentUserNsecForBackup]);
+
+    // Unlocks the stored key. A plain nsec from an older version is logged in and re-saved encrypted under the new PIN.
+    const unlockWithPin = useCallback(async (pin: string): Promise<boolean> => {
+        if (!ndk) {
+            setAuthError("NDK not initialized.");
+            return false;
+        }
+        setIsLoadingAuth(true);
+        setAuthError(null);
+        try {
+            const stored = await loadNsecFromDb();
+            if (!stored) throw new Error("No stored key.");
+            const nsec = isNcryptsec(stored) ? decryptNcryptsec(stored, pin) : stored;
+            ndk.signer = new NDKPrivateKeySigner(nsec);
+            const user = await ndk.signer.user();
+            console.log("useAuth: Unlocked stored key for user:", user.npub);
+            setCurrentUserNpub(user.npub);
+            if (isNcryptsec(stored)) {
+                setCurrentUserNsecForBackup(nsec);
+                setLockedKey(null);
             } else {
-                throw new Error("Failed to log in with newly generated keys.");
+                await saveNsecToDbInternal(nsec, pin, true);
+                console.log("useAuth: Migrated the plain stored nsec to an ncryptsec.");
             }
+            await rememberProfile('nsec', user.pubkey);
+            return true;
         } catch (error) {
-            console.error("Failed to generate or login with new keys:", error);
-            setAuthError(`Key generation failed: ${error instanceof Error ? error.message : String(error)}`);
-            setIsLoadingAuth(false);
-            if(ndk) ndk.signer = undefined;
+            console.error("useAuth: Failed to unlock stored key:", error);
+            setAuthError(`Unlock failed: ${error instanceof Error ? error.message : String(error)}`);
+            ndk.signer = undefined;
             setCurrentUserNpub(null);
+            return false;
+        } finally {
+            setIsLoadingAuth(false);
+        }
+    }, [ndk, loadNsecFromDb, saveNsecToDbInternal, rememberProfile]);
+
+    // Starts a read-only session: no signer, so tips, posting and private messages stay off
+    const watchNpub = useCallback(async (input: string): Promise<boolean> => {
+        if (!ndk) {
+            setAuthError("NDK not initialized.");
+            return false;
+        }
+        setIsLoadingAuth(true);
+        setAuthError(null);
+        try {
+            const pubkey = await resolvePubkey(input);
+            const npub = nip19.npubEncode(pubkey);
+            ndk.signer = undefined;
+            await idb.saveWatchedNpubToDb(npub);
+            announceWatchedNpub(npub);
             setCurrentUserNsecForBackup(null);
-            return null;
+            setLockedKey(null);
+            await rememberProfile('npub', pubkey);
+            console.log("useAuth: Watching", npub, "(read-only)");
+            return true;
+        } catch (error) {
+            console.error("useAuth: Failed to start read-only session:", error);
+            setAuthError(`Watch failed: ${error instanceof Error ? error.message : String(error)}`);
+            return false;
+        } finally {
+            setIsLoadingAuth(false);
         }
-    }, [ndk, loginWithNsec]);
+    }, [ndk, rememberProfile]);
 
     const cancelNip46Connection = useCallback(() => {
         console.log("Cancelling NIP-46 connection attempt...");
@@ -509,6 +673,7 @@ export const useAuth = (): UseAuthReturn => {
                         await saveNip46DataToDb(nip46DataToStore);
             await clearNsecFromDb();
                         setCurrentUserNsecForBackup(null);
+                        await rememberProfile('nip46', user.pubkey);
 
                          // Clear generating state, URI, temp key ref
                         setIsGeneratingUri(false);
@@ -542,42 +707,55 @@ export const useAuth = (): UseAuthReturn => {
              setAuthError(`Failed to start remote sign-in: ${error instanceof Error ? error.message : String(error)}`);
              cancelNip46Connection();
         }
-    }, [ndk, cancelNip46Connection, saveNip46DataToDb, clearNsecFromDb]);
+    }, [ndk, cancelNip46Connection, saveNip46DataToDb, clearNsecFromDb, rememberProfile]);
 
-    const logout = useCallback(async () => {
+    const logout = useCallback(async (acknowledgedWarning = false) => {
         if (!ndk) {
             console.error("useAuth: NDK instance not available in logout.");
             return;
         }
+        if (!acknowledgedWarning) {
+            const warning = await getLogoutWarning();
+            if (warning) throw new Error(warning);
+        }
         console.log("Logging out...");
         setIsLoadingAuth(true);
         setAuthError(null);
         ndk.signer = undefined;
         setCurrentUserNpub(null);
         setCurrentUserNsecForBackup(null);
+        setLockedKey(null);
+        announceWatchedNpub(null);
         await clearNsecFromDb();
         await clearNip46DataFromDb();
+        try {
+            await idb.clearWatchedNpubFromDb();
+            await logOutActiveProfile();
+            await refreshProfiles();
+        } catch (error) {
+            console.error("useAuth: Failed to clear the read-only session or profile:", error);
+        }
         setIsLoadingAuth(false);
         console.log("Logout complete.");
-    }, [ndk, clearNsecFromDb, clearNip46DataFromDb]);
+    }, [ndk, clearNsecFromDb, clearNip46DataFromDb, refreshProfiles]);
 
     // --- NIP-04/44 Methods (Using NDK Signer) ---
-    const encryptDm = useCallback(async (recipientPubkeyHex: string, plaintext: string): Promise<string> => {
+    const encryptDm = useCallback(async (recipientPubkeyHex: string, plaintext: string, scheme: NDKEncryptionScheme = 'nip04'): Promise<string> => {
         if (!ndk?.signer) throw new Error("Not logged in / Signer not available");
         try {
             const recipientUser = ndk.getUser({ hexpubkey: recipientPubkeyHex });
-            return await ndk.signer.encrypt(recipientUser, plaintext);
+            return await ndk.signer.encrypt(recipientUser, plaintext, scheme);
         } catch (error) {
             console.error("Encryption failed:", error);
             throw new Error(`Encryption failed: ${error instanceof Error ? error.message : "Unknown error"}`);
         }
     }, [ndk, ndk?.signer]);
 
-    const decryptDm = useCallback(async (senderPubkeyHex: string, ciphertext: string): Promise<string> => {
+    const decryptDm = useCallback(async (senderPubkeyHex: string, ciphertext: string, scheme: NDKEncryptionScheme = 'nip04'): Promise<string> => {
         if (!ndk?.signer) throw new Error("Not logged in / Signer not available");
         try {
             const senderUser = ndk.getUser({ hexpubkey: senderPubkeyHex });
-            return await ndk.signer.decrypt(senderUser, ciphertext);
+            return await ndk.signer.decrypt(senderUser, ciphertext, scheme);
         } catch (error) {
             console.error("Decryption failed:", error);
             throw new Error(`Decryption failed: ${error instanceof Error ? error.message : "Unknown error"}`);
@@ -589,6 +767,8 @@ export const useAuth = (): UseAuthReturn => {
         currentUserNpub,
         currentUserNsecForBackup,
         isLoggedIn,
+        isReadOnly,
+        watchNpub,
         isLoadingAuth,
         authError,
         nip46ConnectUri,
@@ -597,7 +777,16 @@ export const useAuth = (): UseAuthReturn => {
         cancelNip46Connection,
         generateNewKeys,
         loginWithNsec,
+        loginWithNcryptsec,
+        exportNcryptsec,
+        lockedKey,
+        unlockWithPin,
+        getLogoutWarning,
         logout,
+        profiles,
+        activeProfileId,
+        switchProfile,
+        addProfile,
         followedTags,
         setFollowedTags,
         encryptDm,
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNDK } from '@nostr-dev-kit/ndk-hooks';
+import { NostrNote } from '../types/nostr';
+import {
+  resolveBlossomMedia,
+  getBlossomStreamUrls,
+  retainBlossomObjectUrl,
+  releaseBlossomObjectUrl,
+} from '../utils/blossom';
+
+interface UseBlossomMediaOptions {
+  // Audio/video: play the URL directly and fail over to Blossom mirrors on element errors,
+  // instead of downloading and verifying the whole file first
+  stream?: boolean;
+}
+
+interface UseBlossomMediaReturn {
+  url: string | null;   // null while the media is being resolved/verified
+  isResolving: boolean;
+  isVerified: boolean;
+  onError: () => void;  // For the media element's error event (stream mode only)
+}
+
+// Resolves a note's media URL through Blossom failover and hash verification.
+// `url` overrides note.url (e.g. the rendition or playlist item actually selected).
+export const useBlossomMedia = (
+  note: NostrNote | null | undefined,
+  url?: string | null,
+  { stream = false }: UseBlossomMediaOptions = {}
+): UseBlossomMediaReturn => {
+  const { ndk } = useNDK();
+  const mediaUrl = url ?? note?.url ?? null;
+  // Only trust the note's hash when we're resolving the note's own URL
+  const sha256 = mediaUrl && mediaUrl === note?.url ? note?.sha256 : undefined;
+  const authorPubkey = note?.pubkey;
+  const fallbackUrls = mediaUrl && mediaUrl === note?.url ? note?.fallbackUrls : undefined;
+
+  const [resolved, setResolved] = useState<{ source: string; url: string; verified: boolean } | null>(null);
+  const [mirror, setMirror] = useState<{ source: string; url: string } | null>(null); // Stream mode
+  const mediaUrlRef = useRef(mediaUrl);
+  mediaUrlRef.current = mediaUrl;
+
+  useEffect(() => {
+    if (!mediaUrl || stream) return;
+    let isCancelled = false;
+    resolveBlossomMedia(ndk, { url: mediaUrl, sha256, authorPubkey, fallbackUrls })
+      .then(result => {
+        if (!isCancelled) setResolved({ source: mediaUrl, url: result.url, verified: result.verified });
+      });
+    return () => { isCancelled = true; };
+    // fallbackUrls is derived from the note; the URL/hash pair identifies the request
+  }, [ndk, mediaUrl, sha256, authorPubkey, stream]);
+
+  // Ignore results that belong to a previous URL
+  const current = resolved && resolved.source === mediaUrl ? resolved : null;
+  const currentMirror = mirror && mirror.source === mediaUrl ? mirror.url : null;
+
+  // Keep a verified object URL alive while it's on screen
+  const verifiedObjectUrl = current?.verified ? current.url : null;
+  useEffect(() => {
+    if (!verifiedObjectUrl) return;
+    retainBlossomObjectUrl(verifiedObjectUrl);
+    return () => releaseBlossomObjectUrl(verifiedObjectUrl);
+  }, [verifiedObjectUrl]);
+
+  const onError = useCallback(() => {
+    if (!stream || !mediaUrl) return;
+    const failedUrl = currentMirror ?? mediaUrl;
+    getBlossomStreamUrls(ndk, { url: mediaUrl, sha256, authorPubkey, fallbackUrls }).then(candidates => {
+      if (mediaUrlRef.current !== mediaUrl) return; // Moved on to another item meanwhile
+      const next = candidates[candidates.indexOf(failedUrl) + 1];
+      if (!next) {
+        console.warn(`useBlossomMedia: No more mirrors for ${mediaUrl}.`);
+        return;
+      }
+      console.log(`useBlossomMedia: ${failedUrl} failed, trying ${next}.`);
+      setMirror({ source: mediaUrl, url: next });
+    });
+  }, [ndk, stream, mediaUrl, currentMirror, sha256, authorPubkey, fallbackUrls]);
+
+  if (stream) {
+    return { url: currentMirror ?? mediaUrl, isResolving: false, isVerified: false, onError };
+  }
+
+  return {
+    url: mediaUrl ? current?.url ?? null : null,
+    isResolving: !!mediaUrl && !current,
+    isVerified: current?.verified ?? false,
+    onError,
+  };
+};
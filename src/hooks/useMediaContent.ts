@@ -1,76 +1,23 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useNDK, useSubscribe } from '@nostr-dev-kit/ndk-hooks';
 import { NDKEvent, NDKFilter, NDKKind } from '@nostr-dev-kit/ndk';
 import { TV_PUBKEY_NPUB } from '../constants';
 import { NostrNote } from '../types/nostr';
 import { shuffleArray } from '../utils/shuffleArray';
-import { buildMediaFilters, getHexPubkey, MediaType } from '../utils/filterUtils';
+import { buildMediaFilters, getHexPubkey } from '../utils/filterUtils';
+import { extractMediaNotes } from '../utils/mediaExtractor';
+import { probeContentTypes } from '../utils/contentTypeProbe';
+import { eventStore } from '../utils/eventStore';
+import { useOutboxSubscribe } from './useOutboxSubscribe';
 
 // Constants for initial fetch limits
 const INITIAL_IMAGE_FETCH_LIMIT = 200;
 const INITIAL_VIDEO_FETCH_LIMIT = 200;
 const INITIAL_PODCAST_FETCH_LIMIT = 200;
 
-// Event processing function (copied and adapted from App.tsx)
-// TODO: Consider moving this to a shared utility if used elsewhere
-function processEvent(event: NDKEvent, type: MediaType): NostrNote | null {
-    const mimeTag = event.tags.find(t => t[0] === 'm');
-    const urlTag = event.tags.find(t => t[0] === 'url');
-    const mediaTag = event.tags.find(t => t[0] === 'media'); // NIP-96
-    const imageTag = event.tags.find(t => t[0] === 'image'); // Older convention
-    const enclosureTag = event.tags.find(t => t[0] === 'enclosure'); // RSS/Podcast
-
-    let mediaUrl: string | undefined;
-    let mimeType: string | undefined = mimeTag?.[1];
-
-    let mimeMatch = false;
-    if (mimeType) {
-        switch (type) {
-            case 'image': mimeMatch = mimeType.startsWith('image/'); break;
-            case 'video': mimeMatch = mimeType.startsWith('video/'); break;
-            case 'podcast': mimeMatch = mimeType.startsWith('audio/'); break;
-        }
-    }
-
-    if (!mimeMatch) return null;
-
-    if (urlTag?.[1]) {
-        mediaUrl = urlTag[1];
-    } else if (mediaTag?.[1]) {
-        mediaUrl = mediaTag[1];
-    } else if (type === 'image' && imageTag?.[1]) {
-        mediaUrl = imageTag[1];
-    } else if (type === 'podcast' && enclosureTag?.[1]) {
-        mediaUrl = enclosureTag[1];
-    }
-
-    if (!mediaUrl) return null;
-
-    const title = event.tags.find(t => t[0] === 'title')?.[1];
-    const summary = event.tags.find(t => t[0] === 'summary')?.[1];
-    const image = event.tags.find(t => t[0] === 'image')?.[1];
-    const duration = event.tags.find(t => t[0] === 'duration')?.[1];
-
-    return {
-        id: event.id,
-        pubkey: event.pubkey,
-        created_at: event.created_at ?? 0,
-        kind: event.kind ?? 0,
-        tags: event.tags,
-        content: event.content,
-        sig: event.sig || '',
-        url: mediaUrl,
-        posterPubkey: event.pubkey,
-        title: title,
-        summary: summary,
-        image: image,
-        duration: duration,
-    };
-}
-
 interface UseMediaContentProps {
     followedTags: string[];
-    currentUserNpub: string | null; // Npub of the currently logged-in user, or null
+    currentUserNpub: string | null; // Npub of the logged-in or watched (read-only) user, or null
 }
 
 interface UseMediaContentReturn {
@@ -98,7 +45,7 @@ export function useMediaContent({
     const [isLoadingKind3, setIsLoadingKind3] = useState<boolean>(true);
 
     // --- Determine Pubkey for Kind 3 Fetch ---
-    // Use the logged-in user's pubkey if available, otherwise default to TV pubkey.
+    // Use the logged-in (or watched) user's pubkey if available, otherwise default to TV pubkey.
     const kind3AuthorHex = useMemo(() => {
         console.log(`useMediaContent: Determining Kind 3 author. currentUserHexPubkey: ${currentUserHexPubkey}, tvPubkeyHex: ${tvPubkeyHex}`);
         return currentUserHexPubkey || tvPubkeyHex;
@@ -196,66 +143,112 @@ export function useMediaContent({
     }, [podcastFetchLimit, followedAuthorPubkeys, followedTags, podcastFetchUntil, currentUserHexPubkey]);
 
     // --- Subscribe to Media Events ---
-    // Pass empty array [] to useSubscribe if filters are null to prevent type errors
-    const finalImageFilters = imageFilters ?? [];
-    console.log('useMediaContent: Passing to useSubscribe (Images):', JSON.stringify(finalImageFilters));
-    const { events: imageEvents, eose: imageEose } = useSubscribe(finalImageFilters, { closeOnEose: false });
-    
-    const finalVideoFilters = videoFilters ?? [];
-    console.log('useMediaContent: Passing to useSubscribe (Videos):', JSON.stringify(finalVideoFilters));
-    const { events: videoEvents, eose: videoEose } = useSubscribe(finalVideoFilters, { closeOnEose: false });
-    
-    const finalPodcastFilters = podcastFilters ?? [];
-    console.log('useMediaContent: Passing to useSubscribe (Podcasts):', JSON.stringify(finalPodcastFilters));
-    const { events: podcastEvents, eose: podcastEose } = useSubscribe(finalPodcastFilters, { closeOnEose: false });
+    // Author filters follow the outbox model (each author's own write relays);
+    // hashtag filters have no author to route by and go to the default relays.
+    const splitFilters = (filters: NDKFilter[] | null) => ({
+        authorFilters: filters?.filter(filter => filter.authors) ?? [],
+        tagFilters: filters?.filter(filter => !filter.authors) ?? [],
+    });
+    const imageSplit = useMemo(() => splitFilters(imageFilters), [imageFilters]);
+    const videoSplit = useMemo(() => splitFilters(videoFilters), [videoFilters]);
+    const podcastSplit = useMemo(() => splitFilters(podcastFilters), [podcastFilters]);
+
+    // Pass empty array [] to useSubscribe if there are no tag filters to prevent type errors
+    console.log('useMediaContent: Passing to useSubscribe (Images):', JSON.stringify(imageSplit.tagFilters));
+    const { events: imageTagEvents, eose: imageTagEose } = useSubscribe(imageSplit.tagFilters, { closeOnEose: false });
+    const { events: imageAuthorEvents, eose: imageAuthorEose } = useOutboxSubscribe(imageSplit.authorFilters);
+
+    console.log('useMediaContent: Passing to useSubscribe (Videos):', JSON.stringify(videoSplit.tagFilters));
+    const { events: videoTagEvents, eose: videoTagEose } = useSubscribe(videoSplit.tagFilters, { closeOnEose: false });
+    const { events: videoAuthorEvents, eose: videoAuthorEose } = useOutboxSubscribe(videoSplit.authorFilters);
+
+    console.log('useMediaContent: Passing to useSubscribe (Podcasts):', JSON.stringify(podcastSplit.tagFilters));
+    const { events: podcastTagEvents, eose: podcastTagEose } = useSubscribe(podcastSplit.tagFilters, { closeOnEose: false });
+    const { events: podcastAuthorEvents, eose: podcastAuthorEose } = useOutboxSubscribe(podcastSplit.authorFilters);
+
+    const imageEvents = useMemo(() => [...imageAuthorEvents, ...imageTagEvents], [imageAuthorEvents, imageTagEvents]);
+    const videoEvents = useMemo(() => [...videoAuthorEvents, ...videoTagEvents], [videoAuthorEvents, videoTagEvents]);
+    const podcastEvents = useMemo(() => [...podcastAuthorEvents, ...podcastTagEvents], [podcastAuthorEvents, podcastTagEvents]);
+
+    // Done once every active part has reached EOSE
+    const imageEose = (imageSplit.authorFilters.length === 0 || imageAuthorEose) && (imageSplit.tagFilters.length === 0 || imageTagEose);
+    const videoEose = (videoSplit.authorFilters.length === 0 || videoAuthorEose) && (videoSplit.tagFilters.length === 0 || videoTagEose);
+    const podcastEose = (podcastSplit.authorFilters.length === 0 || podcastAuthorEose) && (podcastSplit.tagFilters.length === 0 || podcastTagEose);
+
+    // --- Local Event Store: paint cached events before relays answer ---
+    const [cachedEvents, setCachedEvents] = useState<NDKEvent[]>([]);
 
-    // --- Process Raw Events into Notes (with deduplication) ---
     useEffect(() => {
-        console.log(`useMediaContent: Received ${imageEvents.length} raw image events from useSubscribe.`, imageEvents.map(e => e.rawEvent()));
-        console.log("useMediaContent: Processing raw image events", imageEvents);
-        const newNotes = new Map<string, NostrNote>();
-        imageEvents.forEach(event => {
-            const note = processEvent(event, 'image');
-            if (note && !newNotes.has(note.id)) {
-                newNotes.set(note.id, note);
-            }
+        const filters = [...(imageFilters ?? []), ...(videoFilters ?? []), ...(podcastFilters ?? [])];
+        if (filters.length === 0) {
+            setCachedEvents([]);
+            return;
+        }
+        let cancelled = false;
+        Promise.all(filters.map(filter => eventStore.queryEvents({
+            kinds: filter.kinds,
+            authors: filter.authors,
+            hashtags: filter['#t'],
+            until: filter.until,
+            limit: filter.limit,
+        }))).then(results => {
+            if (cancelled) return;
+            const events = results.flat().map(rawEvent => new NDKEvent(ndk ?? undefined, rawEvent));
+            console.log(`useMediaContent: Loaded ${events.length} cached events from the local event store.`);
+            setCachedEvents(events);
         });
-        // Merge with existing notes if needed, or just set?
-        // For simplicity now, just set. Could merge if supporting pagination better.
-        const notesArray = Array.from(newNotes.values());
-        setProcessedImageNotes(notesArray);
-        if (imageEose) setIsLoadingImages(false); // Stop loading on EOSE
-    }, [imageEvents, imageEose]);
+        return () => { cancelled = true; };
+    }, [imageFilters, videoFilters, podcastFilters, ndk]);
+
+    // --- Persist relay events to the local store (only ones not written yet) ---
+    const storedEventIdsRef = useRef<Set<string>>(new Set());
 
     useEffect(() => {
-        console.log(`useMediaContent: Received ${videoEvents.length} raw video events from useSubscribe.`, videoEvents.map(e => e.rawEvent()));
-        console.log("useMediaContent: Processing raw video events", videoEvents);
-        const newNotes = new Map<string, NostrNote>();
-        videoEvents.forEach(event => {
-            const note = processEvent(event, 'video');
-            if (note && !newNotes.has(note.id)) {
-                newNotes.set(note.id, note);
-            }
-        });
-        const notesArray = Array.from(newNotes.values());
-        setProcessedVideoNotes(notesArray);
-        if (videoEose) setIsLoadingVideos(false); // Stop loading on EOSE
-    }, [videoEvents, videoEose]);
+        const newEvents: NDKEvent[] = [...imageEvents, ...videoEvents, ...podcastEvents]
+            .filter((event: NDKEvent) => !storedEventIdsRef.current.has(event.id));
+        if (newEvents.length === 0) return;
+        newEvents.forEach(event => storedEventIdsRef.current.add(event.id));
+        eventStore.saveEvents(newEvents.map(event => event.rawEvent()));
+    }, [imageEvents, videoEvents, podcastEvents]);
+
+    // --- Process Raw Events into Notes (single pass, with deduplication) ---
+    // Kind 1 notes arrive on every subscription and may carry any media type in their content,
+    // so all events are classified together and routed to the right list.
+    const [probeVersion, setProbeVersion] = useState<number>(0);
 
     useEffect(() => {
-        console.log(`useMediaContent: Received ${podcastEvents.length} raw podcast events from useSubscribe.`, podcastEvents.map(e => e.rawEvent()));
-        console.log("useMediaContent: Processing raw podcast events", podcastEvents);
-        const newNotes = new Map<string, NostrNote>();
-        podcastEvents.forEach(event => {
-            const note = processEvent(event, 'podcast');
-            if (note && !newNotes.has(note.id)) {
-                newNotes.set(note.id, note);
-            }
-        });
-        const notesArray = Array.from(newNotes.values());
-        setProcessedPodcastNotes(notesArray);
-        if (podcastEose) setIsLoadingPodcasts(false); // Stop loading on EOSE
-    }, [podcastEvents, podcastEose]);
+        console.log(`useMediaContent: Processing raw events (images: ${imageEvents.length}, videos: ${videoEvents.length}, podcasts: ${podcastEvents.length}, cached: ${cachedEvents.length}, probeVersion: ${probeVersion})`);
+        // Live events first so they win deduplication over cached copies
+        const { notes, unresolvedUrls } = extractMediaNotes([...imageEvents, ...videoEvents, ...podcastEvents, ...cachedEvents]);
+        setProcessedImageNotes(notes.image);
+        setProcessedVideoNotes(notes.video);
+        setProcessedPodcastNotes(notes.podcast);
+
+        // Links without a telling extension: probe their Content-Type, then re-run the extraction
+        if (unresolvedUrls.length > 0) {
+            console.log(`useMediaContent: Probing Content-Type for ${unresolvedUrls.length} unclassified links.`);
+            let cancelled = false;
+            probeContentTypes(unresolvedUrls).then(resolvedCount => {
+                if (!cancelled && resolvedCount > 0) {
+                    setProbeVersion(v => v + 1);
+                }
+            });
+            return () => { cancelled = true; };
+        }
+    }, [imageEvents, videoEvents, podcastEvents, cachedEvents, probeVersion]);
+
+    // --- Loading States (stop on EOSE) ---
+    useEffect(() => {
+        if (imageEose) setIsLoadingImages(false);
+    }, [imageEose]);
+
+    useEffect(() => {
+        if (videoEose) setIsLoadingVideos(false);
+    }, [videoEose]);
+
+    useEffect(() => {
+        if (podcastEose) setIsLoadingPodcasts(false);
+    }, [podcastEose]);
 
     // --- Shuffle Image and Video Notes ---
     useEffect(() => {
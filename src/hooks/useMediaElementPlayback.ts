@@ -31,6 +31,7 @@ const getPlaybackTime = (url: string): number | null => {
 interface UseMediaElementPlaybackProps {
   mediaElementRef: React.RefObject<HTMLMediaElement>;
   currentItemUrl: string | null;
+  positionKey?: string | null; // Key for saved playback positions when currentItemUrl is a temporary (object) URL
   viewMode: 'imagePodcast' | 'videoPlayer';
   onEnded?: () => void;
   initialTime?: number;
@@ -56,6 +57,7 @@ interface UseMediaPlaybackResult {
 export function useMediaElementPlayback({
   mediaElementRef,
   currentItemUrl,
+  positionKey,
   viewMode,
   onEnded,
   initialTime = 0,
@@ -125,7 +127,7 @@ export function useMediaElementPlayback({
       }
       const now = Date.now();
       if (currentItemUrl && now - lastSaveTimeRef.current > SAVE_INTERVAL && !mediaElement.seeking && mediaElement.currentTime > 0) {
-          savePlaybackTime(currentItemUrl, mediaElement.currentTime);
+          savePlaybackTime(positionKey ?? currentItemUrl, mediaElement.currentTime);
           lastSaveTimeRef.current = now;
       }
     };
@@ -221,7 +223,7 @@ export function useMediaElementPlayback({
          mediaElement.pause();
       }
     };
-  }, [currentItemUrl, mediaElementRef, onEnded, isSeeking, initialTime, viewMode]);
+  }, [currentItemUrl, positionKey, mediaElementRef, onEnded, isSeeking, initialTime, viewMode]);
 
   useEffect(() => {
     const mediaElement = mediaElementRef.current;
@@ -336,11 +338,11 @@ export function useMediaElementPlayback({
         mediaElement.currentTime = seekTime;
         setCurrentTime(seekTime);
         if (currentItemUrl) {
-            savePlaybackTime(currentItemUrl, seekTime);
+            savePlaybackTime(positionKey ?? currentItemUrl, seekTime);
             lastSaveTimeRef.current = Date.now();
         }
     }
-  }, [mediaElementRef, currentItemUrl]);
+  }, [mediaElementRef, currentItemUrl, positionKey]);
 
   const setPlaybackRateControl = useCallback((rate: number) => {
     const mediaElement = mediaElementRef.current;
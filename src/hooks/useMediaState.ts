@@ -51,11 +51,6 @@ interface UseMediaStateReturn {
   // setIsLoadingVideoNotes: React.Dispatch<React.SetStateAction<boolean>>;
 }
 
-// <<< Define Regex for media URLs >>>
-const imageRegex = /https?:\/\/\S+\.(?:png|jpg|jpeg|gif|webp)/i;
-const videoRegex = /https?:\/\/\S+\.(?:mp4|mov|webm|m3u8)/i;
-const audioRegex = /https?:\/\/\S+\.(?:mp3|m4a|ogg|aac|wav)/i;
-
 export function useMediaState({ 
     // Destructure new props
     initialImageNotes = [],
@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import NDK from '@nostr-dev-kit/ndk';
+import { NostrNote } from '../types/nostr';
+import { MediaType } from '../utils/filterUtils';
+import {
+  OFFLINE_MEDIA_TYPES,
+  downloadMedia,
+  getCachedMediaUrls,
+  createOfflineObjectUrl,
+} from '../utils/offlineMediaStore';
+
+// How many upcoming items of each type to keep downloaded
+const DEFAULT_PREFETCH_COUNTS: Record<MediaType, number> = {
+  image: 20,
+  podcast: 3,
+  video: 3,
+};
+const CONNECTIVITY_CHECK_INTERVAL = 10000; // 10 seconds
+const RELAY_OFFLINE_CHECKS = 2; // Consecutive checks with no relays before we call it offline
+
+interface UseOfflineMediaProps {
+  ndk: NDK | null | undefined;
+  imageNotes: NostrNote[];
+  podcastNotes: NostrNote[];
+  videoNotes: NostrNote[];
+  prefetchCounts?: Partial<Record<MediaType, number>>;
+}
+
+interface PlaybackPositions {
+  image: number;
+  podcast: number;
+  video: number;
+}
+
+interface UseOfflineMediaReturn {
+  isOffline: boolean;
+  isUsingOfflineLibrary: boolean; // Offline and at least one item is available locally
+  offlineItemCount: number;
+  // Lists to render: the originals while online, only locally available items while offline
+  imageNotes: NostrNote[];
+  podcastNotes: NostrNote[];
+  videoNotes: NostrNote[];
+  setPlaybackPositions: (positions: PlaybackPositions) => void;
+}
+
+// Next `count` items starting at `start`, wrapping around like the carousels do
+const upcomingUrls = (notes: NostrNote[], start: number, count: number): string[] => {
+  const urls: string[] = [];
+  for (let i = 0; i < Math.min(count, notes.length); i++) {
+    const url = notes[(start + i) % notes.length]?.url;
+    if (url) urls.push(url);
+  }
+  return urls;
+};
+
+export const useOfflineMedia = ({
+  ndk,
+  imageNotes,
+  podcastNotes,
+  videoNotes,
+  prefetchCounts,
+}: UseOfflineMediaProps): UseOfflineMediaReturn => {
+  const [isBrowserOnline, setIsBrowserOnline] = useState<boolean>(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const [areRelaysReachable, setAreRelaysReachable] = useState<boolean>(true);
+  const [positions, setPositions] = useState<PlaybackPositions>({ image: 0, podcast: 0, video: 0 });
+  const [cachedUrls, setCachedUrls] = useState<Set<string>>(new Set()); // Offline library contents, read when going offline
+  const [objectUrls, setObjectUrls] = useState<Map<string, string>>(new Map()); // Only without a service worker
+  const objectUrlsRef = useRef<Map<string, string>>(new Map()); // Same, for revoking outside renders
+  const isDownloadingRef = useRef<boolean>(false);
+  const pendingDownloadRef = useRef<boolean>(false);
+
+  const isOffline = !isBrowserOnline || !areRelaysReachable;
+
+  const counts = useMemo(() => ({ ...DEFAULT_PREFETCH_COUNTS, ...prefetchCounts }), [prefetchCounts]);
+
+  // --- Connectivity ---
+  useEffect(() => {
+    const handleOnline = () => setIsBrowserOnline(true);
+    const handleOffline = () => setIsBrowserOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // navigator.onLine stays true when the LAN is up but the internet is down,
+  // so also treat "every relay dropped" (after having connected once) as offline.
+  useEffect(() => {
+    if (!ndk) return;
+    let hasConnected = false;
+    let failedChecks = 0;
+    const check = () => {
+      const connectedCount = ndk.pool?.connectedRelays?.().length ?? 0;
+      if (connectedCount > 0) {
+        hasConnected = true;
+        failedChecks = 0;
+        setAreRelaysReachable(true);
+      } else if (hasConnected) {
+        failedChecks++;
+        if (failedChecks >= RELAY_OFFLINE_CHECKS) setAreRelaysReachable(false);
+      }
+    };
+    check();
+    const intervalId = setInterval(check, CONNECTIVITY_CHECK_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [ndk]);
+
+  // --- Prefetch the next items while online ---
+  const setPlaybackPositions = useCallback((next: PlaybackPositions) => {
+    setPositions(prev =>
+      prev.image === next.image && prev.podcast === next.podcast && prev.video === next.video ? prev : next
+    );
+  }, []);
+
+  // Latest inputs for the download loop, which may outlive the render that started it
+  const latestRef = useRef({ imageNotes, podcastNotes, videoNotes, positions, counts });
+  latestRef.current = { imageNotes, podcastNotes, videoNotes, positions, counts };
+
+  const runDownloads = useCallback(async () => {
+    if (isDownloadingRef.current) {
+      pendingDownloadRef.current = true; // Re-run once the current batch finishes
+      return;
+    }
+    isDownloadingRef.current = true;
+    try {
+      do {
+        pendingDownloadRef.current = false;
+        const latest = latestRef.current;
+        const windows: Record<MediaType, string[]> = {
+          image: upcomingUrls(latest.imageNotes, latest.positions.image, latest.counts.image),
+          podcast: upcomingUrls(latest.podcastNotes, latest.positions.podcast, latest.counts.podcast),
+          video: upcomingUrls(latest.videoNotes, latest.positions.video, latest.counts.video),
+        };
+        // Sequential on purpose: one download at a time keeps live playback smooth
+        for (const type of OFFLINE_MEDIA_TYPES) {
+          const stored = await downloadMedia(type, windows[type], latest.counts[type] * 2);
+          if (stored > 0) console.log(`useOfflineMedia: Stored ${stored} new ${type} file(s) for offline use.`);
+        }
+      } while (pendingDownloadRef.current);
+    } catch (error) {
+      console.error('useOfflineMedia: Prefetch failed:', error);
+    } finally {
+      isDownloadingRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOffline) return;
+    runDownloads();
+  }, [isOffline, runDownloads, imageNotes, podcastNotes, videoNotes, positions, counts]);
+
+  // --- Switch to the offline library while offline ---
+  useEffect(() => {
+    if (!isOffline) return;
+    let isCancelled = false;
+
+    const load = async () => {
+      const urls = new Set<string>();
+      for (const type of OFFLINE_MEDIA_TYPES) {
+        (await getCachedMediaUrls(type)).forEach(url => urls.add(url));
+      }
+      if (!isCancelled) {
+        console.log(`useOfflineMedia: Offline, playing from ${urls.size} local file(s).`);
+        setCachedUrls(urls);
+      }
+    };
+    load();
+
+    return () => {
+      isCancelled = true;
+      setCachedUrls(new Set());
+    };
+  }, [isOffline]);
+
+  const availableImageNotes = useMemo(() => imageNotes.filter(note => note.url && cachedUrls.has(note.url)), [imageNotes, cachedUrls]);
+  const availablePodcastNotes = useMemo(() => podcastNotes.filter(note => note.url && cachedUrls.has(note.url)), [podcastNotes, cachedUrls]);
+  const availableVideoNotes = useMemo(() => videoNotes.filter(note => note.url && cachedUrls.has(note.url)), [videoNotes, cachedUrls]);
+
+  // The service worker answers requests for the original URLs from Cache Storage (Range requests
+  // included). Without one, the items around each position get object URLs; reading whole files
+  // into memory is why it's only those few, not the library.
+  useEffect(() => {
+    const hasServiceWorker = typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+    if (!isOffline || hasServiceWorker || cachedUrls.size === 0) return;
+    let isCancelled = false;
+    const wanted: Array<{ type: MediaType; url: string }> = [];
+    const addAround = (type: MediaType, notes: NostrNote[], position: number) => {
+      for (let offset = -1; offset <= 1 && notes.length > 0; offset++) {
+        const url = notes[(position + offset + notes.length) % notes.length]?.url;
+        if (url && !wanted.some(item => item.url === url)) wanted.push({ type, url });
+      }
+    };
+    addAround('image', availableImageNotes, positions.image);
+    addAround('podcast', availablePodcastNotes, positions.podcast);
+    addAround('video', availableVideoNotes, positions.video);
+
+    const resolve = async () => {
+      const created = new Map<string, string>();
+      for (const { type, url } of wanted) {
+        const existing = objectUrlsRef.current.get(url);
+        const objectUrl = existing ?? await createOfflineObjectUrl(type, url);
+        if (objectUrl) created.set(url, objectUrl);
+      }
+      if (isCancelled) {
+        created.forEach((objectUrl, url) => { if (!objectUrlsRef.current.has(url)) URL.revokeObjectURL(objectUrl); });
+        return;
+      }
+      objectUrlsRef.current.forEach((objectUrl, url) => { if (!created.has(url)) URL.revokeObjectURL(objectUrl); });
+      objectUrlsRef.current = created;
+      setObjectUrls(new Map(created));
+    };
+    resolve();
+
+    return () => { isCancelled = true; };
+  }, [isOffline, cachedUrls, availableImageNotes, availablePodcastNotes, availableVideoNotes, positions]);
+
+  // Back online (or unmounted): drop every object URL
+  useEffect(() => {
+    if (isOffline) return;
+    objectUrlsRef.current.forEach(objectUrl => URL.revokeObjectURL(objectUrl));
+    objectUrlsRef.current = new Map();
+    setObjectUrls(new Map());
+  }, [isOffline]);
+  useEffect(() => () => objectUrlsRef.current.forEach(objectUrl => URL.revokeObjectURL(objectUrl)), []);
+
+  const toOfflineNotes = useCallback((notes: NostrNote[]): NostrNote[] => {
+    // Drop renditions so the player doesn't fall back to network URLs
+    return notes.map(note => ({ ...note, url: objectUrls.get(note.url!) ?? note.url, renditions: undefined }));
+  }, [objectUrls]);
+
+  const isUsingOfflineLibrary = isOffline && cachedUrls.size > 0;
+
+  const offlineImageNotes = useMemo(() => isUsingOfflineLibrary ? toOfflineNotes(availableImageNotes) : imageNotes, [isUsingOfflineLibrary, toOfflineNotes, availableImageNotes, imageNotes]);
+  const offlinePodcastNotes = useMemo(() => isUsingOfflineLibrary ? toOfflineNotes(availablePodcastNotes) : podcastNotes, [isUsingOfflineLibrary, toOfflineNotes, availablePodcastNotes, podcastNotes]);
+  const offlineVideoNotes = useMemo(() => isUsingOfflineLibrary ? toOfflineNotes(availableVideoNotes) : videoNotes, [isUsingOfflineLibrary, toOfflineNotes, availableVideoNotes, videoNotes]);
+
+  return {
+    isOffline,
+    isUsingOfflineLibrary,
+    offlineItemCount: cachedUrls.size,
+    imageNotes: offlineImageNotes,
+    podcastNotes: offlinePodcastNotes,
+    videoNotes: offlineVideoNotes,
+    setPlaybackPositions,
+  };
+};
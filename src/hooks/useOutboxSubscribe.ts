@@ -0,0 +1,103 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNDK } from '@nostr-dev-kit/ndk-hooks';
+import { NDKEvent, NDKFilter, NDKRelaySet, NDKSubscription } from '@nostr-dev-kit/ndk';
+import { getRelayLists, loadOutboxSettings, planOutboxRelays } from '../utils/outbox';
+import { getReadRelayUrls } from '../utils/relayConfig';
+
+const EOSE_TIMEOUT = 10000; // Unreachable outbox relays shouldn't keep the loading state forever
+const FLUSH_INTERVAL = 300; // Batch incoming events to avoid a re-render per event
+
+interface UseOutboxSubscribeReturn {
+  events: NDKEvent[];
+  eose: boolean;
+}
+
+// Like useSubscribe, but filters with `authors` are split per relay following NIP-65:
+// each author is requested from their own write relays (authors without a relay list use the configured read relays).
+export const useOutboxSubscribe = (filters: NDKFilter[] | null): UseOutboxSubscribeReturn => {
+  const { ndk } = useNDK();
+  const [events, setEvents] = useState<NDKEvent[]>([]);
+  const [eose, setEose] = useState<boolean>(false);
+
+  // Filters are rebuilt on every render upstream; only resubscribe when their content changes
+  const filtersKey = useMemo(() => JSON.stringify(filters ?? []), [filters]);
+
+  useEffect(() => {
+    const activeFilters: NDKFilter[] = JSON.parse(filtersKey);
+    setEvents([]);
+    setEose(false);
+    if (!ndk || activeFilters.length === 0) return;
+
+    let isCancelled = false;
+    const subscriptions: NDKSubscription[] = [];
+    const received = new Map<string, NDKEvent>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let eoseTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleFlush = () => {
+      if (flushTimer) return;
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        if (!isCancelled) setEvents(Array.from(received.values()));
+      }, FLUSH_INTERVAL);
+    };
+
+    const start = async () => {
+      const authors = Array.from(new Set(activeFilters.flatMap(filter => filter.authors ?? [])));
+      const [settings, relayLists] = await Promise.all([loadOutboxSettings(), getRelayLists(ndk, authors)]);
+      if (isCancelled) return;
+
+      const plan = planOutboxRelays(authors, relayLists, settings);
+      console.log(`useOutboxSubscribe: ${authors.length} authors over ${plan.groups.length} outbox relays, ${plan.fallbackAuthors.length} on default relays.`);
+
+      // [relay urls, authors] per subscription; the fallback group uses the configured read relays
+      const targets: Array<[string[], string[]]> = plan.groups.map(group => [[group.relayUrl], group.authors]);
+      if (plan.fallbackAuthors.length > 0) targets.push([getReadRelayUrls(), plan.fallbackAuthors]);
+
+      let pendingEose = targets.length;
+      const markEose = () => {
+        pendingEose--;
+        if (pendingEose <= 0 && !isCancelled) setEose(true);
+      };
+
+      targets.forEach(([relayUrls, groupAuthors]) => {
+        const authorSet = new Set(groupAuthors);
+        // Narrow each author filter to this group's authors; drop filters with none left
+        const groupFilters = activeFilters
+          .map(filter => ({ ...filter, authors: (filter.authors ?? []).filter(pk => authorSet.has(pk)) }))
+          .filter(filter => filter.authors.length > 0);
+        if (groupFilters.length === 0) {
+          markEose();
+          return;
+        }
+        const relaySet = NDKRelaySet.fromRelayUrls(relayUrls, ndk);
+        const subscription = ndk.subscribe(groupFilters, { closeOnEose: false }, relaySet);
+        subscription.on('event', (event: NDKEvent) => {
+          if (received.has(event.id)) return;
+          received.set(event.id, event);
+          scheduleFlush();
+        });
+        subscription.once('eose', markEose);
+        subscriptions.push(subscription);
+      });
+
+      eoseTimer = setTimeout(() => {
+        if (!isCancelled) setEose(true);
+      }, EOSE_TIMEOUT);
+    };
+
+    start().catch(error => {
+      console.error('useOutboxSubscribe: Failed to start outbox subscriptions:', error);
+      if (!isCancelled) setEose(true);
+    });
+
+    return () => {
+      isCancelled = true;
+      subscriptions.forEach(subscription => subscription.stop());
+      if (flushTimer) clearTimeout(flushTimer);
+      if (eoseTimer) clearTimeout(eoseTimer);
+    };
+  }, [ndk, filtersKey]);
+
+  return { events, eose };
+};
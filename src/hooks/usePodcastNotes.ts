@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNdk } from 'nostr-hooks';
 import { NDKEvent, NDKFilter, NDKKind, NDKSubscription } from '@nostr-dev-kit/ndk';
+import { eventStore } from '../utils/eventStore';
 
 // --- Interfaces & Types ---
 interface PodcastNote {
@@ -14,53 +15,17 @@ interface PodcastNote {
 }
 
 // --- Constants ---
-const PODCAST_NOTE_DB_NAME = 'PodcastNoteCache';
-const PODCAST_NOTE_DB_VERSION = 1;
-const PODCAST_NOTE_STORE_NAME = 'podcastNotes';
 const podcastUrlRegex = /https?:\/\S+\.(?:mp3|m4a|wav)/gi;
 const MAX_NOTES_TO_STORE = 50;
 
-// --- IndexedDB Helper Functions ---
-async function openPodcastNoteDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open(PODCAST_NOTE_DB_NAME, PODCAST_NOTE_DB_VERSION);
-        request.onerror = (event) => reject((event.target as IDBOpenDBRequest).error);
-        request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
-        request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
-             if (!db.objectStoreNames.contains(PODCAST_NOTE_STORE_NAME)) {
-                db.createObjectStore(PODCAST_NOTE_STORE_NAME, { keyPath: 'id' });
-            }
-        };
-    });
-}
-
-async function savePodcastNotesToCache(notes: PodcastNote[]): Promise<void> {
-    if (notes.length === 0) return;
-    const db = await openPodcastNoteDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([PODCAST_NOTE_STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(PODCAST_NOTE_STORE_NAME);
-        notes.forEach(note => store.put(note)); // put will overwrite existing notes with the same id if needed
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
-    });
-}
-
+// --- Event Store Helpers ---
+// Podcast notes are derived from raw events kept in the shared event store
 async function getPodcastNotesFromCache(): Promise<PodcastNote[]> {
-    const db = await openPodcastNoteDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([PODCAST_NOTE_STORE_NAME], 'readonly');
-        const store = transaction.objectStore(PODCAST_NOTE_STORE_NAME);
-        const request = store.getAll();
-        request.onsuccess = () => {
-            const notes = request.result || [];
-            // Sort descending by createdAt and limit
-            notes.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
-            resolve(notes.slice(0, MAX_NOTES_TO_STORE));
-        };
-        request.onerror = () => reject(request.error);
-    });
+    const cachedEvents = await eventStore.queryEvents({ kinds: [NDKKind.Text], limit: MAX_NOTES_TO_STORE * 4 });
+    const notes = processEventsIntoPodcastNotes(cachedEvents.map(rawEvent => new NDKEvent(undefined, rawEvent)), new Map());
+    // Sort descending by createdAt and limit
+    notes.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+    return notes.slice(0, MAX_NOTES_TO_STORE);
 }
 
 // --- Utility Functions ---
@@ -168,6 +133,8 @@ export function usePodcastNotes(authors: string[]): UsePodcastNotesResult {
         const newFoundNotes = processEventsIntoPodcastNotes([event], notesById.current);
         if (newFoundNotes.length > 0) {
           console.log(`usePodcastNotes: Processing ${newFoundNotes.length} new notes from subscription.`);
+          // Persist the source event to the shared event store (fire and forget)
+          eventStore.saveEvents([event.rawEvent()]).catch(err => console.error('usePodcastNotes: Failed to save event to store:', err));
           // Add new notes and re-sort/limit
           setNotes(prevNotes => {
             const combined = [...newFoundNotes, ...prevNotes];
@@ -175,8 +142,6 @@ export function usePodcastNotes(authors: string[]): UsePodcastNotesResult {
             const limited = combined.slice(0, MAX_NOTES_TO_STORE);
             // Update the map as well for future duplicate checks
             limited.forEach(n => notesById.current.set(n.id, n));
-            // Persist new notes to cache (fire and forget)
-            savePodcastNotesToCache(newFoundNotes).catch(err => console.error('usePodcastNotes: Failed to save new notes to cache:', err));
             return limited;
           });
         }
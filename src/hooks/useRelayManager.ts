@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import NDK from '@nostr-dev-kit/ndk';
+import {
+  DEFAULT_RELAY_CONFIGS,
+  RelayConfig,
+  RelayInfo,
+  loadRelayConfigs,
+  saveRelayConfigs,
+  applyRelayConfigs,
+  parseRelayInput,
+  fetchRelayInfo,
+} from '../utils/relayConfig';
+import { RelayHealth, getRelayHealth } from '../utils/relayHealth';
+
+const DEFAULT_HEALTH_REFRESH_INTERVAL = 2000; // Live view while Settings is open
+
+interface UseRelayManagerProps {
+  ndk: NDK | undefined;
+  isActive: boolean;          // Poll health and fetch NIP-11 info only while the manager is visible
+  healthRefreshInterval?: number;
+}
+
+interface UseRelayManagerReturn {
+  relays: RelayConfig[];
+  relayInfo: Record<string, RelayInfo | null>;
+  relayHealth: Record<string, RelayHealth>;
+  relayError: string | null;
+  addRelay: (input: string) => Promise<boolean>;
+  removeRelay: (url: string) => Promise<void>;
+  updateRelay: (url: string, changes: Partial<Omit<RelayConfig, 'url'>>) => Promise<void>;
+}
+
+export const useRelayManager = ({
+  ndk,
+  isActive,
+  healthRefreshInterval = DEFAULT_HEALTH_REFRESH_INTERVAL,
+}: UseRelayManagerProps): UseRelayManagerReturn => {
+  const [relays, setRelays] = useState<RelayConfig[]>(DEFAULT_RELAY_CONFIGS);
+  const [relayInfo, setRelayInfo] = useState<Record<string, RelayInfo | null>>({});
+  const [relayHealth, setRelayHealth] = useState<Record<string, RelayHealth>>({});
+  const [relayError, setRelayError] = useState<string | null>(null);
+
+  // Reload the saved list each time the manager is shown
+  useEffect(() => {
+    if (!isActive) return;
+    let isMounted = true;
+    setRelayError(null);
+    loadRelayConfigs().then(saved => {
+      if (isMounted) setRelays(saved);
+    });
+    return () => { isMounted = false; };
+  }, [isActive]);
+
+  // NIP-11 documents for relays we haven't looked up yet
+  useEffect(() => {
+    if (!isActive) return;
+    let isMounted = true;
+    relays.filter(relay => !(relay.url in relayInfo)).forEach(relay => {
+      fetchRelayInfo(relay.url).then(info => {
+        if (isMounted) setRelayInfo(prev => ({ ...prev, [relay.url]: info }));
+      });
+    });
+    return () => { isMounted = false; };
+  }, [isActive, relays, relayInfo]);
+
+  // Poll the pool for live state
+  useEffect(() => {
+    if (!isActive || !ndk) return;
+    const refresh = () => {
+      setRelayHealth(Object.fromEntries(relays.map(relay => [relay.url, getRelayHealth(ndk, relay.url)])));
+    };
+    refresh();
+    const intervalId = setInterval(refresh, healthRefreshInterval);
+    return () => clearInterval(intervalId);
+  }, [isActive, ndk, relays, healthRefreshInterval]);
+
+  const commit = useCallback(async (next: RelayConfig[]) => {
+    setRelays(next);
+    setRelayError(null);
+    if (ndk) applyRelayConfigs(ndk, next);
+    try {
+      await saveRelayConfigs(next);
+    } catch (error) {
+      console.error('useRelayManager: Failed to save relay list:', error);
+      setRelayError('Failed to save relay list.');
+    }
+  }, [ndk]);
+
+  const addRelay = useCallback(async (input: string): Promise<boolean> => {
+    const url = parseRelayInput(input);
+    if (!url) {
+      setRelayError('Relay must be a wss:// URL.');
+      return false;
+    }
+    if (relays.some(relay => relay.url === url)) {
+      setRelayError('Relay is already in the list.');
+      return false;
+    }
+    await commit([...relays, { url, read: true, write: true, enabled: true }]);
+    return true;
+  }, [relays, commit]);
+
+  const removeRelay = useCallback(async (url: string) => {
+    // An empty saved list means "use the defaults", so keep at least one entry (it can be disabled)
+    if (relays.length <= 1) {
+      setRelayError('Keep at least one relay in the list.');
+      return;
+    }
+    await commit(relays.filter(relay => relay.url !== url));
+  }, [relays, commit]);
+
+  const updateRelay = useCallback(
+    (url: string, changes: Partial<Omit<RelayConfig, 'url'>>) =>
+      commit(relays.map(relay => (relay.url === url ? { ...relay, ...changes } : relay))),
+    [relays, commit]
+  );
+
+  return {
+    relays,
+    relayInfo,
+    relayHealth,
+    relayError,
+    addRelay,
+    removeRelay,
+    updateRelay,
+  };
+};
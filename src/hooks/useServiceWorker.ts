@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { registerServiceWorker, activateWaitingWorker } from '../utils/serviceWorker';
+
+const DEFAULT_UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // Kiosks run for days; check for a new build hourly
+const DEFAULT_IDLE_DELAY = 10000; // Playback must stay idle this long before we reload onto a new version
+
+interface UseServiceWorkerProps {
+  isPlaybackIdle: boolean;
+  updateCheckInterval?: number;
+  idleDelay?: number;
+}
+
+interface UseServiceWorkerReturn {
+  isUpdateWaiting: boolean;
+}
+
+export const useServiceWorker = ({
+  isPlaybackIdle,
+  updateCheckInterval = DEFAULT_UPDATE_CHECK_INTERVAL,
+  idleDelay = DEFAULT_IDLE_DELAY,
+}: UseServiceWorkerProps): UseServiceWorkerReturn => {
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [waitingRegistration, setWaitingRegistration] = useState<ServiceWorkerRegistration | null>(null);
+
+  // Register once
+  useEffect(() => {
+    let isMounted = true;
+    registerServiceWorker(reg => {
+      if (isMounted) setWaitingRegistration(reg);
+    }).then(reg => {
+      if (isMounted) setRegistration(reg);
+    });
+    return () => { isMounted = false; };
+  }, []);
+
+  // Periodically look for a new deployment
+  useEffect(() => {
+    if (!registration) return;
+    const intervalId = setInterval(() => {
+      registration.update().catch(error => console.warn('useServiceWorker: Update check failed:', error));
+    }, updateCheckInterval);
+    return () => clearInterval(intervalId);
+  }, [registration, updateCheckInterval]);
+
+  // Activate the waiting version only after playback has been idle for a while
+  useEffect(() => {
+    if (!waitingRegistration || !isPlaybackIdle) return;
+    const timeoutId = setTimeout(() => {
+      console.log('useServiceWorker: Playback idle, activating new version.');
+      activateWaitingWorker(waitingRegistration);
+    }, idleDelay);
+    return () => clearTimeout(timeoutId);
+  }, [waitingRegistration, isPlaybackIdle, idleDelay]);
+
+  return { isUpdateWaiting: !!waitingRegistration };
+};
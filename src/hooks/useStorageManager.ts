@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DEFAULT_RETENTION_POLICY,
+  RetentionPolicy,
+  StorageUsage,
+  PruneResult,
+  loadRetentionPolicy,
+  saveRetentionPolicy,
+  getStorageUsage,
+  pruneEventStore,
+  purgeEventStore,
+} from '../utils/storageManager';
+import { clearOfflineMedia } from '../utils/offlineMediaStore';
+
+const DEFAULT_PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+interface UseStorageManagerProps {
+  autoPrune?: boolean;       // Run the retention policy on mount and then periodically
+  pruneInterval?: number;
+}
+
+interface UseStorageManagerReturn {
+  policy: RetentionPolicy;
+  storageUsage: StorageUsage | null;
+  isBusy: boolean;
+  lastPruneResult: PruneResult | null;
+  storageError: string | null;
+  updatePolicy: (changes: Partial<RetentionPolicy>) => Promise<void>;
+  refreshUsage: () => Promise<void>;
+  pruneNow: () => Promise<void>;
+  purgeAll: () => Promise<void>;
+}
+
+export const useStorageManager = ({
+  autoPrune = false,
+  pruneInterval = DEFAULT_PRUNE_INTERVAL,
+}: UseStorageManagerProps = {}): UseStorageManagerReturn => {
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [lastPruneResult, setLastPruneResult] = useState<PruneResult | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      setStorageUsage(await getStorageUsage());
+    } catch (error) {
+      console.error('useStorageManager: Failed to read storage usage:', error);
+      setStorageError('Could not read storage usage.');
+    }
+  }, []);
+
+  // Load the saved policy and initial usage
+  useEffect(() => {
+    let isMounted = true;
+    loadRetentionPolicy().then(saved => {
+      if (isMounted) setPolicy(saved);
+    });
+    refreshUsage();
+    return () => { isMounted = false; };
+  }, [refreshUsage]);
+
+  const runPrune = useCallback(async (activePolicy: RetentionPolicy) => {
+    setIsBusy(true);
+    setStorageError(null);
+    try {
+      const result = await pruneEventStore(activePolicy);
+      setLastPruneResult(result);
+      await refreshUsage();
+    } catch (error) {
+      console.error('useStorageManager: Prune failed:', error);
+      setStorageError('Failed to prune cached media.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshUsage]);
+
+  // Scheduled pruning (always reads the latest saved policy, so settings changes apply)
+  useEffect(() => {
+    if (!autoPrune) return;
+    const prune = async () => runPrune(await loadRetentionPolicy());
+    prune();
+    const intervalId = setInterval(prune, pruneInterval);
+    return () => clearInterval(intervalId);
+  }, [autoPrune, pruneInterval, runPrune]);
+
+  const updatePolicy = useCallback(async (changes: Partial<RetentionPolicy>) => {
+    const next = { ...policy, ...changes };
+    setPolicy(next);
+    try {
+      await saveRetentionPolicy(next);
+    } catch (error) {
+      console.error('useStorageManager: Failed to save retention policy:', error);
+      setStorageError('Failed to save storage settings.');
+    }
+  }, [policy]);
+
+  const pruneNow = useCallback(() => runPrune(policy), [runPrune, policy]);
+
+  const purgeAll = useCallback(async () => {
+    setIsBusy(true);
+    setStorageError(null);
+    try {
+      await Promise.all([purgeEventStore(), clearOfflineMedia()]);
+      setLastPruneResult(null);
+      await refreshUsage();
+    } catch (error) {
+      console.error('useStorageManager: Purge failed:', error);
+      setStorageError('Failed to clear cached media.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshUsage]);
+
+  return {
+    policy,
+    storageUsage,
+    isBusy,
+    lastPruneResult,
+    storageError,
+    updatePolicy,
+    refreshUsage,
+    pruneNow,
+    purgeAll,
+  };
+};
@@ -1,27 +1,132 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Proof } from '@cashu/cashu-ts';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { MeltQuoteResponse, MintQuoteState, Proof, getDecodedToken } from '@cashu/cashu-ts';
 import { idb } from '../utils/idb'; // Use the consolidated idb export
 import { cashuHelper } from '../utils/cashu';
+import { getNutzapInfo, publishNutzap } from '../utils/nutzap';
+import {
+    MintInfo,
+    fetchMintInfo,
+    getMintBalance,
+    getMintBalances,
+    isSameMint,
+    isTrustedMint,
+    loadTrustedMints,
+    normalizeMintUrl,
+    pickMintForAmount,
+    saveTrustedMints,
+} from '../utils/mints';
+import { restoreWalletFromRelays, syncWalletToRelays } from '../utils/nip60';
+import { TipShare, computeTipShares, loadTipSplitSettings } from '../utils/tipSplits';
+import { recordWalletHistory, toNpub } from '../utils/walletHistory';
+import { replaceWalletMnemonic } from '../utils/cashuSeed';
+import { beginSend, finishSend, markCountersReserved, markPublished, markTokenCreated, recoverSend, recoverSendJournalOnce, releaseSend } from '../utils/sendJournal';
+import { extractCashuTokens, getTokenKey, isTokenHandled, loadDepositSettings, markTokenHandled } from '../utils/cashuTokens';
+import { StoredPaymentRequest, createPaymentRequest as buildPaymentRequest, loadPaymentRequest, parsePaymentPayload, paymentPayloadToToken, savePaymentRequest } from '../utils/paymentRequests';
+import { RECONCILE_INTERVAL_MS, ReconcileResult, isProofPending, reconcileStoredProofs } from '../utils/proofReconciler';
+import { getInvoiceAmountSats, isBolt11Invoice, isLightningAddress, normalizeLightningDestination, resolveLightningAddress } from '../utils/lightning';
+import { GIFT_WRAP_KIND, GIFT_WRAP_MAX_BACKDATE_SECONDS, LEGACY_DM_KIND, readPrivateMessage, sendPrivateMessage } from '../utils/privateMessages';
 import { UseAuthReturn } from './useAuth';
 import NDK, { NDKEvent, NDKFilter, NDKSubscription, NDKUser, NostrEvent } from '@nostr-dev-kit/ndk';
 import { nip19 } from 'nostr-tools';
+import { useNDK } from '@nostr-dev-kit/ndk-hooks';
 
 // Type alias for clarity within this file
 type StoredProof = Proof & { mintUrl: string };
 
 // Define the shape of the wallet state and functions
 export interface UseWalletReturn {
-    proofs: StoredProof[]; // Use the alias
+    proofs: StoredProof[]; // Use the alias. Spendable only: proofs pending at their mint are left out
     balanceSats: number;
+    pendingSats: number;   // Held in proofs the mint reports as pending, not included in balanceSats
     isListeningForDeposits: boolean;
     walletError: string | null;
     isLoadingWallet: boolean;
-    configuredMintUrl: string | null;
+    configuredMintUrl: string | null; // Top priority trusted mint
+    trustedMints: string[];            // Ordered by spending priority
+    mintBalances: Record<string, number>; // Sats per mint URL (as stored on the proofs)
+    mintInfo: Record<string, MintInfo | null>; // NUT-06 info per trusted mint
+    pendingDeposits: PendingDeposit[]; // Deposits from untrusted mints waiting for the user's decision
     loadWalletState: () => Promise<void>;
     startDepositListener: (auth: UseAuthReturn, ndk: NDK) => void;
     stopDepositListener: () => void;
     sendCashuTipWithSplits: (params: SendTipParams) => Promise<boolean>; // Returns true on success
-    setConfiguredMintUrl: (url: string | null) => Promise<void>;
+    setConfiguredMintUrl: (url: string | null) => Promise<void>; // Makes the mint the top priority
+    addMint: (url: string) => Promise<boolean>;
+    removeMint: (url: string) => Promise<void>;
+    moveMint: (url: string, direction: -1 | 1) => Promise<void>;
+    acceptPendingDeposit: (token: string, trustMint: boolean) => Promise<void>;
+    rejectPendingDeposit: (token: string) => void;
+    lightningDeposit: LightningDeposit | null; // Open NUT-04 mint quote, polled until paid
+    requestLightningDeposit: (amountSats: number) => Promise<boolean>;
+    cancelLightningDeposit: () => void;
+    lightningPayment: LightningPaymentQuote | null; // Quoted withdrawal waiting for confirmation
+    prepareLightningPayment: (destination: string, amountSats?: number) => Promise<boolean>;
+    confirmLightningPayment: () => Promise<LightningPaymentResult | null>;
+    cancelLightningPayment: () => void;
+    restoreFromSeed: (mnemonic?: string) => Promise<number | null>; // Sats recovered, null on failure
+    reconcileProofs: () => Promise<ReconcileResult | null>; // Checks the stored proofs with their mints now
+    paymentRequest: StoredPaymentRequest | null; // NUT-18 tip jar request, paid over NIP-17 DMs
+    lastRequestPayment: RequestPayment | null;   // Latest payment to it seen by this instance, for the banner
+    createPaymentRequest: (params: CreatePaymentRequestParams) => Promise<boolean>;
+    clearPaymentRequest: () => Promise<void>;
+}
+
+export interface LightningDeposit {
+    quoteId: string;
+    request: string; // bolt11 invoice to show as a QR code
+    amount: number;
+    mintUrl: string;
+    expiry: number;  // Unix seconds
+    state: 'UNPAID' | 'MINTING' | 'ISSUED' | 'EXPIRED';
+}
+
+export interface LightningPaymentQuote {
+    destination: string; // What the user entered (invoice or lightning address)
+    invoice: string;
+    mintUrl: string;
+    quote: MeltQuoteResponse; // amount + fee_reserve
+}
+
+export interface LightningPaymentResult {
+    amount: number;
+    feePaid: number;
+    preimage: string | null;
+}
+
+export interface PendingDeposit {
+    token: string;
+    mintUrl: string;
+    amount: number;
+    senderPubkey: string;
+    eventId: string; // DM that carried the token
+    receivedAt: number;
+}
+
+// Where a deposit token came from, for the history
+interface DepositSource {
+    senderPubkey: string;
+    eventId: string;
+    paymentRequestId?: string; // Set when it came as a NUT-18 payload
+}
+
+export interface RequestPayment {
+    amount: number;
+    receivedAt: number; // ms
+}
+
+export interface CreatePaymentRequestParams {
+    auth: UseAuthReturn;
+    ndk: NDK;
+    amount?: number; // Open amount if not set
+    description?: string;
+}
+
+// Outcome of one tip share. `mintUrl` and `eventId` are set once known (for the history).
+interface TipShareResult {
+    proofs: StoredProof[];
+    error?: string;
+    mintUrl?: string;
+    eventId?: string;
 }
 
 export interface SendTipParams {
@@ -31,22 +136,157 @@ export interface SendTipParams {
     ndk: NDK;
     // Optional fields for future use
     eventIdToZap?: string; // For potential Zap receipt
+    eventKindToZap?: number; // 'k' tag on nutzaps
     comment?: string; // DM comment
-    // zapsplitsConfig?: any; // For future complex splits
+    zapSplitTags?: string[][]; // Tags of the tipped note; NIP-57 'zap' tags split the tip between their pubkeys
+}
+
+const NIP60_SYNC_DELAY_MS = 3000; // Batch quick successive proof changes into one relay update
+const LIGHTNING_DEPOSIT_POLL_MS = 3000;
+const RECONCILE_FIRST_DELAY_MS = 20000; // Let startup (journal recovery, NIP-60 restore) settle first
+
+// Stores the result of a mint operation for one mint: proofs that are gone are deleted and new ones
+// saved (idb.saveProofs appends, so proofs already stored must not be saved again)
+async function replaceMintProofs(mintUrl: string, previous: StoredProof[], next: Proof[]): Promise<StoredProof[]> {
+    const nextSecrets = new Set(next.map(p => p.secret));
+    const previousSecrets = new Set(previous.map(p => p.secret));
+    await idb.deleteProofsBySecret(previous.filter(p => !nextSecrets.has(p.secret)).map(p => p.secret));
+    const nextProofs: StoredProof[] = next.map(p => ({ ...p, mintUrl }));
+    await idb.saveProofs(nextProofs.filter(p => !previousSecrets.has(p.secret)));
+    return nextProofs;
 }
 
 const DEFAULT_MINT_URL = 'https://8333.space:3338'; // Example - Confirm this!
 
+// Sends one share of a tip: as a nutzap when the recipient publishes nutzap info (from a mint they
+// accept), otherwise as a token in a private message. Storage is updated as the proofs change, and the
+// returned list is the wallet after this share. If the DM can't be published, the token's proofs are
+// put back in the wallet. Nutzap proofs are locked to the recipient once created, so those can't be:
+// a nutzap that fails to publish stays in the send journal, which publishes it on the next start.
+// Every step is written to the send journal first, so a crash mid-way is settled on the next start.
+async function sendTipShare(
+    share: TipShare,
+    walletProofs: StoredProof[],
+    trustedMints: string[],
+    params: SendTipParams,
+    isSplit: boolean
+): Promise<TipShareResult> {
+    const { ndk, auth } = params;
+    const balances = getMintBalances(walletProofs);
+    const withoutMint = (mintUrl: string) => walletProofs.filter(p => p.mintUrl !== mintUrl);
+
+    const info = await getNutzapInfo(ndk, share.pubkey);
+    if (info) {
+        // Proofs from a mint the recipient doesn't trust might never be redeemable by them
+        if (!trustedMints.some(mint => isTrustedMint(info.mints, mint))) {
+            return { proofs: walletProofs, error: 'Recipient accepts nutzaps from none of your mints' };
+        }
+        const mintUrl = pickMintForAmount(trustedMints, balances, share.amount, info.mints);
+        if (!mintUrl) return { proofs: walletProofs, error: 'No mint accepted by the recipient holds enough' };
+        const failed = (error: unknown): TipShareResult => ({ proofs: walletProofs, mintUrl, error: error instanceof Error ? error.message : String(error) });
+        const proofsForMint = walletProofs.filter(p => p.mintUrl === mintUrl);
+        const nutzapDetails = { comment: params.comment, eventId: params.eventIdToZap, eventKind: params.eventKindToZap };
+        let entry = await beginSend('nutzap', mintUrl, share.amount, share.pubkey, proofsForMint, nutzapDetails);
+        let lockedProofs: Proof[];
+        try {
+            const locked = await cashuHelper.createLockedProofs(share.amount, proofsForMint, mintUrl, info.p2pkPubkey, async range => {
+                entry = await markCountersReserved(entry, range);
+            });
+            lockedProofs = locked.lockedProofs;
+            entry = await markTokenCreated(entry, lockedProofs, locked.remainingProofs);
+            const keptProofs = await replaceMintProofs(mintUrl, proofsForMint, locked.remainingProofs);
+            walletProofs = [...withoutMint(mintUrl), ...keptProofs];
+        } catch (error) {
+            // Ask the mint whether the swap happened before trusting the proofs again
+            await recoverSend(entry);
+            return failed(error);
+        }
+        let event: NDKEvent;
+        try {
+            event = await publishNutzap(ndk, info, { recipientPubkey: share.pubkey, mintUrl, proofs: lockedProofs, ...nutzapDetails });
+        } catch (error) {
+            // The entry stays at 'token-created', so the journal publishes the locked proofs on the next start
+            console.error(`useWallet: Nutzap publish failed; send ${entry.id} will be retried on the next start:`, error);
+            releaseSend(entry);
+            return failed(error);
+        }
+        await markPublished(entry);
+        await finishSend(entry);
+        return { proofs: walletProofs, mintUrl, eventId: event.id };
+    }
+
+    // A token comes from a single mint: use the first trusted one that can cover the whole share
+    const mintUrl = pickMintForAmount(trustedMints, balances, share.amount);
+    if (!mintUrl) return { proofs: walletProofs, error: `No single trusted mint holds ${share.amount} sats` };
+    const proofsForMint = walletProofs.filter(p => p.mintUrl === mintUrl);
+    let entry = await beginSend('token', mintUrl, share.amount, share.pubkey, proofsForMint);
+    let tokenProofs: StoredProof[];
+    let cashuToken: string;
+    try {
+        const created = await cashuHelper.createTokenForAmount(share.amount, proofsForMint, mintUrl, async range => {
+            entry = await markCountersReserved(entry, range);
+        });
+        cashuToken = created.token;
+        tokenProofs = getDecodedToken(created.token).proofs.map(p => ({ ...p, mintUrl }));
+        entry = await markTokenCreated(entry, tokenProofs, created.remainingProofs, cashuToken);
+        // The inputs are gone after the swap: store the change now
+        const keptProofs = await replaceMintProofs(mintUrl, proofsForMint, created.remainingProofs);
+        walletProofs = [...withoutMint(mintUrl), ...keptProofs];
+    } catch (error) {
+        await recoverSend(entry);
+        return { proofs: walletProofs, mintUrl, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+        const dmContent = isSplit
+            ? `Here is your ${share.amount} sat share of a ${params.amountSats} sat tip!\n\n${cashuToken}\n\nSent from Madstr.tv`
+            : `Here is your ${share.amount} sat tip!\n\n${cashuToken}\n\nSent from Madstr.tv`;
+        // Optional: Add tags related to the original event being tipped (for Zap Receipts later)
+        const extraTags = params.eventIdToZap ? [['e', params.eventIdToZap]] : [];
+        const { protocol, eventId } = await sendPrivateMessage(ndk, auth, share.pubkey, dmContent, extraTags);
+        console.log(`Tip DM of ${share.amount} sats published successfully via ${protocol}.`);
+        await markPublished(entry);
+        return { proofs: walletProofs, mintUrl, eventId };
+    } catch (error) {
+        // Nobody else has seen the token, so its proofs are still ours
+        await idb.saveProofs(tokenProofs);
+        return { proofs: [...walletProofs, ...tokenProofs], mintUrl, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+        await finishSend(entry);
+    }
+}
+
 export const useWallet = (): UseWalletReturn => {
     const [proofs, setProofs] = useState<StoredProof[]>([]); // Use alias
     const [balanceSats, setBalanceSats] = useState<number>(0);
-    const [configuredMintUrl, _setConfiguredMintUrl] = useState<string | null>(null);
+    const [pendingProofs, setPendingProofs] = useState<StoredProof[]>([]);
+    const [trustedMints, setTrustedMints] = useState<string[]>([]);
+    const [mintInfo, setMintInfo] = useState<Record<string, MintInfo | null>>({});
+    const [pendingDeposits, setPendingDeposits] = useState<PendingDeposit[]>([]);
+    const [lightningDeposit, setLightningDeposit] = useState<LightningDeposit | null>(null);
+    const [lightningPayment, setLightningPayment] = useState<LightningPaymentQuote | null>(null);
+    const [paymentRequest, setPaymentRequest] = useState<StoredPaymentRequest | null>(null);
+    const [lastRequestPayment, setLastRequestPayment] = useState<RequestPayment | null>(null);
     const [isLoadingWallet, setIsLoadingWallet] = useState<boolean>(true);
     const [isListeningForDeposits, setIsListeningForDeposits] = useState<boolean>(false);
     const [walletError, setWalletError] = useState<string | null>(null);
 
     const depositSubRef = useRef<NDKSubscription | null>(null);
+    const depositContextRef = useRef<{ auth: UseAuthReturn; ndk: NDK } | null>(null); // For receipt DMs, while listening
+    const depositKeysInFlightRef = useRef<Set<string>>(new Set()); // Tokens being handled right now
     const isMountedRef = useRef(true); // Track component mount status
+    const { ndk: contextNdk } = useNDK(); // For NIP-60 sync; tipping and deposits still take ndk via params
+    const [nip60SyncPubkey, setNip60SyncPubkey] = useState<string | null>(null); // Set once relays have been read
+    // The deposit listener outlives renders; it reads the current trusted list through this ref
+    const trustedMintsRef = useRef<string[]>([]);
+    trustedMintsRef.current = trustedMints;
+    // Journal recovery publishes unfinished nutzaps; read through a ref so loadWalletState stays stable
+    const contextNdkRef = useRef(contextNdk);
+    contextNdkRef.current = contextNdk;
+
+    const configuredMintUrl = trustedMints[0] ?? null;
+    const mintBalances = useMemo(() => getMintBalances(proofs), [proofs]);
+    const pendingSats = useMemo(() => cashuHelper.getProofsBalance(pendingProofs), [pendingProofs]);
 
     // --- Core State Management ---
 
@@ -55,19 +295,26 @@ export const useWallet = (): UseWalletReturn => {
         setIsLoadingWallet(true);
         setWalletError(null);
         try {
+            // Settle sends a previous session didn't finish before reading the proofs they touch (first load only)
+            await recoverSendJournalOnce(contextNdkRef.current);
+
             // The return type of idb.getAllProofs() is now Promise<StoredProof[]>, so no flattening is needed.
             const allProofs: StoredProof[] = await idb.getAllProofs(); 
+            // Proofs the mint last reported as pending can't be spent until it settles them
+            const spendableProofs = allProofs.filter(p => !isProofPending(p));
 
-            const currentBalance = cashuHelper.getProofsBalance(allProofs);
-            // Assumes idb.loadMintUrlFromDb() returns Promise<string | null>
-            const savedMintUrl = await idb.loadMintUrlFromDb();
+            const currentBalance = cashuHelper.getProofsBalance(spendableProofs);
+            const savedTrustedMints = await loadTrustedMints(DEFAULT_MINT_URL);
+            const savedPaymentRequest = await loadPaymentRequest();
 
-            console.log('useWallet: DIAGNOSTIC - Loaded proofs:', allProofs.length, 'Balance:', currentBalance, 'Mint URL:', savedMintUrl); // <-- DIAGNOSTIC LOG
+            console.log('useWallet: DIAGNOSTIC - Loaded proofs:', allProofs.length, 'Balance:', currentBalance, 'Trusted mints:', savedTrustedMints); // <-- DIAGNOSTIC LOG
 
             if (isMountedRef.current) {
-                setProofs(allProofs);
+                setProofs(spendableProofs);
+                setPendingProofs(allProofs.filter(isProofPending));
                 setBalanceSats(currentBalance);
-                _setConfiguredMintUrl(savedMintUrl ?? DEFAULT_MINT_URL);
+                setTrustedMints(savedTrustedMints);
+                setPaymentRequest(savedPaymentRequest);
             }
         } catch (error) {
             console.error('Error loading wallet state:', error);
@@ -81,23 +328,193 @@ export const useWallet = (): UseWalletReturn => {
         }
     }, []);
 
-    const setConfiguredMintUrl = useCallback(async (url: string | null) => {
+    // --- Mint Management ---
+
+    const updateTrustedMints = useCallback(async (mints: string[]) => {
         setWalletError(null);
-        const urlToSave = url && url.trim() !== '' ? url.trim() : null;
         try {
-            // Assumes idb.saveMintUrlToDb(url: string | null) returns Promise<void>
-            await idb.saveMintUrlToDb(urlToSave); 
-            _setConfiguredMintUrl(urlToSave); // Update state
-             if (urlToSave) {
-                 console.log('Saved Mint URL:', urlToSave);
-             } else {
-                 console.log('Cleared Mint URL setting.');
-             }
+            await saveTrustedMints(mints);
+            if (isMountedRef.current) setTrustedMints(mints);
         } catch (error) {
-            console.error('Error saving mint URL:', error);
+            console.error('Error saving trusted mints:', error);
             const message = error instanceof Error ? error.message : String(error);
-            setWalletError(`Failed to save mint URL: ${message}`);
+            setWalletError(`Failed to save mints: ${message}`);
+        }
+    }, []);
+
+    const setConfiguredMintUrl = useCallback(async (url: string | null) => {
+        const urlToSave = url && url.trim() !== '' ? normalizeMintUrl(url) : null;
+        if (!urlToSave) return; // The wallet always keeps at least one mint
+        console.log('Setting primary mint:', urlToSave);
+        await updateTrustedMints([urlToSave, ...trustedMints.filter(mint => !isSameMint(mint, urlToSave))]);
+    }, [trustedMints, updateTrustedMints]);
+
+    const addMint = useCallback(async (url: string): Promise<boolean> => {
+        const mintUrl = normalizeMintUrl(url);
+        if (!/^https?:\/\/\S+$/.test(mintUrl)) {
+            setWalletError('Mint must be an http(s) URL.');
+            return false;
+        }
+        if (isTrustedMint(trustedMints, mintUrl)) return true;
+        // Make sure it's actually a mint before trusting it
+        if (!(await fetchMintInfo(mintUrl))) {
+            setWalletError(`Could not reach a mint at ${mintUrl}.`);
+            return false;
+        }
+        await updateTrustedMints([...trustedMints, mintUrl]);
+        return true;
+    }, [trustedMints, updateTrustedMints]);
+
+    const removeMint = useCallback(async (url: string) => {
+        if (getMintBalance(mintBalances, url) > 0) {
+            setWalletError(`Spend the ${getMintBalance(mintBalances, url)} sats held at ${url} before removing it.`);
+            return;
         }
+        if (trustedMints.length <= 1) {
+            setWalletError('Keep at least one trusted mint.');
+            return;
+        }
+        await updateTrustedMints(trustedMints.filter(mint => !isSameMint(mint, url)));
+    }, [trustedMints, mintBalances, updateTrustedMints]);
+
+    const moveMint = useCallback(async (url: string, direction: -1 | 1) => {
+        const index = trustedMints.findIndex(mint => isSameMint(mint, url));
+        const target = index + direction;
+        if (index === -1 || target < 0 || target >= trustedMints.length) return;
+        const reordered = [...trustedMints];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        await updateTrustedMints(reordered);
+    }, [trustedMints, updateTrustedMints]);
+
+    // NUT-06 info for the settings screen
+    useEffect(() => {
+        let isCancelled = false;
+        trustedMints.forEach(mint => {
+            fetchMintInfo(mint).then(info => {
+                if (!isCancelled) setMintInfo(prev => ({ ...prev, [mint]: info }));
+            });
+        });
+        return () => { isCancelled = true; };
+    }, [trustedMints]);
+
+    // --- Deposits ---
+
+    // Optional receipt for the sender. Best effort: the deposit is already in the wallet.
+    const sendDepositAck = useCallback(async (recipientPubkey: string, amount: number) => {
+        const context = depositContextRef.current;
+        if (!context) return;
+        try {
+            if (!(await loadDepositSettings()).sendAck) return;
+            await sendPrivateMessage(context.ndk, context.auth, recipientPubkey, `Received your ${amount} sat token, thank you!\n\nSent from Madstr.tv`);
+            console.log(`useWallet: Sent deposit receipt for ${amount} sats.`);
+        } catch (error) {
+            console.error('useWallet: Failed to send deposit receipt:', error);
+        }
+    }, []);
+
+    // Counts a redeemed NUT-18 payment toward the request it was made for
+    const recordRequestPayment = useCallback(async (requestId: string, amount: number) => {
+        const request = await loadPaymentRequest();
+        if (request?.id === requestId) {
+            const updated = { ...request, receivedSats: request.receivedSats + amount };
+            await savePaymentRequest(updated);
+            if (isMountedRef.current) setPaymentRequest(updated);
+        }
+        if (isMountedRef.current) setLastRequestPayment({ amount, receivedAt: Date.now() });
+    }, []);
+
+    const redeemDepositToken = useCallback(async (token: string, source?: DepositSource) => {
+        setWalletError('Processing incoming deposit...'); // Indicate activity
+        const history = {
+            type: 'deposit' as const,
+            counterpartyNpub: source ? toNpub(source.senderPubkey) : undefined,
+            eventId: source?.eventId,
+            memo: source?.paymentRequestId ? `Payment request ${source.paymentRequestId}` : undefined,
+        };
+        try {
+            const { proofs: redeemedProofs, amount, mintUrl } = await cashuHelper.redeemToken(token);
+            if (!redeemedProofs || redeemedProofs.length === 0) {
+                console.warn('Token redeemed but resulted in 0 proofs.');
+                return;
+            }
+            console.log(`Successfully redeemed ${redeemedProofs.length} proofs from token (Mint: ${mintUrl}).`);
+            const proofsToSave: StoredProof[] = redeemedProofs.map(p => ({ ...p, mintUrl }));
+            await idb.saveProofs(proofsToSave);
+            console.log(`Saved ${proofsToSave.length} new proofs via idb.saveProofs.`);
+            await markTokenHandled(getTokenKey(getDecodedToken(token).proofs));
+            await recordWalletHistory({ ...history, amount, mintUrl, status: 'completed' });
+            if (source?.paymentRequestId) await recordRequestPayment(source.paymentRequestId, amount);
+
+            // Reload state to reflect new balance and proofs
+            await loadWalletState();
+            if (isMountedRef.current) setWalletError(null); // Clear processing message
+            if (source) sendDepositAck(source.senderPubkey, amount);
+        } catch (redeemError) {
+            console.error('Error redeeming Cashu token:', redeemError);
+            const message = redeemError instanceof Error ? redeemError.message : String(redeemError);
+            try {
+                const decoded = getDecodedToken(token);
+                await recordWalletHistory({ ...history, amount: cashuHelper.getProofsBalance(decoded.proofs), mintUrl: decoded.mint, status: 'failed', memo: message });
+            } catch {
+                // Not even decodable: nothing worth recording
+            }
+            if (isMountedRef.current) setWalletError(`Failed to redeem deposit: ${message}`);
+        }
+    }, [loadWalletState, sendDepositAck, recordRequestPayment]);
+
+    // Tokens from trusted mints are redeemed right away; others wait for the user in Settings,
+    // since redeeming means holding sats at a mint we know nothing about
+    const handleDepositToken = useCallback(async (token: string, source: DepositSource) => {
+        let mintUrl: string;
+        let amount: number;
+        let key: string;
+        try {
+            const decoded = getDecodedToken(token);
+            mintUrl = decoded.mint;
+            amount = cashuHelper.getProofsBalance(decoded.proofs);
+            key = getTokenKey(decoded.proofs);
+        } catch (error) {
+            console.warn('useWallet: Ignoring undecodable token:', error);
+            return;
+        }
+        // Replayed DMs (the listener rescans the last hour) and copies sent both as NIP-04 and NIP-17
+        const inFlight = depositKeysInFlightRef.current;
+        if (inFlight.has(key) || await isTokenHandled(key)) {
+            console.log(`useWallet: Skipping ${amount} sat token from ${mintUrl}; it was already handled.`);
+            return;
+        }
+        inFlight.add(key);
+        try {
+            if (isTrustedMint(trustedMintsRef.current, mintUrl)) {
+                await redeemDepositToken(token, source);
+                return;
+            }
+            console.warn(`useWallet: Deposit of ${amount} sats from untrusted mint ${mintUrl}; waiting for confirmation.`);
+            if (!isMountedRef.current) return;
+            setPendingDeposits(prev => prev.some(deposit => deposit.token === token)
+                ? prev
+                : [...prev, { token, mintUrl, amount, ...source, receivedAt: Date.now() }]);
+            setWalletError(`Deposit of ${amount} sats is from an untrusted mint (${mintUrl}). Review it in Settings.`);
+        } finally {
+            inFlight.delete(key);
+        }
+    }, [redeemDepositToken]);
+
+    const acceptPendingDeposit = useCallback(async (token: string, trustMint: boolean) => {
+        const deposit = pendingDeposits.find(pending => pending.token === token);
+        if (!deposit) return;
+        setPendingDeposits(prev => prev.filter(pending => pending.token !== token));
+        if (trustMint && !isTrustedMint(trustedMints, deposit.mintUrl)) {
+            await updateTrustedMints([...trustedMints, normalizeMintUrl(deposit.mintUrl)]);
+        }
+        await redeemDepositToken(token, deposit);
+    }, [pendingDeposits, trustedMints, updateTrustedMints, redeemDepositToken]);
+
+    const rejectPendingDeposit = useCallback((token: string) => {
+        setPendingDeposits(prev => prev.filter(pending => pending.token !== token));
+        setWalletError(null);
+        // Don't ask again when the listener sees the DM next time
+        markTokenHandled(getTokenKey(getDecodedToken(token).proofs));
     }, []);
 
     // --- Deposit Listener --- 
@@ -107,6 +524,7 @@ export const useWallet = (): UseWalletReturn => {
             console.log('useWallet: DIAGNOSTIC - Stopping deposit listener...'); // <-- DIAGNOSTIC LOG
             depositSubRef.current.stop();
             depositSubRef.current = null;
+            depositContextRef.current = null;
              if (isMountedRef.current) {
                  setIsListeningForDeposits(false);
              }
@@ -131,68 +549,36 @@ export const useWallet = (): UseWalletReturn => {
              setWalletError(null);
          }
 
+        depositContextRef.current = { auth, ndk };
         const userHexPubkey = nip19.decode(auth.currentUserNpub).data as string;
-        const filter: NDKFilter = { kinds: [4], '#p': [userHexPubkey], since: Math.floor(Date.now() / 1000) - 60 * 60 }; // Check last hour
+        const since = Math.floor(Date.now() / 1000) - 60 * 60; // Check last hour
+        const filters: NDKFilter[] = [
+            { kinds: [LEGACY_DM_KIND], '#p': [userHexPubkey], since },
+            // Gift wraps are backdated by up to two days; the real time is checked after unwrapping
+            { kinds: [GIFT_WRAP_KIND], '#p': [userHexPubkey], since: since - GIFT_WRAP_MAX_BACKDATE_SECONDS },
+        ];
 
         const handleIncomingDm = async (event: NDKEvent) => {
-            if (!auth.decryptDm || !configuredMintUrl) {
-                console.warn('Decryption function or mint URL not available.');
+            if (!auth.decryptDm) {
+                console.warn('Decryption function not available.');
                 return; // Cannot process DMs
             }
-            console.log('Received potential deposit DM:', event.id);
+            console.log('Received potential deposit DM:', event.id, `(kind ${event.kind})`);
 
             try {
-                const plaintext = await auth.decryptDm(event.pubkey, event.content);
+                // NIP-04 DMs and NIP-17 gift wraps are both accepted
+                const message = await readPrivateMessage(event, auth);
+                if (!message || message.createdAt < since) return;
+                const plaintext = message.content;
 
                 if (plaintext) {
                     console.log('Decrypted DM content:', plaintext); // Careful logging plaintext
-                    const tokenMatch = plaintext.match(/(cashuA[A-Za-z0-9_-]+)/);
-                    if (tokenMatch && tokenMatch[1]) {
-                        const token = tokenMatch[1];
+                    // A NUT-18 payment (JSON payload), or V3 and V4 tokens, bare or as cashu: URIs, any number per message
+                    const payload = parsePaymentPayload(plaintext);
+                    const tokens = payload ? [paymentPayloadToToken(payload)] : extractCashuTokens(plaintext);
+                    for (const token of tokens) {
                         console.log('Found Cashu token in DM:', token);
-                        setWalletError('Processing incoming deposit...'); // Indicate activity
-                        let redeemedMintUrl: string | undefined = undefined; // Declare outside try
-
-                        try {
-                            // Assumes cashuHelper.redeemToken takes only the token string
-                            const { proofs: redeemedProofs, mintUrl: mintUrlFromToken } = await cashuHelper.redeemToken(token);
-                            redeemedMintUrl = mintUrlFromToken; // Assign inside try
-                            if (redeemedProofs && redeemedProofs.length > 0) {
-                                console.log(`Successfully redeemed ${redeemedProofs.length} proofs from token (Mint: ${redeemedMintUrl}).`);
-                                // Ensure redeemedMintUrl is defined before saving
-                                if (redeemedMintUrl) {
-                                    // Assign to a new const inside the block to help TS narrow the type
-                                    const finalMintUrl = redeemedMintUrl;
-                                    const proofsToSave: StoredProof[] = redeemedProofs.map(p => ({ ...p, mintUrl: finalMintUrl }));
-
-                                    await idb.saveProofs(proofsToSave);
-                                    console.log(`Saved ${proofsToSave.length} new proofs via idb.saveProofs.`);
-
-                                    // Reload state to reflect new balance and proofs
-                                    await loadWalletState();
-                                    setWalletError(null); // Clear processing message
-                                    // TODO: Maybe send an ack DM back?
-                                } else {
-                                    console.error("Redemption successful but mint URL was missing from response. Cannot save proofs.");
-                                    setWalletError("Failed to process deposit: Mint information missing.");
-                                }
-                            } else {
-                                console.warn('Token redeemed but resulted in 0 proofs.');
-                                // setWalletError('Deposit token was empty or already spent.');
-                            }
-                        } catch (redeemError) {
-                            console.error('Error redeeming Cashu token:', redeemError);
-                            const message = redeemError instanceof Error ? redeemError.message : String(redeemError);
-                             if (isMountedRef.current) {
-                                 // Display a more specific error if the mint doesn't match
-                                 // Check redeemedMintUrl existence before using it
-                                 if (redeemedMintUrl && message.includes("Mint URL mismatch")) {
-                                     setWalletError(`Cannot redeem token: It's from a different mint (${redeemedMintUrl}) than configured (${configuredMintUrl}).`);
-                                 } else {
-                                     setWalletError(`Failed to redeem deposit: ${message}`);
-                                 }
-                             }
-                        }
+                        await handleDepositToken(token, { senderPubkey: message.senderPubkey, eventId: event.id, paymentRequestId: payload?.id });
                     }
                 } else {
                      console.log('Failed to decrypt DM or plaintext was empty.');
@@ -203,7 +589,7 @@ export const useWallet = (): UseWalletReturn => {
             }
         };
 
-        depositSubRef.current = ndk.subscribe(filter, { closeOnEose: false });
+        depositSubRef.current = ndk.subscribe(filters, { closeOnEose: false });
         depositSubRef.current.on('event', handleIncomingDm);
         depositSubRef.current.on('eose', () => console.log('Deposit listener initial EOSE received.'));
         depositSubRef.current.on('close', (reason) => {
@@ -216,7 +602,7 @@ export const useWallet = (): UseWalletReturn => {
             }
         });
 
-    }, [configuredMintUrl, loadWalletState]); // Removed auth, ndk from dependencies
+    }, [handleDepositToken]); // Removed auth, ndk from dependencies
 
     // --- Tipping Function ---
 
@@ -237,11 +623,6 @@ export const useWallet = (): UseWalletReturn => {
              setWalletError('NDK instance required for tipping.');
              return false;
         }
-        if (!configuredMintUrl) {
-            console.error('Tipping failed: Mint URL not configured.');
-            setWalletError('Please configure a Cashu mint URL in Settings.');
-            return false;
-        }
         // Use cashuHelper to calculate balance from current proofs state
         if (cashuHelper.getProofsBalance(proofs) < amountSats) {
             console.error('Tipping failed: Insufficient balance.');
@@ -264,87 +645,404 @@ export const useWallet = (): UseWalletReturn => {
             return false;
         }
 
-        // Simplified: 100% to primary recipient
-        const recipients = [{ pubkey: recipientHexPubkey, amount: amountSats }];
-        // TODO: Implement Zapsplit profile parsing later
+        // 2. Divide the tip: the note's zap tags (or the author alone), after the optional house cut
+        const shares = computeTipShares(amountSats, recipientHexPubkey, params.zapSplitTags ?? [], await loadTipSplitSettings());
+        console.log('useWallet: Tip shares:', shares);
 
         setIsLoadingWallet(true); // Use loading state for tip processing
         setWalletError('Processing tip...');
-        let success = false;
-        let spentProofs: Proof[] = []; // Track proofs spent in this operation
+        let walletProofs: StoredProof[] = proofs;
+        const failedShares: TipShare[] = [];
 
-        try {
-            // Filter available proofs for the specific mint
-            const proofsForMint = proofs.filter(p => p.mintUrl === configuredMintUrl);
-
-            // 2. Create Cashu Token
-            const { token: cashuToken, remainingProofs: proofsLeftInMint } = await cashuHelper.createTokenForAmount(
-                amountSats,
-                proofsForMint, // Only pass proofs for the relevant mint
-                configuredMintUrl
-            );
-
-            // Track the proofs that were consumed by createTokenForAmount
-            const spentProofSecretsSet = new Set(proofsLeftInMint.map(p => p.secret));
-            spentProofs = proofsForMint.filter(p => !spentProofSecretsSet.has(p.secret));
-
-            // 3. Prepare Nostr DM Event
-            const dmContent = `Here is your ${amountSats} sat tip!\n\n${cashuToken}\n\nSent from Madstr.tv`;
-            const encryptedContent = await auth.encryptDm(recipientHexPubkey, dmContent);
-
-            const dmEvent = new NDKEvent(ndk);
-            dmEvent.kind = 4;
-            dmEvent.created_at = Math.floor(Date.now() / 1000);
-            dmEvent.content = encryptedContent;
-            dmEvent.tags = [['p', recipientHexPubkey]];
-            // Optional: Add tags related to the original event being tipped (for Zap Receipts later)
-            if (params.eventIdToZap) {
-                dmEvent.tags.push(['e', params.eventIdToZap]);
+        // 3. Each share is sent on its own; a failed one doesn't stop the rest
+        for (const share of shares) {
+            const result: TipShareResult = await sendTipShare(share, walletProofs, trustedMints, params, shares.length > 1)
+                .catch(error => ({ proofs: walletProofs, error: error instanceof Error ? error.message : String(error) }));
+            walletProofs = result.proofs;
+            if (result.error) {
+                console.error(`Tip share of ${share.amount} sats to ${share.pubkey} failed:`, result.error);
+                failedShares.push(share);
+            }
+            await recordWalletHistory({
+                type: 'tip',
+                amount: share.amount,
+                mintUrl: result.mintUrl ?? '',
+                counterpartyNpub: toNpub(share.pubkey),
+                noteId: params.eventIdToZap,
+                eventId: result.eventId,
+                status: result.error ? 'failed' : 'completed',
+                memo: result.error ?? (share.isHouseCut ? 'House cut' : undefined),
+            });
+        }
+        // A failed swap may have been settled against the mint's records: storage is the truth now
+        if (failedShares.length > 0) walletProofs = (await idb.getAllProofs()).filter(p => !isProofPending(p));
+
+        if (isMountedRef.current) {
+            setProofs(walletProofs);
+            setBalanceSats(cashuHelper.getProofsBalance(walletProofs));
+            setIsLoadingWallet(false);
+            if (failedShares.length === 0) {
+                setWalletError(null); // Clear processing message
+            } else {
+                const failedAmount = failedShares.reduce((sum, share) => sum + share.amount, 0);
+                setWalletError(`Tipping failed for ${failedShares.length} of ${shares.length} recipients (${failedAmount} sats kept in your wallet).`);
             }
+        }
+        return failedShares.length === 0;
+    }, [proofs, trustedMints]);
+    // auth and ndk are passed via params, so they shouldn't be in the deps array.
 
-            // 4. Publish DM Event (Implicitly signs)
-            console.log('Publishing tip DM...', dmEvent.rawEvent());
-            await dmEvent.publish(); // Use NDK's publish, no explicit sign needed
-            console.log('Tip DM published successfully.');
-
-            // 5. Update local wallet state (remove spent proofs)
-            const spentProofSecretsToDelete = spentProofs.map(p => p.secret);
-            
-            // Use the new helper functions
-            // Assumes idb.deleteProofsBySecret exists on idb
-            await idb.deleteProofsBySecret(spentProofSecretsToDelete);
-            console.log(`Deleted ${spentProofSecretsToDelete.length} spent proofs via idb.deleteProofsBySecret.`);
-
-            // Update local state immediately for responsiveness
-            // Combine remaining proofs for this mint with proofs from other mints
-            const otherMintProofs = proofs.filter(p => p.mintUrl !== configuredMintUrl);
-            const finalProofsState: StoredProof[] = [
-                 ...otherMintProofs,
-                 ...proofsLeftInMint.map(p => ({ ...p, mintUrl: configuredMintUrl })) // Ensure mintUrl is included
-            ];
+    // --- Lightning (NUT-04 / NUT-05) ---
 
+    // Deposits go to the primary mint: it returns an invoice, and once that's paid the proofs are minted
+    const requestLightningDeposit = useCallback(async (amountSats: number): Promise<boolean> => {
+        setWalletError(null);
+        if (!configuredMintUrl) {
+            setWalletError('Add a mint in Settings first.');
+            return false;
+        }
+        if (!Number.isInteger(amountSats) || amountSats <= 0) {
+            setWalletError('Enter a whole number of sats to deposit.');
+            return false;
+        }
+        try {
+            const quote = await cashuHelper.createMintQuote(configuredMintUrl, amountSats);
             if (isMountedRef.current) {
-                 setProofs(finalProofsState);
-                 setBalanceSats(cashuHelper.getProofsBalance(finalProofsState));
-                 setWalletError(null); // Clear processing message
+                setLightningDeposit({
+                    quoteId: quote.quote,
+                    request: quote.request,
+                    amount: amountSats,
+                    mintUrl: configuredMintUrl,
+                    expiry: quote.expiry,
+                    state: 'UNPAID',
+                });
             }
-            success = true;
+            return true;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (isMountedRef.current) setWalletError(message);
+            return false;
+        }
+    }, [configuredMintUrl]);
+
+    const cancelLightningDeposit = useCallback(() => setLightningDeposit(null), []);
+
+    // Poll the open quote; mint the proofs once the invoice is paid
+    const openDeposit = lightningDeposit?.state === 'UNPAID' ? lightningDeposit : null;
+    const depositQuoteId = openDeposit?.quoteId ?? null;
+    const depositMintUrl = openDeposit?.mintUrl ?? null;
+    const depositAmount = openDeposit?.amount ?? 0;
+    const depositExpiry = openDeposit?.expiry ?? 0;
+    useEffect(() => {
+        if (!depositQuoteId || !depositMintUrl) return;
+        const mintUrl = depositMintUrl;
+        let isCancelled = false;
+        let isMinting = false;
 
+        const poll = async () => {
+            if (isMinting) return;
+            try {
+                const quote = await cashuHelper.checkMintQuote(mintUrl, depositQuoteId);
+                if (isCancelled) return;
+                if (quote.state === MintQuoteState.UNPAID) {
+                    if (depositExpiry && Date.now() / 1000 > depositExpiry) {
+                        setLightningDeposit(prev => (prev?.quoteId === depositQuoteId ? { ...prev, state: 'EXPIRED' } : prev));
+                    }
+                    return;
+                }
+                if (quote.state === MintQuoteState.ISSUED) {
+                    // Minted elsewhere (e.g. another open Settings instance)
+                    setLightningDeposit(prev => (prev?.quoteId === depositQuoteId ? { ...prev, state: 'ISSUED' } : prev));
+                    return;
+                }
+                isMinting = true;
+                setLightningDeposit(prev => (prev?.quoteId === depositQuoteId ? { ...prev, state: 'MINTING' } : prev));
+                const mintedProofs = await cashuHelper.mintQuoteProofs(mintUrl, depositAmount, depositQuoteId);
+                await idb.saveProofs(mintedProofs.map(p => ({ ...p, mintUrl })));
+                console.log(`useWallet: Lightning deposit of ${depositAmount} sats minted at ${mintUrl}.`);
+                await recordWalletHistory({ type: 'mint', amount: depositAmount, mintUrl, status: 'completed', memo: `Quote ${depositQuoteId}` });
+                await loadWalletState();
+                if (isMountedRef.current) {
+                    setLightningDeposit(prev => (prev?.quoteId === depositQuoteId ? { ...prev, state: 'ISSUED' } : prev));
+                }
+            } catch (error) {
+                console.error('useWallet: Lightning deposit polling failed:', error);
+                const message = error instanceof Error ? error.message : String(error);
+                if (isMountedRef.current) setWalletError(message);
+                // Minting can be retried while the quote is still PAID
+                if (isMinting && isMountedRef.current) {
+                    setLightningDeposit(prev => (prev?.quoteId === depositQuoteId ? { ...prev, state: 'UNPAID' } : prev));
+                }
+            } finally {
+                isMinting = false;
+            }
+        };
+
+        const intervalId = setInterval(poll, LIGHTNING_DEPOSIT_POLL_MS);
+        return () => {
+            isCancelled = true;
+            clearInterval(intervalId);
+        };
+    }, [depositQuoteId, depositMintUrl, depositAmount, depositExpiry, loadWalletState]);
+
+    // Resolves the destination to an invoice and gets a melt quote from the first trusted mint that
+    // can cover the invoice amount plus the mint's fee reserve. Nothing is paid until confirmed.
+    const prepareLightningPayment = useCallback(async (destination: string, amountSats?: number): Promise<boolean> => {
+        setWalletError(null);
+        setLightningPayment(null);
+        const target = normalizeLightningDestination(destination);
+        let invoice: string;
+        try {
+            if (isLightningAddress(target)) {
+                if (!amountSats || !Number.isInteger(amountSats) || amountSats <= 0) {
+                    setWalletError('Enter the amount to send to the lightning address.');
+                    return false;
+                }
+                invoice = await resolveLightningAddress(target, amountSats);
+            } else if (isBolt11Invoice(target)) {
+                invoice = target;
+            } else {
+                setWalletError('Enter a Lightning invoice or a lightning address.');
+                return false;
+            }
         } catch (error) {
-            console.error('Error during tipping process:', error);
             const message = error instanceof Error ? error.message : String(error);
+            setWalletError(message);
+            return false;
+        }
+
+        const invoiceAmount = getInvoiceAmountSats(invoice);
+        if (!invoiceAmount) {
+            setWalletError('Invoices without an amount are not supported.');
+            return false;
+        }
+        if (cashuHelper.getProofsBalance(proofs) < invoiceAmount) {
+            setWalletError(`Insufficient funds. Need ${invoiceAmount}, have ${cashuHelper.getProofsBalance(proofs)}.`);
+            return false;
+        }
+
+        setWalletError('Getting a payment quote...');
+        let lastError: string | null = null;
+        for (const mint of trustedMints) {
+            // Proofs are stored under the URL they were minted with
+            const storedMintUrl = pickMintForAmount([mint], mintBalances, invoiceAmount);
+            if (!storedMintUrl) continue;
+            const mintBalance = mintBalances[storedMintUrl];
+            try {
+                const quote = await cashuHelper.createMeltQuote(storedMintUrl, invoice);
+                if (mintBalance < quote.amount + quote.fee_reserve) {
+                    lastError = `${mint} needs ${quote.amount + quote.fee_reserve} sats including the fee reserve.`;
+                    continue;
+                }
+                if (isMountedRef.current) {
+                    setLightningPayment({ destination: target, invoice, mintUrl: storedMintUrl, quote });
+                    setWalletError(null);
+                }
+                return true;
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : String(error);
+            }
+        }
+        if (isMountedRef.current) {
+            setWalletError(lastError ?? `No trusted mint holds ${invoiceAmount} sats on its own.`);
+        }
+        return false;
+    }, [proofs, trustedMints, mintBalances]);
+
+    const confirmLightningPayment = useCallback(async (): Promise<LightningPaymentResult | null> => {
+        if (!lightningPayment) return null;
+        const { quote, mintUrl, destination } = lightningPayment;
+        setIsLoadingWallet(true);
+        setWalletError('Paying invoice...');
+        const history = { type: 'melt' as const, amount: quote.amount, mintUrl, memo: destination };
+        const proofsForMint = proofs.filter(p => p.mintUrl === mintUrl);
+        // Journaled like a send: if the melt's response is lost, recovery restores the change from the counters
+        let entry = await beginSend('melt', mintUrl, quote.amount, undefined, proofsForMint);
+        try {
+            let result: Awaited<ReturnType<typeof cashuHelper.meltProofsForQuote>>;
+            try {
+                result = await cashuHelper.meltProofsForQuote(quote, proofsForMint, mintUrl, async range => {
+                    entry = await markCountersReserved(entry, range);
+                });
+            } catch (error) {
+                // Unknown which proofs the mint took: let the journal settle it, then reread storage
+                await recoverSend(entry);
+                await loadWalletState();
+                throw error;
+            }
+            entry = await markTokenCreated(entry, [], result.remainingProofs);
+            // Store whatever we hold now, whether or not the payment went through
+            const keptProofs = await replaceMintProofs(mintUrl, proofsForMint, result.remainingProofs);
+            await finishSend(entry);
+            const finalProofsState: StoredProof[] = [...proofs.filter(p => p.mintUrl !== mintUrl), ...keptProofs];
+            if (isMountedRef.current) {
+                setProofs(finalProofsState);
+                setBalanceSats(cashuHelper.getProofsBalance(finalProofsState));
+            }
+            if (!result.isPaid) {
+                // A pending payment may still go through; its inputs were kept and can be checked later
+                await recordWalletHistory({ ...history, status: result.isPending ? 'pending' : 'failed' });
+                if (isMountedRef.current) setWalletError(`Payment failed: ${result.error ?? 'not confirmed by the mint'}`);
+                return null;
+            }
+            await recordWalletHistory({ ...history, fee: result.feePaid, status: 'completed' });
             if (isMountedRef.current) {
-                setWalletError(`Tipping failed: ${message}`);
+                setLightningPayment(null);
+                setWalletError(null);
             }
-            // Optional: Try to add back any proofs that might have been removed optimistically if needed
+            return { amount: quote.amount, feePaid: result.feePaid, preimage: result.preimage };
+        } catch (error) {
+            console.error('Error paying Lightning invoice:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            await recordWalletHistory({ ...history, status: 'failed', memo: `${destination}: ${message}` });
+            if (isMountedRef.current) setWalletError(`Payment failed: ${message}`);
+            return null;
         } finally {
+            if (isMountedRef.current) setIsLoadingWallet(false);
+        }
+    }, [lightningPayment, proofs, loadWalletState]);
+
+    const cancelLightningPayment = useCallback(() => {
+        setLightningPayment(null);
+        setWalletError(null);
+    }, []);
+
+    // --- Seed Restore (NUT-09 / NUT-13) ---
+
+    // Asks every trusted mint for the proofs derived from the recovery phrase and adds the unspent
+    // ones we don't already hold. With a phrase given, it becomes the wallet's phrase first.
+    const restoreFromSeed = useCallback(async (mnemonic?: string): Promise<number | null> => {
+        setWalletError(null);
+        setIsLoadingWallet(true);
+        try {
+            if (mnemonic) await replaceWalletMnemonic(mnemonic);
+            const storedSecrets = new Set((await idb.getAllProofs()).map(p => p.secret));
+            let recovered = 0;
+            const failedMints: string[] = [];
+            for (const mintUrl of trustedMints) {
+                try {
+                    const restored = (await cashuHelper.restoreProofsFromSeed(mintUrl)).filter(p => !storedSecrets.has(p.secret));
+                    await idb.saveProofs(restored.map(p => ({ ...p, mintUrl })));
+                    recovered += cashuHelper.getProofsBalance(restored);
+                } catch (error) {
+                    console.error(`useWallet: Restore from ${mintUrl} failed:`, error);
+                    failedMints.push(mintUrl);
+                }
+            }
+            console.log(`useWallet: Restored ${recovered} sats from the recovery phrase.`);
+            await loadWalletState();
+            if (failedMints.length > 0 && isMountedRef.current) {
+                setWalletError(`Could not restore from ${failedMints.join(', ')}.`);
+            }
+            return recovered;
+        } catch (error) {
+            console.error('Error restoring from recovery phrase:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            if (isMountedRef.current) setWalletError(`Restore failed: ${message}`);
+            return null;
+        } finally {
+            if (isMountedRef.current) setIsLoadingWallet(false);
+        }
+    }, [trustedMints, loadWalletState]);
+
+    // --- Payment Requests (NUT-18) ---
+
+    // Replaces the active request. Payers may use any of our trusted mints; payments reach the deposit listener.
+    const createPaymentRequest = useCallback(async (params: CreatePaymentRequestParams): Promise<boolean> => {
+        const { auth, ndk, amount, description } = params;
+        setWalletError(null);
+        if (!auth.isLoggedIn || !auth.currentUserNpub) {
+            setWalletError('Login required to receive payment requests.');
+            return false;
+        }
+        if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+            setWalletError('Enter a whole number of sats, or leave the amount empty.');
+            return false;
+        }
+        try {
+            const pubkey = nip19.decode(auth.currentUserNpub).data as string;
+            const request = await buildPaymentRequest({ ndk, pubkey, mints: trustedMints, amount, description: description?.trim() || undefined });
+            console.log(`useWallet: Created payment request ${request.id}.`);
             if (isMountedRef.current) {
-                setIsLoadingWallet(false);
+                setPaymentRequest(request);
+                setLastRequestPayment(null);
             }
+            return true;
+        } catch (error) {
+            console.error('Error creating payment request:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            if (isMountedRef.current) setWalletError(`Could not create payment request: ${message}`);
+            return false;
         }
-        return success;
-    }, [proofs, configuredMintUrl, loadWalletState]); // Corrected dependency array: Only include variables from the outer scope that the callback depends on.
-    // auth and ndk are passed via params, so they shouldn't be in the deps array.
+    }, [trustedMints]);
+
+    const clearPaymentRequest = useCallback(async () => {
+        await savePaymentRequest(null);
+        setPaymentRequest(null);
+        setLastRequestPayment(null);
+    }, []);
+
+    // --- Proof Reconciliation ---
+
+    // Spent proofs are deleted, pending ones held back and small ones merged; reload if anything changed
+    const reconcileProofs = useCallback(async (): Promise<ReconcileResult | null> => {
+        try {
+            const result = await reconcileStoredProofs(true);
+            if (result?.changed) await loadWalletState();
+            return result;
+        } catch (error) {
+            console.error('useWallet: Proof reconciliation failed:', error);
+            return null;
+        }
+    }, [loadWalletState]);
+
+    // Background runs. Every instance schedules them, but reconcileStoredProofs runs at most once per interval.
+    useEffect(() => {
+        const run = () => {
+            reconcileStoredProofs()
+                .then(result => (result?.changed ? loadWalletState() : undefined))
+                .catch(error => console.error('useWallet: Background proof reconciliation failed:', error));
+        };
+        const timeoutId = setTimeout(run, RECONCILE_FIRST_DELAY_MS);
+        const intervalId = setInterval(run, RECONCILE_INTERVAL_MS);
+        return () => {
+            clearTimeout(timeoutId);
+            clearInterval(intervalId);
+        };
+    }, [loadWalletState]);
+
+    // --- NIP-60 Relay Sync ---
+
+    // Whenever a signer appears (nsec login, NIP-46 or a restored session), pull the wallet from relays first;
+    // syncing only starts afterwards so a fresh install never overwrites the relay copy with an empty wallet.
+    const signer = contextNdk?.signer;
+    useEffect(() => {
+        setNip60SyncPubkey(null);
+        if (!contextNdk || !signer) return;
+        let isCancelled = false;
+        (async () => {
+            const { pubkey } = await signer.user();
+            const { proofs: restored } = await restoreWalletFromRelays(contextNdk);
+            if (isCancelled) return;
+            if (restored.length > 0) {
+                console.log(`useWallet: Restored ${restored.length} proofs from NIP-60 events.`);
+                await loadWalletState();
+            }
+            setNip60SyncPubkey(pubkey);
+        })().catch(error => {
+            console.error('useWallet: NIP-60 wallet restore failed; relay sync disabled for this session:', error);
+        });
+        return () => { isCancelled = true; };
+    }, [contextNdk, signer, loadWalletState]);
+
+    // Mirror proof changes to relays (reads the stored proofs, so any instance's change is picked up)
+    useEffect(() => {
+        if (!contextNdk || !nip60SyncPubkey || isLoadingWallet) return;
+        const timeoutId = setTimeout(() => {
+            syncWalletToRelays(contextNdk).catch(error => console.error('useWallet: NIP-60 sync failed:', error));
+        }, NIP60_SYNC_DELAY_MS);
+        return () => clearTimeout(timeoutId);
+    }, [contextNdk, nip60SyncPubkey, proofs, isLoadingWallet]);
 
     // --- Initial Load --- 
     useEffect(() => {
@@ -361,6 +1059,7 @@ export const useWallet = (): UseWalletReturn => {
     return {
         proofs,
         balanceSats,
+        pendingSats,
         isListeningForDeposits,
         walletError,
         isLoadingWallet,
@@ -370,5 +1069,27 @@ export const useWallet = (): UseWalletReturn => {
         stopDepositListener,
         sendCashuTipWithSplits,
         setConfiguredMintUrl,
+        trustedMints,
+        mintBalances,
+        mintInfo,
+        pendingDeposits,
+        addMint,
+        removeMint,
+        moveMint,
+        acceptPendingDeposit,
+        rejectPendingDeposit,
+        lightningDeposit,
+        requestLightningDeposit,
+        cancelLightningDeposit,
+        lightningPayment,
+        prepareLightningPayment,
+        confirmLightningPayment,
+        cancelLightningPayment,
+        restoreFromSeed,
+        reconcileProofs,
+        paymentRequest,
+        lastRequestPayment,
+        createPaymentRequest,
+        clearPaymentRequest,
     };
 };
\ No newline at end of file
@@ -1,5 +1,7 @@
 import NDK from "@nostr-dev-kit/ndk";
 import { RELAYS } from "./constants";
+import { applyRelayConfigs, loadRelayConfigs } from "./utils/relayConfig";
+import { startRelayHealthTracking } from "./utils/relayHealth";
 
 console.log("ndk.ts: Creating NDK singleton instance...");
 
@@ -11,4 +13,10 @@ const ndkInstance = new NDK({
 
 console.log("ndk.ts: NDK instance created.");
 
+// Track per-relay health from the start so connect latency is measured for the initial connections
+startRelayHealthTracking(ndkInstance);
+
+// RELAYS is only the default list; swap in the user's saved relay list (Settings > Relays)
+loadRelayConfigs().then(configs => applyRelayConfigs(ndkInstance, configs));
+
 export default ndkInstance; 
\ No newline at end of file
@@ -0,0 +1,162 @@
+// src/sw/service-worker.js
+// Service worker for the kiosk build. Emitted as /sw.js by the serviceWorker plugin in vite.config.ts,
+// which replaces the two placeholders below with the build's asset list and version.
+//
+// Strategies:
+// - App shell (hashed build assets + index.html): precached, cache-first; navigations fall back to index.html.
+// - Small cross-origin images (avatars/profile pictures): stale-while-revalidate. Avatars are requested
+//   with CORS (src/components/AvatarImage.tsx); opaque responses can't be size-checked and aren't kept.
+// - Audio/video in the offline media library (see src/utils/offlineMediaStore.ts): served from cache,
+//   including Range requests, so cached media stays seekable.
+// A new version waits until the page tells it playback is idle (SKIP_WAITING message).
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST;
+const BUILD_VERSION = self.__BUILD_VERSION;
+
+const SHELL_CACHE = `madstr-shell-${BUILD_VERSION}`;
+const IMAGE_CACHE = 'madstr-avatars-v1';
+const OFFLINE_MEDIA_CACHE_PREFIX = 'madstr-offline-';
+const MAX_IMAGE_ENTRIES = 300;
+const MAX_AVATAR_BYTES = 1024 * 1024; // Bigger images are feed media, handled by the offline library
+
+// --- Lifecycle ---
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_MANIFEST))
+  );
+  // No skipWaiting() here: the page activates us once playback is idle
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('madstr-shell-') && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// --- Helpers ---
+
+// Serves a Range request from a full cached response
+async function createRangeResponse(request, cachedResponse) {
+  const blob = await cachedResponse.blob();
+  const match = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('Range') || '');
+  if (!match) return new Response(blob, { status: 200, headers: cachedResponse.headers });
+
+  const size = blob.size;
+  let start = match[1] === '' ? undefined : Number(match[1]);
+  let end = match[2] === '' ? undefined : Number(match[2]);
+  if (start === undefined) {
+    // Suffix range: "bytes=-500" means the last 500 bytes
+    start = Math.max(0, size - (end ?? 0));
+    end = size - 1;
+  }
+  end = Math.min(end ?? size - 1, size - 1);
+
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  const headers = new Headers(cachedResponse.headers);
+  headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+  headers.set('Content-Length', String(end - start + 1));
+  return new Response(blob.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+}
+
+async function matchOfflineMedia(url) {
+  const names = await caches.keys();
+  for (const name of names) {
+    if (!name.startsWith(OFFLINE_MEDIA_CACHE_PREFIX)) continue;
+    const response = await (await caches.open(name)).match(url);
+    if (response) return response;
+  }
+  return undefined;
+}
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const requests = await cache.keys();
+  const excess = requests.length - maxEntries;
+  if (excess > 0) {
+    await Promise.all(requests.slice(0, excess).map((request) => cache.delete(request)));
+  }
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(event.request);
+
+  const network = fetch(event.request).then(async (response) => {
+    // Only keep readable, avatar-sized responses; opaque responses have unknown size
+    const length = Number(response.headers.get('Content-Length'));
+    if (response.ok && response.type !== 'opaque' && length > 0 && length <= MAX_AVATAR_BYTES) {
+      await cache.put(event.request, response.clone());
+      await trimCache(IMAGE_CACHE, MAX_IMAGE_ENTRIES);
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined)); // Refresh in the background
+    return cached;
+  }
+  // Offline and never cached here: the offline library may still have it
+  return network.catch(async () => (await matchOfflineMedia(event.request.url)) || Response.error());
+}
+
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(SHELL_CACHE);
+    return (await cache.match('/index.html')) || Response.error();
+  }
+}
+
+async function handleMedia(request) {
+  const cached = await matchOfflineMedia(request.url);
+  if (!cached) return fetch(request);
+  return request.headers.has('Range') ? createRangeResponse(request, cached) : cached;
+}
+
+// --- Routing ---
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (PRECACHE_MANIFEST.includes(url.pathname)) {
+      event.respondWith(
+        caches.open(SHELL_CACHE).then(async (cache) => (await cache.match(url.pathname)) || fetch(request))
+      );
+    }
+    return;
+  }
+
+  if (request.destination === 'audio' || request.destination === 'video' || request.headers.has('Range')) {
+    event.respondWith(handleMedia(request));
+    return;
+  }
+
+  if (request.destination === 'image') {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
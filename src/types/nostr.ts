@@ -35,4 +35,31 @@ export interface NostrNote {
     summary?: string;      // e.g., from 'summary' tag
     image?: string;        // e.g., from 'image' tag (cover art)
     duration?: string;     // e.g., from 'duration' tag (podcast/video length)
+
+    // --- NIP-92 imeta Metadata (per media item) ---
+    eventId?: string;      // Original event ID when one event yields several notes (id is then suffixed)
+    mediaIndex?: number;   // Position of this media item within the event's imeta tags
+    mimeType?: string;     // e.g., 'image/jpeg' from 'm'
+    width?: number;        // From 'dim' (WIDTHxHEIGHT)
+    height?: number;
+    blurhash?: string;     // Placeholder hash for progressive display
+    sha256?: string;       // 'x' hash of the file, useful for verification / Blossom lookups
+    alt?: string;          // Accessibility description
+    fallbackUrls?: string[]; // Alternative URLs serving the same file
+
+    // --- NIP-71 Video Metadata ---
+    renditions?: VideoRendition[]; // All published variants; 'url' holds the default pick
+}
+
+// One variant of a NIP-71 video (from a single imeta tag)
+export interface VideoRendition {
+    url: string;
+    mimeType?: string;
+    width?: number;
+    height?: number;
+    bitrate?: number;      // Bits per second, when published
+    duration?: number;     // Seconds
+    previewImage?: string; // First 'image' entry (poster frame)
+    sha256?: string;
+    fallbackUrls: string[];
 } 
\ No newline at end of file
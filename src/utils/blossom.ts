@@ -0,0 +1,247 @@
+// src/utils/blossom.ts
+// Blossom-aware media resolution (BUD-01 retrieval, BUD-02/kind 10063 server lists).
+// Blossom blobs are addressed by their sha256, so any server holding the same hash can stand in
+// for a dead host. Images are downloaded and checked against the hash before they are handed to
+// the UI; audio and video stream from the original URL and move to a mirror when the element errors.
+import NDK, { NDKKind } from '@nostr-dev-kit/ndk';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { DEFAULT_BLOSSOM_SERVERS } from '../constants';
+import { idb } from './idb';
+
+const USER_SERVER_LIST_KIND = 10063 as NDKKind; // BUD-03 user server list
+const FETCH_TIMEOUT_MS = 20000;
+const SERVER_LIST_TIMEOUT_MS = 5000;
+// Larger files are shown from the first reachable server without verification:
+// hashing means holding the whole file in memory first.
+const MAX_VERIFIED_BYTES = 10 * 1024 * 1024;
+const MAX_CACHED_OBJECT_URLS = 20; // Object URLs still on screen are kept beyond this
+
+const sha256UrlRegex = /\/([0-9a-f]{64})(\.[a-z0-9]+)?(?:[?#].*)?$/i;
+
+export interface BlossomMediaRef {
+    url: string;
+    sha256?: string;         // From imeta 'x'; otherwise taken from the URL
+    authorPubkey?: string;   // Whose kind 10063 server list to try
+    fallbackUrls?: string[]; // imeta 'fallback' entries
+}
+
+export interface ResolvedMedia {
+    url: string;       // Object URL when verified, otherwise a remote URL
+    verified: boolean;
+}
+
+// Returns the sha256 (and extension) a Blossom URL ends with, e.g. https://host/<hash>.mp4
+export function extractSha256FromUrl(url: string): { sha256: string; extension: string } | null {
+    const match = url.match(sha256UrlRegex);
+    return match ? { sha256: match[1].toLowerCase(), extension: match[2] ?? '' } : null;
+}
+
+const normalizeServer = (server: string): string => server.trim().replace(/\/+$/, '');
+
+// --- Server Lists ---
+
+const authorServerCache = new Map<string, Promise<string[]>>();
+
+// Kind 10063 'server' tags for an author, cached for the session
+export function getAuthorServers(ndk: NDK, pubkey: string): Promise<string[]> {
+    const cached = authorServerCache.get(pubkey);
+    if (cached) return cached;
+
+    const lookup = (async () => {
+        try {
+            const event = await Promise.race([
+                ndk.fetchEvent({ kinds: [USER_SERVER_LIST_KIND], authors: [pubkey] }),
+                new Promise<null>(resolve => setTimeout(() => resolve(null), SERVER_LIST_TIMEOUT_MS)),
+            ]);
+            return (event?.tags ?? [])
+                .filter(t => t[0] === 'server' && t[1]?.startsWith('http'))
+                .map(t => normalizeServer(t[1]));
+        } catch (error) {
+            console.warn(`blossom: Failed to fetch server list for ${pubkey}:`, error);
+            return [];
+        }
+    })();
+    authorServerCache.set(pubkey, lookup);
+    return lookup;
+}
+
+export async function loadFallbackServers(): Promise<string[]> {
+    try {
+        const saved = await idb.loadBlossomServersFromDb();
+        return (saved ?? DEFAULT_BLOSSOM_SERVERS).map(normalizeServer);
+    } catch (error) {
+        console.error('blossom: Failed to load fallback servers, using defaults:', error);
+        return DEFAULT_BLOSSOM_SERVERS;
+    }
+}
+
+export async function saveFallbackServers(servers: string[]): Promise<void> {
+    await idb.saveBlossomServersToDb(servers.map(normalizeServer).filter(Boolean));
+}
+
+// Mirror URLs for a hash on the author's Blossom servers, then the configured fallback servers
+async function getServerUrls(ndk: NDK | null | undefined, media: BlossomMediaRef, hash: string, extension: string): Promise<string[]> {
+    const [authorServers, fallbackServers] = await Promise.all([
+        ndk && media.authorPubkey ? getAuthorServers(ndk, media.authorPubkey) : Promise.resolve([]),
+        loadFallbackServers(),
+    ]);
+    return Array.from(new Set([...authorServers, ...fallbackServers])).map(server => `${server}/${hash}${extension}`);
+}
+
+// Every URL a streamed blob can be played from, in the order to try them: the original URL, imeta
+// fallbacks, then the Blossom servers. Just the original URL when it has no known sha256.
+export async function getBlossomStreamUrls(ndk: NDK | null | undefined, media: BlossomMediaRef): Promise<string[]> {
+    const fromUrl = extractSha256FromUrl(media.url);
+    const hash = (media.sha256 ?? fromUrl?.sha256)?.toLowerCase();
+    if (!hash || !media.url.startsWith('http')) return [media.url];
+    const serverUrls = await getServerUrls(ndk, media, hash, fromUrl?.extension ?? '');
+    return Array.from(new Set([media.url, ...(media.fallbackUrls ?? []), ...serverUrls]));
+}
+
+// --- Verification ---
+
+async function hashBlob(blob: Blob): Promise<string> {
+    const buffer = await blob.arrayBuffer();
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+        return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', buffer)));
+    }
+    // crypto.subtle is missing outside secure contexts (e.g. a kiosk served over plain http)
+    return bytesToHex(sha256(new Uint8Array(buffer)));
+}
+
+// Reads a body into a blob, or returns null (and stops the download) once it passes maxBytes
+async function readBodyUpTo(response: Response, maxBytes: number): Promise<Blob | null> {
+    if (!response.body) return response.blob();
+    const reader = response.body.getReader();
+    const chunks: BlobPart[] = [];
+    let size = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(chunk.value as BlobPart);
+    }
+    return new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' });
+}
+
+// --- Resolution ---
+
+// Verified object URLs by hash, so carousels that loop don't download the same blob again.
+// `users` counts the components showing one; only unused entries are revoked.
+interface CachedObjectUrl {
+    objectUrl: string;
+    users: number;
+}
+const objectUrlCache = new Map<string, CachedObjectUrl>();
+const inFlight = new Map<string, Promise<ResolvedMedia>>();
+
+// Revokes the oldest unused object URLs beyond the cap
+function trimObjectUrlCache() {
+    for (const [hash, entry] of objectUrlCache) {
+        if (objectUrlCache.size <= MAX_CACHED_OBJECT_URLS) break;
+        if (entry.users > 0) continue;
+        URL.revokeObjectURL(entry.objectUrl);
+        objectUrlCache.delete(hash);
+    }
+}
+
+function rememberObjectUrl(hash: string, objectUrl: string) {
+    objectUrlCache.set(hash, { objectUrl, users: 0 });
+    trimObjectUrlCache();
+}
+
+function findCachedObjectUrl(objectUrl: string): CachedObjectUrl | undefined {
+    return Array.from(objectUrlCache.values()).find(entry => entry.objectUrl === objectUrl);
+}
+
+// Marks a resolved URL as on screen, so it isn't revoked. Remote URLs are ignored.
+export function retainBlossomObjectUrl(url: string): void {
+    const entry = findCachedObjectUrl(url);
+    if (entry) entry.users++;
+}
+
+export function releaseBlossomObjectUrl(url: string): void {
+    const entry = findCachedObjectUrl(url);
+    if (!entry) return;
+    entry.users = Math.max(0, entry.users - 1);
+    trimObjectUrlCache();
+}
+
+type CandidateResult = ResolvedMedia | 'mismatch' | 'unavailable';
+
+async function tryCandidate(url: string, expectedHash: string): Promise<CandidateResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) return 'unavailable';
+
+        const contentLength = Number(response.headers.get('Content-Length'));
+        if (contentLength > MAX_VERIFIED_BYTES) {
+            controller.abort(); // Let the element load it directly instead
+            return { url, verified: false };
+        }
+
+        const blob = await readBodyUpTo(response, MAX_VERIFIED_BYTES);
+        if (!blob) return { url, verified: false }; // No Content-Length, and too big once read
+        const actualHash = await hashBlob(blob);
+        if (actualHash !== expectedHash) {
+            console.warn(`blossom: Hash mismatch from ${url} (expected ${expectedHash}, got ${actualHash}).`);
+            return 'mismatch';
+        }
+        const objectUrl = URL.createObjectURL(blob);
+        rememberObjectUrl(expectedHash, objectUrl);
+        return { url: objectUrl, verified: true };
+    } catch (error) {
+        console.warn(`blossom: Could not fetch ${url}:`, error);
+        return 'unavailable';
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// Resolves an image (or other small file) to a verified copy, trying the original URL, imeta
+// fallbacks, the author's Blossom servers and then the configured fallback servers.
+// Audio and video use getBlossomStreamUrls instead; they are too big to hold in memory.
+// URLs without a known sha256 (and non-http URLs such as offline object URLs) are returned unchanged.
+// If every candidate fails, the original URL is returned so the caller's error handling still runs.
+export function resolveBlossomMedia(ndk: NDK | null | undefined, media: BlossomMediaRef): Promise<ResolvedMedia> {
+    const fromUrl = extractSha256FromUrl(media.url);
+    const hash = (media.sha256 ?? fromUrl?.sha256)?.toLowerCase();
+    if (!hash || !media.url.startsWith('http')) return Promise.resolve({ url: media.url, verified: false });
+
+    const cachedObjectUrl = objectUrlCache.get(hash);
+    if (cachedObjectUrl) return Promise.resolve({ url: cachedObjectUrl.objectUrl, verified: true });
+    const pending = inFlight.get(hash);
+    if (pending) return pending;
+
+    const resolution = (async (): Promise<ResolvedMedia> => {
+        const extension = fromUrl?.extension ?? '';
+        const candidates = [media.url, ...(media.fallbackUrls ?? [])];
+
+        for (const url of candidates) {
+            const result = await tryCandidate(url, hash);
+            if (typeof result === 'object') return result;
+        }
+
+        const serverUrls = (await getServerUrls(ndk, media, hash, extension))
+            .filter(url => !candidates.includes(url));
+
+        for (const url of serverUrls) {
+            const result = await tryCandidate(url, hash);
+            if (typeof result === 'object') {
+                console.log(`blossom: Resolved ${hash} via ${url}.`);
+                return result;
+            }
+        }
+
+        console.warn(`blossom: No server returned a valid copy of ${hash}; using the original URL.`);
+        return { url: media.url, verified: false };
+    })().finally(() => inFlight.delete(hash));
+
+    inFlight.set(hash, resolution);
+    return resolution;
+}
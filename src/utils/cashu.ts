@@ -1,21 +1,39 @@
-import { CashuMint, CashuWallet, Proof, getEncodedTokenV4, getDecodedToken, Token, ProofState, CheckStateEnum } from '@cashu/cashu-ts';
-import { idb, StoredProof } from './idb'; // Assuming your idb utility exports 'idb' and StoredProof
+import { CashuMint, CashuWallet, Proof, getEncodedTokenV4, getDecodedToken, Token, ProofState, CheckStateEnum, MintQuoteResponse, MeltQuoteResponse, MeltQuoteState, MintKeys, MintKeyset } from '@cashu/cashu-ts';
+import { OutputCounterRange } from './idb';
+import { isTestMintUrl, testMintRequest } from './testMint';
+import { advanceCounterTo, getWalletSeed, outputCountBound, reserveCounters } from './cashuSeed';
 
-// Cache mint keys to avoid refetching on every operation
-const mintKeysCache: Record<string, any> = {}; // Consider a more specific type if available from cashu-ts
+// NUT-09 restore: counters are scanned in batches until this many in a row come back unsigned
+const RESTORE_GAP_LIMIT = 500;
+const RESTORE_BATCH_SIZE = 100;
+
+// Called with an operation's output counters before the mint sees them (e.g. to journal them)
+export type CountersReservedHandler = (range: OutputCounterRange) => Promise<void>;
+
+// Cache mint keys and keysets to avoid refetching on every operation
+const mintKeysCache: Record<string, { keys: MintKeys[]; keysets: MintKeyset[] }> = {};
+
+/**
+ * Creates the CashuMint client for a URL. In development builds the test mint URL is answered
+ * in-process by the stand-in mint instead of over the network.
+ */
+const getCashuMint = (mintUrl: string): CashuMint => {
+    return isTestMintUrl(mintUrl) ? new CashuMint(mintUrl, testMintRequest) : new CashuMint(mintUrl);
+};
 
 /**
  * Initializes a CashuWallet instance for a specific mint.
  * It tries to load the mint's keys from cache or fetches them if not cached.
  */
 const initCashuWallet = async (mintUrl: string): Promise<CashuWallet> => {
-    const mint = new CashuMint(mintUrl);
-    let keys = mintKeysCache[mintUrl];
+    const mint = getCashuMint(mintUrl);
+    let cached = mintKeysCache[mintUrl];
 
-    if (!keys) {
+    if (!cached) {
         try {
-            keys = await mint.getKeys();
-            mintKeysCache[mintUrl] = keys;
+            const [activeKeys, allKeysets] = await Promise.all([mint.getKeys(), mint.getKeySets()]);
+            cached = { keys: activeKeys.keysets, keysets: allKeysets.keysets };
+            mintKeysCache[mintUrl] = cached;
             console.log(`Fetched and cached keys for mint: ${mintUrl}`);
         } catch (e) {
             console.error(`Failed to get keys for mint ${mintUrl}:`, e);
@@ -23,11 +41,47 @@ const initCashuWallet = async (mintUrl: string): Promise<CashuWallet> => {
         }
     }
 
-    // Pass the potentially cached keys to the wallet constructor
-    // Note: Check cashu-ts docs if constructor signature changes. This assumes keys can be passed.
-    // If not, the wallet might fetch them internally again, but caching helps avoid redundant fetches
-    // in rapid succession within this helper module.
-    return new CashuWallet(mint, keys);
+    // The wallet needs both: the keyset list (active flags, input fees) to pick a keyset and
+    // compute fees, and the keys to build outputs and unblind signatures. The seed makes the
+    // outputs' secrets deterministic (NUT-13) whenever an operation is given a counter.
+    let bip39seed: Uint8Array | undefined;
+    try {
+        bip39seed = await getWalletSeed();
+    } catch (e) {
+        console.error('Failed to load the wallet seed; new proofs will use random secrets:', e);
+    }
+    return new CashuWallet(mint, { keys: cached.keys, keysets: cached.keysets, bip39seed });
+};
+
+/**
+ * Reserves deterministic secret counters on the wallet's active keyset for an operation moving
+ * `amount` sats. Returns undefined (random secrets) if the wallet has no seed.
+ */
+const reserveOutputCounter = async (wallet: CashuWallet, amount: number, onReserved?: CountersReservedHandler): Promise<number | undefined> => {
+    if (!(await getWalletSeed().catch(() => null))) return undefined;
+    const { id } = await wallet.getKeys();
+    const count = outputCountBound(amount);
+    const start = await reserveCounters(id, count);
+    await onReserved?.({ keysetId: id, start, count });
+    return start;
+};
+
+/**
+ * Like reserveOutputCounter, for wallet.send: nothing is reserved when existing proofs add up to
+ * exactly the amount, since no outputs are created then (unused reservations would widen the gaps
+ * a restore has to scan across).
+ */
+const reserveSendCounter = async (
+    wallet: CashuWallet,
+    amount: number,
+    proofs: Proof[],
+    includeFees = false,
+    onReserved?: CountersReservedHandler
+): Promise<number | undefined> => {
+    const { send } = wallet.selectProofsToSend(proofs, amount, includeFees);
+    const fee = includeFees ? wallet.getFeesForProofs(send) : 0;
+    if (getProofsBalance(send) === amount + fee) return undefined;
+    return reserveOutputCounter(wallet, getProofsBalance(proofs), onReserved);
 };
 
 /**
@@ -73,7 +127,8 @@ const redeemToken = async (tokenString: string): Promise<{ proofs: Proof[], amou
         }
 
         // Redeem (receive) the token proofs - assuming receive returns Proof[]
-        const receivedProofs = await wallet.receive(tokenString);
+        const counter = await reserveOutputCounter(wallet, getProofsBalance(inputProofs));
+        const receivedProofs = await wallet.receive(tokenString, { counter });
 
         // Check if receive returned proofs directly or a structured object
         const finalProofs = Array.isArray(receivedProofs) ? receivedProofs : (receivedProofs as any).proofs;
@@ -99,7 +154,8 @@ const redeemToken = async (tokenString: string): Promise<{ proofs: Proof[], amou
 const createTokenForAmount = async (
     amountSats: number,
     availableProofs: Proof[], // Proofs from the *specific mint* we are operating on
-    mintUrl: string
+    mintUrl: string,
+    onCountersReserved?: CountersReservedHandler
 ): Promise<{ token: string; remainingProofs: Proof[] }> => {
     if (getProofsBalance(availableProofs) < amountSats) { // Use helper for clarity
         throw new Error("Insufficient funds for the specified amount.");
@@ -109,12 +165,8 @@ const createTokenForAmount = async (
         const wallet = await initCashuWallet(mintUrl);
 
         // Use wallet.send to select proofs and potentially split them via the mint
-        // Assuming the signature is send(amount, proofs)
-        const { keep: remainingProofs, send: proofsToSend } = await wallet.send(
-            amountSats,
-            availableProofs
-            // Removed preferences and options based on linter errors
-        );
+        const counter = await reserveSendCounter(wallet, amountSats, availableProofs, false, onCountersReserved);
+        const { keep: remainingProofs, send: proofsToSend } = await wallet.send(amountSats, availableProofs, { counter });
 
         // Ensure we actually got proofs to send
         if (!proofsToSend || proofsToSend.length === 0) {
@@ -139,6 +191,207 @@ const createTokenForAmount = async (
     }
 };
 
+/**
+ * Swaps proofs for a given amount locked to a P2PK public key (NUT-11), for nutzaps.
+ * Unlike createTokenForAmount this always goes through the mint, since existing proofs aren't locked.
+ */
+const createLockedProofs = async (
+    amountSats: number,
+    availableProofs: Proof[], // Proofs from the *specific mint* we are operating on
+    mintUrl: string,
+    p2pkPubkey: string,
+    onCountersReserved?: CountersReservedHandler
+): Promise<{ lockedProofs: Proof[]; remainingProofs: Proof[] }> => {
+    if (getProofsBalance(availableProofs) < amountSats) {
+        throw new Error("Insufficient funds for the specified amount.");
+    }
+
+    try {
+        const wallet = await initCashuWallet(mintUrl);
+        // Setting pubkey forces a swap, so the sent outputs carry the P2PK spending condition.
+        // Only the change is derived from the counter: locked outputs can't be deterministic.
+        const counter = await reserveOutputCounter(wallet, getProofsBalance(availableProofs), onCountersReserved);
+        const { keep: remainingProofs, send: lockedProofs } = await wallet.send(amountSats, availableProofs, { pubkey: p2pkPubkey, counter });
+        if (!lockedProofs || lockedProofs.length === 0) {
+            throw new Error("Mint did not return locked proofs.");
+        }
+        console.log(`Locked ${amountSats} sats to ${p2pkPubkey} at mint ${mintUrl}`);
+        return { lockedProofs, remainingProofs };
+    } catch (e: any) {
+        console.error(`Failed to lock ${amountSats} sats from ${mintUrl}:`, e);
+        throw new Error(`Locking proofs failed: ${e.message || e}`);
+    }
+};
+
+/**
+ * Requests a bolt11 invoice from the mint for depositing `amountSats` (NUT-04).
+ * The proofs can be minted with mintQuoteProofs once the quote's state is PAID.
+ */
+const createMintQuote = async (mintUrl: string, amountSats: number): Promise<MintQuoteResponse> => {
+    try {
+        const wallet = await initCashuWallet(mintUrl);
+        const quote = await wallet.createMintQuote(amountSats, 'Madstr.tv wallet deposit');
+        console.log(`Created mint quote ${quote.quote} for ${amountSats} sats at ${mintUrl}`);
+        return quote;
+    } catch (e: any) {
+        console.error(`Failed to create mint quote at ${mintUrl}:`, e);
+        throw new Error(`Deposit request failed: ${e.message || e}`);
+    }
+};
+
+/**
+ * Fetches the current state of a mint quote (UNPAID, PAID or ISSUED).
+ */
+const checkMintQuote = async (mintUrl: string, quoteId: string): Promise<MintQuoteResponse> => {
+    const wallet = await initCashuWallet(mintUrl);
+    return wallet.checkMintQuote(quoteId);
+};
+
+/**
+ * Mints the proofs for a paid mint quote.
+ */
+const mintQuoteProofs = async (mintUrl: string, amountSats: number, quoteId: string): Promise<Proof[]> => {
+    try {
+        const wallet = await initCashuWallet(mintUrl);
+        const counter = await reserveOutputCounter(wallet, amountSats);
+        const proofs = await wallet.mintProofs(amountSats, quoteId, { counter });
+        console.log(`Minted ${getProofsBalance(proofs)} sats for quote ${quoteId} at ${mintUrl}`);
+        return proofs;
+    } catch (e: any) {
+        console.error(`Failed to mint proofs for quote ${quoteId}:`, e);
+        throw new Error(`Minting failed: ${e.message || e}`);
+    }
+};
+
+/**
+ * Asks the mint what paying a bolt11 invoice costs (NUT-05): the amount plus a fee reserve
+ * for Lightning routing. Unused reserve is returned as change when the invoice is paid.
+ */
+const createMeltQuote = async (mintUrl: string, invoice: string): Promise<MeltQuoteResponse> => {
+    try {
+        const wallet = await initCashuWallet(mintUrl);
+        return await wallet.createMeltQuote(invoice);
+    } catch (e: any) {
+        console.error(`Failed to create melt quote at ${mintUrl}:`, e);
+        throw new Error(`Payment quote failed: ${e.message || e}`);
+    }
+};
+
+/**
+ * Pays a melt quote with proofs from one mint. Proofs covering the amount plus the fee reserve are
+ * selected (swapping for exact change first if needed) and sent to the mint.
+ * `remainingProofs` are the proofs to keep: the untouched ones, swap change and returned fee reserve.
+ * If the mint doesn't confirm the payment, the melted inputs are kept too and `error` says why: they
+ * may still be unspent (their state can be checked with the mint later); `isPending` says the mint is
+ * still trying to pay. A failed request throws: which proofs we hold is then unknown, and the send
+ * journal works it out from the counters passed to `onCountersReserved`.
+ */
+const meltProofsForQuote = async (
+    quote: MeltQuoteResponse,
+    availableProofs: Proof[], // Proofs from the *specific mint* that issued the quote
+    mintUrl: string,
+    onCountersReserved?: CountersReservedHandler
+): Promise<{ isPaid: boolean; isPending: boolean; preimage: string | null; feePaid: number; remainingProofs: Proof[]; error?: string }> => {
+    const totalNeeded = quote.amount + quote.fee_reserve;
+    if (getProofsBalance(availableProofs) < totalNeeded) {
+        throw new Error(`Insufficient funds: ${quote.amount} sats plus up to ${quote.fee_reserve} sats in fees needed.`);
+    }
+
+    const wallet = await initCashuWallet(mintUrl);
+    // includeFees makes the selection cover the mint's input fees as well
+    const sendCounter = await reserveSendCounter(wallet, totalNeeded, availableProofs, true, onCountersReserved);
+    const { keep, send } = await wallet.send(totalNeeded, availableProofs, { includeFees: true, counter: sendCounter });
+    // Blank outputs for the returned fee reserve (NUT-08) are derived too
+    const changeCounter = await reserveOutputCounter(wallet, quote.fee_reserve, onCountersReserved);
+    const { quote: meltResult, change } = await wallet.meltProofs(quote, send, { counter: changeCounter });
+    if (meltResult.state !== MeltQuoteState.PAID) {
+        console.warn(`Melt quote ${quote.quote} is ${meltResult.state}; keeping the inputs.`);
+        return {
+            isPaid: false,
+            isPending: meltResult.state === MeltQuoteState.PENDING,
+            preimage: null,
+            feePaid: 0,
+            remainingProofs: [...keep, ...send, ...change],
+            error: `Payment is ${meltResult.state.toLowerCase()}`,
+        };
+    }
+    const feePaid = getProofsBalance(send) - quote.amount - getProofsBalance(change);
+    console.log(`Paid ${quote.amount} sats (fee ${feePaid}) from mint ${mintUrl}`);
+    return { isPaid: true, isPending: false, preimage: meltResult.payment_preimage, feePaid, remainingProofs: [...keep, ...change] };
+};
+
+/**
+ * Swaps proofs at their mint for as few proofs as their total allows (one per power of two), minus
+ * the mint's input fee. Used to merge the small change that piles up from tips.
+ */
+const consolidateProofs = async (
+    mintUrl: string,
+    proofs: Proof[],
+    onCountersReserved?: CountersReservedHandler
+): Promise<{ proofs: Proof[]; fee: number }> => {
+    const wallet = await initCashuWallet(mintUrl);
+    const fee = wallet.getFeesForProofs(proofs);
+    const amount = getProofsBalance(proofs) - fee;
+    if (amount <= 0) throw new Error('Proofs are worth less than the swap fee');
+    const counter = await reserveOutputCounter(wallet, amount, onCountersReserved);
+    // Nothing is kept back: the whole amount goes to the "send" outputs, split optimally
+    const { keep, send } = await wallet.swap(amount, proofs, { counter });
+    console.log(`Consolidated ${proofs.length} proofs into ${keep.length + send.length} at ${mintUrl} (fee ${fee})`);
+    return { proofs: [...keep, ...send], fee };
+};
+
+/**
+ * Asks the mint whether each proof is UNSPENT, PENDING or SPENT (NUT-07), in the order given.
+ */
+const checkProofStates = async (mintUrl: string, proofs: Proof[]): Promise<CheckStateEnum[]> => {
+    if (proofs.length === 0) return [];
+    const wallet = await initCashuWallet(mintUrl);
+    const states: ProofState[] = await wallet.checkProofsStates(proofs);
+    return states.map(state => state.state);
+};
+
+/**
+ * Recovers the wallet's proofs at a mint from the seed (NUT-09/NUT-13): every keyset the mint has
+ * had for sats is scanned for outputs it signed, and the ones still unspent are returned. The
+ * keysets' counters are moved past what the mint has seen, so new outputs never collide with them.
+ */
+const restoreProofsFromSeed = async (mintUrl: string): Promise<Proof[]> => {
+    const wallet = await initCashuWallet(mintUrl);
+    if (!(await getWalletSeed().catch(() => null))) throw new Error('No wallet seed to restore from');
+    const restored: Proof[] = [];
+    for (const keyset of await wallet.getKeySets()) {
+        const { proofs, lastCounterWithSignature } = await wallet.batchRestore(RESTORE_GAP_LIMIT, RESTORE_BATCH_SIZE, 0, keyset.id);
+        if (lastCounterWithSignature !== undefined) await advanceCounterTo(keyset.id, lastCounterWithSignature + 1);
+        if (proofs.length === 0) continue;
+        const states: ProofState[] = await wallet.checkProofsStates(proofs);
+        const unspent = proofs.filter((_proof, index) => states[index]?.state === CheckStateEnum.UNSPENT);
+        console.log(`Restored ${unspent.length} unspent of ${proofs.length} proofs from keyset ${keyset.id} at ${mintUrl}`);
+        restored.push(...unspent);
+    }
+    return restored;
+};
+
+/**
+ * Derives one operation's outputs again from its reserved counters (NUT-09/NUT-13) and returns the
+ * ones still unspent, for a swap or melt the mint completed but whose response never arrived.
+ * `hasPending` is set when some of them are pending (e.g. in a melt the mint is still paying).
+ */
+const restoreReservedOutputs = async (mintUrl: string, ranges: OutputCounterRange[]): Promise<{ proofs: Proof[]; hasPending: boolean }> => {
+    if (ranges.length === 0) return { proofs: [], hasPending: false };
+    const wallet = await initCashuWallet(mintUrl);
+    const outputs: Proof[] = [];
+    for (const range of ranges) {
+        const { proofs } = await wallet.restore(range.start, range.count, { keysetId: range.keysetId });
+        outputs.push(...proofs);
+    }
+    if (outputs.length === 0) return { proofs: [], hasPending: false };
+    const states: ProofState[] = await wallet.checkProofsStates(outputs);
+    return {
+        proofs: outputs.filter((_proof, index) => states[index]?.state === CheckStateEnum.UNSPENT),
+        hasPending: states.some(state => state.state === CheckStateEnum.PENDING),
+    };
+};
+
 /**
  * Calculates the total satoshi value from an array of Proofs.
  */
@@ -148,8 +401,19 @@ const getProofsBalance = (proofs: Proof[]): number => {
 
 // --- Export Cashu Helper Functions ---
 export const cashuHelper = {
+    getCashuMint,
     initCashuWallet,
     redeemToken,
     createTokenForAmount,
+    createLockedProofs,
+    createMintQuote,
+    checkMintQuote,
+    mintQuoteProofs,
+    createMeltQuote,
+    meltProofsForQuote,
+    checkProofStates,
+    consolidateProofs,
+    restoreProofsFromSeed,
+    restoreReservedOutputs,
     getProofsBalance,
 }; 
\ No newline at end of file
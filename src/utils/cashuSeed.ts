@@ -0,0 +1,111 @@
+// src/utils/cashuSeed.ts
+// Deterministic proof secrets (NUT-13). The wallet keeps a BIP-39 mnemonic, created the first time a
+// wallet operation needs it, and every new output's secret and blinding factor is derived from its
+// seed, the keyset id and a counter. With the phrase written down, the proofs can be asked back from
+// the mints (NUT-09 restore) even if this device's storage is lost.
+import { generateMnemonic, mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { idb } from './idb';
+
+// Cached so concurrent first uses agree on a single new phrase
+let mnemonicPromise: Promise<string> | null = null;
+let seedPromise: Promise<Uint8Array> | null = null;
+// Counter updates are chained so two operations in this tab never get the same range
+let counterQueue: Promise<unknown> = Promise.resolve();
+
+export function normalizeMnemonic(mnemonic: string): string {
+    return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+export function isValidMnemonic(mnemonic: string): boolean {
+    return validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+}
+
+// The stored phrase, generated (12 words) and saved on first use
+export function loadWalletMnemonic(): Promise<string> {
+    if (!mnemonicPromise) {
+        mnemonicPromise = (async () => {
+            const saved = await idb.loadWalletMnemonicFromDb();
+            if (saved) return saved;
+            const mnemonic = generateMnemonic(wordlist, 128);
+            await idb.saveWalletMnemonicToDb(mnemonic);
+            console.log('cashuSeed: Generated a new wallet recovery phrase.');
+            return mnemonic;
+        })().catch(error => {
+            mnemonicPromise = null;
+            throw error;
+        });
+    }
+    return mnemonicPromise;
+}
+
+export function getWalletSeed(): Promise<Uint8Array> {
+    if (!seedPromise) {
+        seedPromise = loadWalletMnemonic()
+            .then(mnemonic => mnemonicToSeedSync(mnemonic))
+            .catch(error => {
+                seedPromise = null;
+                throw error;
+            });
+    }
+    return seedPromise;
+}
+
+// Whether losing this device's storage would lose the phrase too. A wallet that never needed one has nothing to lose.
+export async function isWalletMnemonicBackedUp(): Promise<boolean> {
+    if (!(await idb.loadWalletMnemonicFromDb())) return true;
+    return idb.loadWalletMnemonicBackedUpFromDb();
+}
+
+// Called once the phrase has been shown to the user
+export async function markWalletMnemonicBackedUp(): Promise<void> {
+    await idb.saveWalletMnemonicBackedUpToDb();
+}
+
+// Switches to another phrase (e.g. one being restored). Counters start over since they belong to the old seed.
+export async function replaceWalletMnemonic(mnemonic: string): Promise<void> {
+    const normalized = normalizeMnemonic(mnemonic);
+    if (!isValidMnemonic(normalized)) throw new Error('Not a valid recovery phrase');
+    await idb.saveWalletMnemonicToDb(normalized);
+    await idb.saveWalletMnemonicBackedUpToDb(); // The user typed it in, so they have it
+    await idb.saveKeysetCountersToDb({});
+    mnemonicPromise = Promise.resolve(normalized);
+    seedPromise = null;
+}
+
+function updateCounters<T>(update: (counters: Record<string, number>) => { counters: Record<string, number>; result: T }): Promise<T> {
+    const next = counterQueue.then(async () => {
+        const { counters, result } = update((await idb.loadKeysetCountersFromDb()) ?? {});
+        await idb.saveKeysetCountersToDb(counters);
+        return result;
+    });
+    counterQueue = next.catch(() => undefined);
+    return next;
+}
+
+// cashu-ts treats a counter of 0 as "no counter" for some outputs (e.g. a send's) and gives them
+// random secrets, so every keyset's counters start at 1
+const FIRST_COUNTER = 1;
+
+// Sets aside `count` counters for an operation and returns the first. They are written as used before
+// the mint sees them, so a crash can only leave gaps (which restore skips), never reuse a counter.
+export function reserveCounters(keysetId: string, count: number): Promise<number> {
+    return updateCounters(counters => {
+        const start = Math.max(counters[keysetId] ?? FIRST_COUNTER, FIRST_COUNTER);
+        return { counters: { ...counters, [keysetId]: start + count }, result: start };
+    });
+}
+
+// After a restore: never hand out a counter the mint has already signed for
+export function advanceCounterTo(keysetId: string, next: number): Promise<void> {
+    return updateCounters(counters => ({
+        counters: { ...counters, [keysetId]: Math.max(counters[keysetId] ?? FIRST_COUNTER, next) },
+        result: undefined,
+    }));
+}
+
+// Upper bound on the outputs an operation moving `amount` sats creates: one per power of two for the
+// amount sent and again for the change, plus a few for fee outputs
+export function outputCountBound(amount: number): number {
+    return 2 * Math.max(1, Math.ceil(Math.log2(amount + 1))) + 4;
+}
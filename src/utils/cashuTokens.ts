@@ -0,0 +1,77 @@
+// src/utils/cashuTokens.ts
+// Cashu tokens arriving in private messages. A message may carry any number of tokens, as V3
+// ('cashuA') or V4 ('cashuB') strings, bare or as 'cashu:' URIs. The deposit listener rescans recent
+// messages every time it starts, so tokens that were already redeemed (or rejected) are remembered
+// by their proofs and skipped, whichever encoding they come in.
+import { Proof } from '@cashu/cashu-ts';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { idb } from './idb';
+
+// V3 tokens are base64url (some wallets emit plain base64), V4 are base64url CBOR
+const TOKEN_PATTERN = /(?:cashu:(?:\/\/)?)?(cashu[AB][A-Za-z0-9_\-+/=]+)/g;
+const MAX_HANDLED_TOKENS = 500; // Oldest keys are dropped beyond this; the rescan only covers the last hour
+
+export interface DepositSettings {
+    sendAck: boolean; // DM the sender a receipt once their token is redeemed
+}
+
+export const DEFAULT_DEPOSIT_SETTINGS: DepositSettings = {
+    sendAck: false,
+};
+
+let handledTokensPromise: Promise<string[]> | null = null;
+
+// Every distinct token string in the text, in order of appearance
+export function extractCashuTokens(text: string): string[] {
+    const tokens = Array.from(text.matchAll(TOKEN_PATTERN), match => match[1]);
+    return Array.from(new Set(tokens));
+}
+
+// Identifies a token by its proofs, so a V3 and a V4 encoding of the same proofs share a key
+export function getTokenKey(proofs: Proof[]): string {
+    const secrets = proofs.map(p => p.secret).sort().join(',');
+    return bytesToHex(sha256(new TextEncoder().encode(secrets)));
+}
+
+function loadHandledTokens(): Promise<string[]> {
+    if (!handledTokensPromise) {
+        handledTokensPromise = idb.loadHandledTokensFromDb()
+            .then(keys => keys ?? [])
+            .catch(error => {
+                console.error('cashuTokens: Failed to load handled tokens:', error);
+                return [];
+            });
+    }
+    return handledTokensPromise;
+}
+
+export async function isTokenHandled(key: string): Promise<boolean> {
+    return (await loadHandledTokens()).includes(key);
+}
+
+export async function markTokenHandled(key: string): Promise<void> {
+    const keys = await loadHandledTokens();
+    if (keys.includes(key)) return;
+    keys.push(key);
+    keys.splice(0, Math.max(0, keys.length - MAX_HANDLED_TOKENS));
+    try {
+        await idb.saveHandledTokensToDb([...keys]);
+    } catch (error) {
+        console.error('cashuTokens: Failed to save handled tokens:', error);
+    }
+}
+
+export async function loadDepositSettings(): Promise<DepositSettings> {
+    try {
+        const saved = await idb.loadDepositSettingsFromDb();
+        return { ...DEFAULT_DEPOSIT_SETTINGS, ...saved };
+    } catch (error) {
+        console.error('cashuTokens: Failed to load deposit settings, using defaults:', error);
+        return DEFAULT_DEPOSIT_SETTINGS;
+    }
+}
+
+export async function saveDepositSettings(settings: DepositSettings): Promise<void> {
+    await idb.saveDepositSettingsToDb({ ...settings });
+}
@@ -0,0 +1,76 @@
+// src/utils/contentTypeProbe.ts
+// Resolves the Content-Type of URLs whose extension doesn't reveal the media type.
+// Results (including failures) are cached for the session so each URL is probed at most once.
+
+const PROBE_TIMEOUT_MS = 5000;
+const MAX_CONCURRENT_PROBES = 4;
+const MAX_CACHE_ENTRIES = 2000;
+
+// url -> lowercased mime type, or null when the probe failed / returned nothing useful
+const contentTypeCache = new Map<string, string | null>();
+const inFlight = new Map<string, Promise<string | null>>();
+
+// Returns the cached mime type (string), a cached failure (null), or undefined if never probed
+export function getCachedContentType(url: string): string | null | undefined {
+    return contentTypeCache.get(url);
+}
+
+function remember(url: string, mimeType: string | null) {
+    if (contentTypeCache.size >= MAX_CACHE_ENTRIES) {
+        // Drop the oldest entry (Map keeps insertion order)
+        const oldestKey = contentTypeCache.keys().next().value;
+        if (oldestKey !== undefined) contentTypeCache.delete(oldestKey);
+    }
+    contentTypeCache.set(url, mimeType);
+}
+
+async function probeUrl(url: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { method: 'HEAD', signal: controller.signal, redirect: 'follow' });
+        if (!response.ok) return null;
+        const contentType = response.headers.get('Content-Type');
+        return contentType ? contentType.split(';')[0].trim().toLowerCase() : null;
+    } catch (error) {
+        // CORS-blocked or offline hosts end up here; treat as unknown
+        console.warn(`contentTypeProbe: HEAD failed for ${url}:`, error);
+        return null;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// Probes a single URL, sharing in-flight requests and caching the result
+export function probeContentType(url: string): Promise<string | null> {
+    const cached = contentTypeCache.get(url);
+    if (cached !== undefined) return Promise.resolve(cached);
+    const pending = inFlight.get(url);
+    if (pending) return pending;
+
+    const promise = probeUrl(url).then(mimeType => {
+        remember(url, mimeType);
+        inFlight.delete(url);
+        return mimeType;
+    });
+    inFlight.set(url, promise);
+    return promise;
+}
+
+// Probes many URLs with limited concurrency.
+// Resolves with the number of URLs that turned out to have a usable Content-Type.
+export async function probeContentTypes(urls: string[]): Promise<number> {
+    const queue = Array.from(new Set(urls)).filter(url => !contentTypeCache.has(url));
+    let resolvedCount = 0;
+
+    const worker = async () => {
+        while (queue.length > 0) {
+            const url = queue.shift()!;
+            const mimeType = await probeContentType(url);
+            if (mimeType) resolvedCount++;
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_PROBES, queue.length) }, worker));
+    return resolvedCount;
+}
@@ -0,0 +1,407 @@
+// src/utils/eventStore.ts
+// Single local store for raw media events, keyed by event id.
+// Replaces the separate MediaNotesCache, PodcastNoteCache and VideoNoteCache databases:
+// we keep the original events (not processed notes) so any extractor can re-read them.
+import { openDB, IDBPDatabase, DBSchema } from 'idb';
+import { NostrEvent } from '@nostr-dev-kit/ndk';
+
+const DB_NAME = 'MadstrEventStore';
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const META_STORE = 'meta';
+
+// Legacy databases migrated (then deleted) on first open
+const LEGACY_MEDIA_NOTES_DB = { name: 'MediaNotesCache', store: 'mediaNotes' };
+const LEGACY_PODCAST_NOTES_DB = { name: 'PodcastNoteCache', store: 'podcastNotes' };
+const LEGACY_VIDEO_NOTES_DB = { name: 'VideoNoteCache', store: 'videoNotes' };
+const LEGACY_MIGRATION_KEY = 'legacyCachesMigrated';
+
+// --- Stored Record Type ---
+export interface StoredEvent {
+    id: string;
+    pubkey: string;
+    created_at: number;
+    kind: number;
+    tags: string[][];
+    content: string;
+    sig: string;
+    hashtags: string[]; // Lowercased 't' tag values, indexed for '#t' queries
+    storedAt: number;   // When this event was first written locally (ms)
+    lastShownAt?: number; // When a note from this event was last on screen (ms), used for LRU eviction
+}
+
+interface EventStoreSchema extends DBSchema {
+    [EVENTS_STORE]: {
+        key: string; // Event id
+        value: StoredEvent;
+        indexes: {
+            kind: number;
+            pubkey: string;
+            hashtags: string; // multiEntry
+            created_at: number;
+        };
+    };
+    [META_STORE]: {
+        key: string;
+        value: number; // e.g. when the legacy caches were migrated (ms)
+    };
+}
+
+// Subset of a Nostr filter supported by queryEvents
+export interface EventStoreQuery {
+    kinds?: number[];
+    authors?: string[];
+    hashtags?: string[]; // Matches events with any of these 't' tags
+    since?: number;
+    until?: number;
+    limit?: number;
+}
+
+let dbPromise: Promise<IDBPDatabase<EventStoreSchema>> | null = null;
+
+function getDb(): Promise<IDBPDatabase<EventStoreSchema>> {
+    if (!dbPromise) {
+        dbPromise = openDB<EventStoreSchema>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion, newVersion) {
+                console.log(`EventStore: Upgrading from version ${oldVersion} to ${newVersion}`);
+                if (oldVersion < 1) {
+                    const store = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+                    store.createIndex('kind', 'kind', { unique: false });
+                    store.createIndex('pubkey', 'pubkey', { unique: false });
+                    store.createIndex('hashtags', 'hashtags', { unique: false, multiEntry: true });
+                    store.createIndex('created_at', 'created_at', { unique: false });
+                    db.createObjectStore(META_STORE);
+                }
+                // Add future schema upgrades here...
+                // if (oldVersion < 2) { ... }
+            },
+            terminated() {
+                console.error('EventStore: Connection terminated unexpectedly.');
+                dbPromise = null;
+            },
+        }).then(async db => {
+            await migrateLegacyCaches(db);
+            return db;
+        });
+    }
+    return dbPromise;
+}
+
+// --- Conversion Helpers ---
+
+function toStoredEvent(event: Partial<NostrEvent> & { id?: string }, storedAt = Date.now()): StoredEvent | null {
+    if (!event.id || !event.pubkey) return null;
+    const tags = Array.isArray(event.tags) ? event.tags : [];
+    return {
+        id: event.id,
+        pubkey: event.pubkey,
+        created_at: event.created_at ?? 0,
+        kind: event.kind ?? 1,
+        tags: tags,
+        content: event.content ?? '',
+        sig: event.sig ?? '',
+        hashtags: Array.from(new Set(tags.filter(t => t[0] === 't' && t[1]).map(t => t[1].toLowerCase()))),
+        storedAt: storedAt,
+    };
+}
+
+// Strips local-only fields so callers get a plain Nostr event back
+function toNostrEvent(stored: StoredEvent): NostrEvent {
+    const { id, pubkey, created_at, kind, tags, content, sig } = stored;
+    return { id, pubkey, created_at, kind, tags, content, sig };
+}
+
+// --- Legacy Migration ---
+
+// Record shape of the old PodcastNoteCache/VideoNoteCache stores (one per media URL)
+interface LegacyMediaRecord {
+    eventId?: string;
+    posterPubkey?: string;
+    url?: string;
+    content?: unknown;
+    createdAt?: number;
+}
+
+async function readLegacyStore<T>(dbName: string, storeName: string): Promise<T[]> {
+    // indexedDB.databases() is not available everywhere; opening a missing DB creates it, so check first when possible
+    if (typeof indexedDB.databases === 'function') {
+        const existing = await indexedDB.databases();
+        if (!existing.some(info => info.name === dbName)) return [];
+    }
+    try {
+        const legacyDb = await openDB(dbName);
+        if (!legacyDb.objectStoreNames.contains(storeName)) {
+            legacyDb.close();
+            return [];
+        }
+        const records: T[] = await legacyDb.getAll(storeName);
+        legacyDb.close();
+        return records;
+    } catch (error) {
+        console.warn(`EventStore: Could not read legacy cache ${dbName}:`, error);
+        return [];
+    }
+}
+
+// Podcast/Video caches stored one record per media URL, without kind/tags/sig.
+// Rebuild a kind 1 event whose content still contains the URL so the extractor can find it again.
+function legacyMediaRecordToEvent(record: LegacyMediaRecord): StoredEvent | null {
+    if (!record?.eventId || !record.posterPubkey || !record.url) return null;
+    const content: string = typeof record.content === 'string' && record.content.includes(record.url)
+        ? record.content
+        : record.url;
+    return toStoredEvent({
+        id: record.eventId,
+        pubkey: record.posterPubkey,
+        created_at: record.createdAt,
+        kind: 1,
+        tags: [],
+        content: content,
+        sig: '',
+    });
+}
+
+async function migrateLegacyCaches(db: IDBPDatabase<EventStoreSchema>): Promise<void> {
+    if (await db.get(META_STORE, LEGACY_MIGRATION_KEY)) return;
+
+    const [mediaNotes, podcastNotes, videoNotes] = await Promise.all([
+        readLegacyStore<Partial<NostrEvent>>(LEGACY_MEDIA_NOTES_DB.name, LEGACY_MEDIA_NOTES_DB.store),
+        readLegacyStore<LegacyMediaRecord>(LEGACY_PODCAST_NOTES_DB.name, LEGACY_PODCAST_NOTES_DB.store),
+        readLegacyStore<LegacyMediaRecord>(LEGACY_VIDEO_NOTES_DB.name, LEGACY_VIDEO_NOTES_DB.store),
+    ]);
+
+    const migrated = new Map<string, StoredEvent>();
+    // MediaNotesCache stored full NostrNote objects, which carry the original event fields
+    mediaNotes.forEach(note => {
+        const stored = toStoredEvent(note);
+        if (stored) migrated.set(stored.id, stored);
+    });
+    [...podcastNotes, ...videoNotes].forEach(record => {
+        const stored = legacyMediaRecordToEvent(record);
+        if (stored && !migrated.has(stored.id)) migrated.set(stored.id, stored);
+    });
+
+    const tx = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    const eventsStore = tx.objectStore(EVENTS_STORE);
+    await Promise.all(Array.from(migrated.values()).map(async stored => {
+        if (!(await eventsStore.getKey(stored.id))) await eventsStore.put(stored);
+    }));
+    await tx.objectStore(META_STORE).put(Date.now(), LEGACY_MIGRATION_KEY);
+    await tx.done;
+    console.log(`EventStore: Migrated ${migrated.size} events from legacy caches.`);
+
+    // Old databases are no longer read by anything; free the space
+    [LEGACY_MEDIA_NOTES_DB, LEGACY_PODCAST_NOTES_DB, LEGACY_VIDEO_NOTES_DB].forEach(({ name }) => {
+        const request = indexedDB.deleteDatabase(name);
+        request.onerror = () => console.warn(`EventStore: Failed to delete legacy database ${name}.`);
+    });
+}
+
+// --- Write Operations ---
+
+// Replaceable (0, 3, 10000-19999) and addressable (30000-39999) events keep only their newest version
+function isReplaceableKind(kind: number): boolean {
+    return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+}
+
+function isAddressableKind(kind: number): boolean {
+    return kind >= 30000 && kind < 40000;
+}
+
+// Adds events that aren't stored yet. Existing records are left untouched (events are immutable).
+// Replaceable events replace older versions with the same kind/pubkey; addressable events
+// additionally match on the d tag.
+const saveEvents = async (events: Partial<NostrEvent>[]): Promise<number> => {
+    if (events.length === 0) return 0;
+    try {
+        const db = await getDb();
+        const tx = db.transaction(EVENTS_STORE, 'readwrite');
+        const store = tx.objectStore(EVENTS_STORE);
+        const now = Date.now();
+        let addedCount = 0;
+
+        for (const event of events) {
+            const stored = toStoredEvent(event, now);
+            if (!stored || (await store.getKey(stored.id))) continue;
+
+            if (isReplaceableKind(stored.kind) || isAddressableKind(stored.kind)) {
+                const dTag = stored.tags.find(t => t[0] === 'd')?.[1] ?? '';
+                const sameAuthor = await store.index('pubkey').getAll(stored.pubkey);
+                const older = sameAuthor.filter(e =>
+                    e.kind === stored.kind &&
+                    (!isAddressableKind(e.kind) || (e.tags.find(t => t[0] === 'd')?.[1] ?? '') === dTag)
+                );
+                if (older.some(e => e.created_at >= stored.created_at)) continue;
+                await Promise.all(older.map(e => store.delete(e.id)));
+            }
+
+            await store.put(stored);
+            addedCount++;
+        }
+        await tx.done;
+        return addedCount;
+    } catch (error) {
+        console.error('EventStore: Error saving events:', error);
+        return 0;
+    }
+};
+
+const deleteEvents = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    try {
+        const db = await getDb();
+        const tx = db.transaction(EVENTS_STORE, 'readwrite');
+        await Promise.all(ids.map(id => tx.store.delete(id)));
+        await tx.done;
+    } catch (error) {
+        console.error('EventStore: Error deleting events:', error);
+    }
+};
+
+// Records that notes from these events were just displayed (drives least-recently-shown eviction)
+const markEventsShown = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    try {
+        const db = await getDb();
+        const tx = db.transaction(EVENTS_STORE, 'readwrite');
+        const now = Date.now();
+        await Promise.all(ids.map(async id => {
+            const stored = await tx.store.get(id);
+            if (stored) await tx.store.put({ ...stored, lastShownAt: now });
+        }));
+        await tx.done;
+    } catch (error) {
+        console.error('EventStore: Error marking events as shown:', error);
+    }
+};
+
+const clearEvents = async (): Promise<void> => {
+    try {
+        const db = await getDb();
+        await db.clear(EVENTS_STORE);
+        console.log('EventStore: Cleared all stored events.');
+    } catch (error) {
+        console.error('EventStore: Error clearing events:', error);
+        throw error;
+    }
+};
+
+// --- Query API ---
+
+const getEvent = async (id: string): Promise<NostrEvent | undefined> => {
+    try {
+        const db = await getDb();
+        const stored = await db.get(EVENTS_STORE, id);
+        return stored ? toNostrEvent(stored) : undefined;
+    } catch (error) {
+        console.error('EventStore: Error getting event:', error);
+        return undefined;
+    }
+};
+
+// Newest events of the given kinds, walking the created_at index backwards so only `limit` records
+// (plus the skipped ones of other kinds) are read instead of the whole kind
+async function queryNewestByKind(
+    db: IDBPDatabase<EventStoreSchema>,
+    kinds: number[],
+    limit: number,
+    since?: number,
+    until?: number
+): Promise<StoredEvent[]> {
+    const kindSet = new Set(kinds);
+    const range = IDBKeyRange.bound(since ?? 0, until ?? Number.MAX_SAFE_INTEGER);
+    const matches: StoredEvent[] = [];
+    let cursor = await db.transaction(EVENTS_STORE, 'readonly').store.index('created_at').openCursor(range, 'prev');
+    while (cursor && matches.length < limit) {
+        if (kindSet.has(cursor.value.kind)) matches.push(cursor.value);
+        cursor = await cursor.continue();
+    }
+    return matches;
+}
+
+// Returns stored events matching the query, newest first.
+// Uses the most selective index available (authors, then hashtags, then kinds) and filters the rest in memory.
+// A kinds-only query with a limit reads the newest events first and stops once it has enough.
+const queryEvents = async (query: EventStoreQuery): Promise<NostrEvent[]> => {
+    const { kinds, authors, hashtags, since, until, limit } = query;
+    try {
+        const db = await getDb();
+        const hasAuthors = !!authors && authors.length > 0;
+        const hasHashtags = !!hashtags && hashtags.length > 0;
+        if (!hasAuthors && !hasHashtags && kinds && kinds.length > 0 && limit !== undefined) {
+            return (await queryNewestByKind(db, kinds, limit, since, until)).map(toNostrEvent);
+        }
+
+        const tx = db.transaction(EVENTS_STORE, 'readonly');
+        const store = tx.store;
+        let candidates: StoredEvent[];
+
+        if (authors && authors.length > 0) {
+            const results = await Promise.all(authors.map(pk => store.index('pubkey').getAll(pk)));
+            candidates = results.flat();
+        } else if (hashtags && hashtags.length > 0) {
+            const results = await Promise.all(hashtags.map(tag => store.index('hashtags').getAll(tag.toLowerCase())));
+            candidates = results.flat();
+        } else if (kinds && kinds.length > 0) {
+            const results = await Promise.all(kinds.map(kind => store.index('kind').getAll(kind)));
+            candidates = results.flat();
+        } else {
+            const range = IDBKeyRange.bound(since ?? 0, until ?? Number.MAX_SAFE_INTEGER);
+            candidates = await store.index('created_at').getAll(range);
+        }
+        await tx.done;
+
+        const kindSet = kinds && kinds.length > 0 ? new Set(kinds) : null;
+        const tagSet = hashtags && hashtags.length > 0 ? new Set(hashtags.map(t => t.toLowerCase())) : null;
+        const seen = new Set<string>();
+
+        const matches = candidates.filter(e => {
+            if (seen.has(e.id)) return false; // multiEntry lookups can return an event once per tag
+            seen.add(e.id);
+            if (kindSet && !kindSet.has(e.kind)) return false;
+            if (tagSet && !e.hashtags.some(tag => tagSet.has(tag))) return false;
+            if (since !== undefined && e.created_at < since) return false;
+            if (until !== undefined && e.created_at > until) return false;
+            return true;
+        });
+
+        matches.sort((a, b) => b.created_at - a.created_at);
+        return (limit !== undefined ? matches.slice(0, limit) : matches).map(toNostrEvent);
+    } catch (error) {
+        console.error('EventStore: Error querying events:', error);
+        return [];
+    }
+};
+
+const countEvents = async (): Promise<number> => {
+    try {
+        const db = await getDb();
+        return await db.count(EVENTS_STORE);
+    } catch (error) {
+        console.error('EventStore: Error counting events:', error);
+        return 0;
+    }
+};
+
+// Returns every stored record including local metadata (storedAt, lastShownAt), for maintenance tasks like pruning
+const getAllStoredEvents = async (): Promise<StoredEvent[]> => {
+    try {
+        const db = await getDb();
+        return await db.getAll(EVENTS_STORE);
+    } catch (error) {
+        console.error('EventStore: Error reading all events:', error);
+        return [];
+    }
+};
+
+// Export the store API
+export const eventStore = {
+    saveEvents,
+    deleteEvents,
+    markEventsShown,
+    clearEvents,
+    getEvent,
+    queryEvents,
+    countEvents,
+    getAllStoredEvents,
+};
@@ -1,5 +1,6 @@
 import { NDKFilter, NDKKind } from '@nostr-dev-kit/ndk';
 import { nip19 } from 'nostr-tools';
+import { NIP71_VIDEO_KINDS } from './videoRenditions';
 
 export type MediaType = 'podcast' | 'video' | 'image';
 
@@ -7,8 +8,8 @@ export type MediaType = 'podcast' | 'video' | 'image';
 export function getKindsForMediaType(mediaType: MediaType): number[] {
     switch (mediaType) {
         case 'podcast': return [34235, 31234, NDKKind.Text]; // Podcast Episode, Audio Track, Text
-        case 'video': return [NDKKind.Video, NDKKind.Text]; // 31337, 1
-        case 'image': return [NDKKind.Image, NDKKind.Text]; // 31338, 1
+        case 'video': return [...NIP71_VIDEO_KINDS, NDKKind.Text]; // 21, 22, 34235, 34236, 1
+        case 'image': return [NDKKind.Image, NDKKind.Text]; // 20, 1
         default: return [NDKKind.Text];
     }
 }
@@ -13,7 +13,7 @@ interface AppDbSchema extends DBSchema {
   };
   nsec: {
     key: string; // Use a fixed key like 'currentUserNsec'
-    value: string; // The encrypted or plain nsec string
+    value: string; // NIP-49 ncryptsec; older versions stored the plain nsec
   };
   nip46Session: {
     key: string; // e.g., 'currentNip46Session'
@@ -23,6 +23,15 @@ interface AppDbSchema extends DBSchema {
     key: string; // e.g., 'userFollowedTags'
     value: string[]; // Array of followed tags
   };
+  sendJournal: {
+    key: string; // Entry id
+    value: SendJournalEntry;
+  };
+  walletHistory: {
+    key: string; // Entry id
+    value: WalletHistoryEntry;
+    indexes: { createdAt: number; profileCreatedAt: [string, number] };
+  };
 }
 
 // --- Stored Data Type Definitions ---
@@ -37,11 +46,77 @@ export interface StoredNip46Data {
   relay?: string; // Optional relay hint
 }
 
+// A Cashu send in progress, written before the mint is asked to swap and advanced at each step,
+// so a send interrupted by a crash can be finished or rolled back on the next start
+export type SendJournalStep = 'reserved' | 'token-created' | 'published';
+
+// Deterministic (NUT-13) output counters set aside for one mint operation
+export interface OutputCounterRange {
+  keysetId: string;
+  start: number;
+  count: number;
+}
+
+export interface SendJournalEntry {
+  id: string;
+  kind: 'token' | 'nutzap' | 'swap' | 'melt'; // DM'd token, proofs locked to the recipient, an internal swap or a Lightning payment
+  mintUrl: string;
+  amount: number;
+  recipientPubkey?: string; // Not set for internal swaps
+  step: SendJournalStep;
+  reservedProofs: Proof[]; // Inputs handed to the mint for the swap
+  outputCounters?: OutputCounterRange[]; // The operation's outputs, to restore them if a response is lost (a melt has two: swap and change)
+  sendProofs?: Proof[];    // What the recipient gets (from 'token-created')
+  keepProofs?: Proof[];    // Change and unselected inputs that stay ours (from 'token-created')
+  token?: string;          // Encoded token, for 'token' sends
+  nutzap?: { comment?: string; eventId?: string; eventKind?: number }; // What a 'nutzap' send is published with
+  profileId?: string;      // Set on save; entries from before profiles belong to the default one
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One line of the wallet's transaction history
+export type WalletHistoryType = 'deposit' | 'tip' | 'mint' | 'melt';
+export type WalletHistoryStatus = 'completed' | 'pending' | 'failed';
+
+export interface WalletHistoryEntry {
+  id: string;
+  type: WalletHistoryType; // deposit: token received, tip: token/nutzap sent, mint/melt: Lightning in/out
+  amount: number;          // Sats
+  fee?: number;            // Sats paid on top (melts)
+  mintUrl: string;
+  counterpartyNpub?: string; // Sender of a deposit, recipient of a tip
+  noteId?: string;         // Note that was tipped
+  eventId?: string;        // DM or nutzap event carrying the token
+  status: WalletHistoryStatus;
+  memo?: string;           // e.g. the Lightning destination, or why it failed
+  profileId?: string;      // Set on save, see StoredProfile
+  createdAt: number;       // ms
+}
+
+// An identity saved on the TV. Each profile has its own credentials, followed tags and wallet
+// (mints, proofs, history...), stored under its id; see profileKey below.
+export type ProfileKind = 'nsec' | 'nip46' | 'npub'; // 'npub': read-only, watched without a signer
+
+export interface StoredProfile {
+  id: string;
+  kind: ProfileKind;
+  pubkey: string; // Hex
+  addedAt: number;
+  loggedOut?: boolean; // Credentials cleared; the wallet stays here until this account logs in again
+}
+
 // --- Database Initialization and Upgrade Logic ---
 const DB_NAME = 'MadTripsDB';
-const DB_VERSION = 4; // Increment version number to reflect schema change
+const DB_VERSION = 7; // Increment version number to reflect schema change
+
+// Data from before profiles existed belongs to this profile, whose keys are unprefixed
+export const DEFAULT_PROFILE_ID = 'default';
+const PROFILE_KEY_PREFIX = 'profile:';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
 
 let dbPromise: Promise<IDBPDatabase<AppDbSchema>> | null = null;
+let activeProfileId = DEFAULT_PROFILE_ID; // Read from settings whenever the DB is opened
 
 const getDb = (): Promise<IDBPDatabase<AppDbSchema>> => {
   if (!dbPromise) {
@@ -85,8 +160,35 @@ const getDb = (): Promise<IDBPDatabase<AppDbSchema>> => {
              }
         }
 
+        // Cashu send journal
+        if (oldVersion < 5) {
+             console.log("Creating 'sendJournal' object store.");
+             db.createObjectStore('sendJournal', { keyPath: 'id' });
+        }
+
+        // Wallet transaction history
+        if (oldVersion < 6) {
+             console.log("Creating 'walletHistory' object store.");
+             const historyStore = db.createObjectStore('walletHistory', { keyPath: 'id' });
+             historyStore.createIndex('createdAt', 'createdAt');
+        }
+
+        // Profiles: history is paged per profile, existing entries belong to the default one
+        if (oldVersion >= 6 && oldVersion < 7) {
+             console.log("Assigning existing 'walletHistory' entries to the default profile.");
+             const historyStore = transaction.objectStore('walletHistory');
+             historyStore.openCursor().then(async function assignProfile(cursor): Promise<void> {
+                 if (!cursor) return;
+                 if (!cursor.value.profileId) await cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+                 return assignProfile(await cursor.continue());
+             });
+        }
+        if (oldVersion < 7) {
+             transaction.objectStore('walletHistory').createIndex('profileCreatedAt', ['profileId', 'createdAt']);
+        }
+
         // Add other future upgrades here...
-        // if (oldVersion < 5) { ... }
+        // if (oldVersion < 8) { ... }
       },
       blocked() {
         console.error('IDB blocked: Another tab might be holding the database open.');
@@ -99,11 +201,35 @@ const getDb = (): Promise<IDBPDatabase<AppDbSchema>> => {
         console.error('IDB terminated: The browser unexpectedly terminated the connection.');
         dbPromise = null; // Reset promise to allow re-initialization
       },
+    }).then(async db => {
+      const storedProfileId = await db.get('settings', ACTIVE_PROFILE_KEY);
+      activeProfileId = typeof storedProfileId === 'string' ? storedProfileId : DEFAULT_PROFILE_ID;
+      console.log(`IndexedDB: Active profile is '${activeProfileId}'.`);
+      return db;
     });
   }
   return dbPromise;
 };
 
+// Key of a per-profile record, for the active profile. Only valid once the DB is open, which is
+// when the active profile is known; see profileKey.
+const activeProfileKey = (key: string): string =>
+  activeProfileId === DEFAULT_PROFILE_ID ? key : `${PROFILE_KEY_PREFIX}${activeProfileId}|${key}`;
+
+const profileKey = async (key: string): Promise<string> => {
+  await getDb();
+  return activeProfileKey(key);
+};
+
+// Inverse of profileKey: the plain key, or null if the record belongs to another profile
+const keyInActiveProfile = (storedKey: string): string | null => {
+  if (activeProfileId === DEFAULT_PROFILE_ID) {
+    return storedKey.startsWith(PROFILE_KEY_PREFIX) ? null : storedKey;
+  }
+  const prefix = `${PROFILE_KEY_PREFIX}${activeProfileId}|`;
+  return storedKey.startsWith(prefix) ? storedKey.slice(prefix.length) : null;
+};
+
 // --- Generic CRUD Operations (Adjusted for stricter types) ---
 
 const get = async <StoreName extends keyof AppDbSchema>(
@@ -186,9 +312,12 @@ const deleteDbEntry = async <StoreName extends keyof AppDbSchema>(
 // Settings
 const getSetting = (key: string) => get('settings', key);
 const putSetting = (key: string, value: any) => put('settings', value, key);
+// Settings that belong to the active profile (wallet, mints...)
+const getProfileSetting = async (key: string) => get('settings', await profileKey(key));
+const putProfileSetting = async (key: string, value: any) => put('settings', value, await profileKey(key));
 
 // Cashu Proofs
-const getProofs = (mintUrl: string): Promise<Proof[] | undefined> => get('cashuProofs', mintUrl);
+const getProofs = async (mintUrl: string): Promise<Proof[] | undefined> => get('cashuProofs', await profileKey(mintUrl));
 
 const saveProofs = async (proofsToSave: StoredProof[]): Promise<void> => {
     if (!proofsToSave || proofsToSave.length === 0) {
@@ -217,12 +346,13 @@ const saveProofs = async (proofsToSave: StoredProof[]): Promise<void> => {
     const putPromises: Promise<IDBValidKey>[] = [];
     for (const mintUrl in proofsByMint) {
         if (!mintUrl) continue; // Should not happen due to check above, but belt-and-suspenders
-        const existingProofs = (await store.get(mintUrl)) || [];
+        const storeKey = activeProfileKey(mintUrl);
+        const existingProofs = (await store.get(storeKey)) || [];
         const newProofsForMint = proofsByMint[mintUrl];
         // Simple merge: Add new proofs to existing ones. Consider deduplication if needed.
         const combinedProofs = [...existingProofs, ...newProofsForMint];
         console.log(`saveProofs: Saving ${newProofsForMint.length} new proofs (total ${combinedProofs.length}) for mint ${mintUrl}`);
-        putPromises.push(store.put(combinedProofs, mintUrl));
+        putPromises.push(store.put(combinedProofs, storeKey));
     }
 
     await Promise.all(putPromises); // Wait for all puts in the transaction
@@ -239,9 +369,9 @@ const getAllProofs = async (): Promise<StoredProof[]> => {
   const results: StoredProof[] = [];
 
   while (cursor) {
-    const mintUrl = cursor.key as string;
+    const mintUrl = keyInActiveProfile(cursor.key as string);
     const proofsFromMint: Proof[] = cursor.value; // Value is Proof[]
-    if (proofsFromMint && Array.isArray(proofsFromMint)) {
+    if (mintUrl && proofsFromMint && Array.isArray(proofsFromMint)) {
         proofsFromMint.forEach(proof => {
              // Add the mintUrl to each proof before adding to results
              results.push({ ...proof, mintUrl });
@@ -271,11 +401,12 @@ const deleteProofsBySecret = async (secretsToDelete: string[]): Promise<void> =>
     const secretsSet = new Set(secretsToDelete); // For efficient lookup
 
     while (cursor) {
-        const mintUrl = cursor.key as string;
+        const storeKey = cursor.key as string;
+        const mintUrl = keyInActiveProfile(storeKey);
         let proofsFromMint: Proof[] = cursor.value;
         const originalLength = proofsFromMint.length;
 
-        if (proofsFromMint && Array.isArray(proofsFromMint)) {
+        if (mintUrl && proofsFromMint && Array.isArray(proofsFromMint)) {
             proofsFromMint = proofsFromMint.filter(proof => !secretsSet.has(proof.secret));
             const removedCount = originalLength - proofsFromMint.length;
 
@@ -284,10 +415,10 @@ const deleteProofsBySecret = async (secretsToDelete: string[]): Promise<void> =>
                  if (proofsFromMint.length === 0) {
                      // If no proofs left for this mint, delete the entry
                      console.log(`deleteProofsBySecret: Deleting entry for mint ${mintUrl} as it's now empty.`);
-                     deletePromises.push(store.delete(mintUrl));
+                     deletePromises.push(store.delete(storeKey));
                  } else {
                      // Otherwise, update the entry with the filtered proofs
-                     putPromises.push(store.put(proofsFromMint, mintUrl));
+                     putPromises.push(store.put(proofsFromMint, storeKey));
                  }
             }
         }
@@ -300,49 +431,219 @@ const deleteProofsBySecret = async (secretsToDelete: string[]): Promise<void> =>
     console.log(`deleteProofsBySecret: Finished processing ${secretsToDelete.length} secrets.`);
 };
 
-const deleteProofs = (mintUrl: string) => deleteDbEntry('cashuProofs', mintUrl);
+const deleteProofs = async (mintUrl: string) => deleteDbEntry('cashuProofs', await profileKey(mintUrl));
+
+// Cashu Send Journal
+const getSendJournal = async (): Promise<SendJournalEntry[]> => {
+    const db = await getDb();
+    const entries = await db.getAll('sendJournal');
+    return entries.filter(entry => (entry.profileId ?? DEFAULT_PROFILE_ID) === activeProfileId);
+};
+const saveSendJournalEntry = async (entry: SendJournalEntry) => {
+    await getDb();
+    return put('sendJournal', { ...entry, profileId: entry.profileId ?? activeProfileId });
+};
+const deleteSendJournalEntry = (id: string) => deleteDbEntry('sendJournal', id);
+
+// Wallet History
+// The active profile's entries, by creation time
+const profileHistoryRange = () => IDBKeyRange.bound([activeProfileId, -Infinity], [activeProfileId, Infinity]);
+const addWalletHistoryEntry = async (entry: WalletHistoryEntry) => {
+    await getDb();
+    return put('walletHistory', { ...entry, profileId: entry.profileId ?? activeProfileId });
+};
+const countWalletHistory = async (): Promise<number> => {
+    const db = await getDb();
+    return db.countFromIndex('walletHistory', 'profileCreatedAt', profileHistoryRange());
+};
+// Newest first; `offset` entries are skipped
+const getWalletHistoryPage = async (offset: number, limit: number): Promise<WalletHistoryEntry[]> => {
+    const db = await getDb();
+    const tx = db.transaction('walletHistory', 'readonly');
+    let cursor = await tx.store.index('profileCreatedAt').openCursor(profileHistoryRange(), 'prev');
+    if (cursor && offset > 0) cursor = await cursor.advance(offset);
+    const results: WalletHistoryEntry[] = [];
+    while (cursor && results.length < limit) {
+        results.push(cursor.value);
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+    return results;
+};
+const getAllWalletHistory = async (): Promise<WalletHistoryEntry[]> => {
+    const db = await getDb();
+    return (await db.getAllFromIndex('walletHistory', 'profileCreatedAt', profileHistoryRange())).reverse();
+};
 
 // Nsec Storage
 const NSEC_KEY = 'currentUserNsec';
 const loadNsecFromDb = async (): Promise<string | null> => {
-    const result = await get('nsec', NSEC_KEY);
+    const result = await get('nsec', await profileKey(NSEC_KEY));
     return typeof result === 'string' ? result : null;
 };
-const saveNsecToDb = (nsec: string) => put('nsec', nsec, NSEC_KEY);
-const clearNsecFromDb = () => deleteDbEntry('nsec', NSEC_KEY);
+const saveNsecToDb = async (nsec: string) => put('nsec', nsec, await profileKey(NSEC_KEY));
+const clearNsecFromDb = async () => deleteDbEntry('nsec', await profileKey(NSEC_KEY));
 
 // NIP-46 Session Storage
 const NIP46_KEY = 'currentNip46Session';
 const loadNip46DataFromDb = async (): Promise<StoredNip46Data | null> => {
-    const result = await get('nip46Session', NIP46_KEY);
+    const result = await get('nip46Session', await profileKey(NIP46_KEY));
     // Basic type check
     if (result && typeof result.remoteNpub === 'string' && typeof result.token === 'string') {
         return result as StoredNip46Data;
     }
     return null;
 };
-const saveNip46DataToDb = (data: Omit<StoredNip46Data, 'id'>) => {
-    const storedData: StoredNip46Data = { ...data, id: NIP46_KEY };
+const saveNip46DataToDb = async (data: Omit<StoredNip46Data, 'id'>) => {
+    const storedData: StoredNip46Data = { ...data, id: await profileKey(NIP46_KEY) };
     return put('nip46Session', storedData);
 };
-const clearNip46DataFromDb = () => deleteDbEntry('nip46Session', NIP46_KEY);
+const clearNip46DataFromDb = async () => deleteDbEntry('nip46Session', await profileKey(NIP46_KEY));
+
+// Read-only Session Storage
+const WATCHED_NPUB_KEY = 'watchedNpub'; // Whose follows are shown when there's no signer
+const loadWatchedNpubFromDb = async (): Promise<string | null> => {
+    const result = await getProfileSetting(WATCHED_NPUB_KEY);
+    return typeof result === 'string' ? result : null;
+};
+const saveWatchedNpubToDb = (npub: string) => putProfileSetting(WATCHED_NPUB_KEY, npub);
+const clearWatchedNpubFromDb = async () => deleteDbEntry('settings', await profileKey(WATCHED_NPUB_KEY));
 
 // Followed Tags Storage
 const FOLLOWED_TAGS_KEY = 'userFollowedTags';
 const loadFollowedTagsFromDb = async (): Promise<string[] | null> => {
-    const result = await get('followedTags', FOLLOWED_TAGS_KEY);
+    const result = await get('followedTags', await profileKey(FOLLOWED_TAGS_KEY));
     return Array.isArray(result) ? result : null;
 };
-const saveFollowedTagsToDb = (tags: string[]) => put('followedTags', tags, FOLLOWED_TAGS_KEY);
-const clearFollowedTagsFromDb = () => deleteDbEntry('followedTags', FOLLOWED_TAGS_KEY);
+const saveFollowedTagsToDb = async (tags: string[]) => put('followedTags', tags, await profileKey(FOLLOWED_TAGS_KEY));
+const clearFollowedTagsFromDb = async () => deleteDbEntry('followedTags', await profileKey(FOLLOWED_TAGS_KEY));
 
 // --- Specific Mint URL Helpers ---
 const MINT_URL_KEY = 'configuredMintUrl';
 const loadMintUrlFromDb = async (): Promise<string | null> => {
-    const result = await getSetting(MINT_URL_KEY);
+    const result = await getProfileSetting(MINT_URL_KEY);
     return typeof result === 'string' ? result : null; // Return null if not set or not a string
 };
-const saveMintUrlToDb = (url: string | null) => putSetting(MINT_URL_KEY, url);
+const saveMintUrlToDb = (url: string | null) => putProfileSetting(MINT_URL_KEY, url);
+const TRUSTED_MINTS_KEY = 'trustedMints'; // Ordered by spending priority
+const loadTrustedMintsFromDb = async (): Promise<string[] | null> => {
+    const result = await getProfileSetting(TRUSTED_MINTS_KEY);
+    return Array.isArray(result) ? result : null;
+};
+const saveTrustedMintsToDb = (mints: string[]) => putProfileSetting(TRUSTED_MINTS_KEY, mints);
+
+// --- NIP-60 Wallet Sync Helpers ---
+const NIP60_SYNC_STATE_KEY = 'nip60SyncState';
+const loadNip60SyncStateFromDb = async (): Promise<Record<string, unknown> | null> => {
+    const result = await getProfileSetting(NIP60_SYNC_STATE_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveNip60SyncStateToDb = (state: object) => putProfileSetting(NIP60_SYNC_STATE_KEY, state);
+const NIP60_WALLET_PRIVKEY_KEY = 'nip60WalletPrivkey'; // P2PK key of the wallet (not the nostr identity key)
+const loadWalletPrivkeyFromDb = async (): Promise<string | null> => {
+    const result = await getProfileSetting(NIP60_WALLET_PRIVKEY_KEY);
+    return typeof result === 'string' ? result : null;
+};
+const saveWalletPrivkeyToDb = (privkey: string) => putProfileSetting(NIP60_WALLET_PRIVKEY_KEY, privkey);
+
+// --- Cashu Seed (NUT-13) Helpers ---
+const WALLET_MNEMONIC_KEY = 'cashuWalletMnemonic'; // BIP-39 phrase the proof secrets are derived from
+const loadWalletMnemonicFromDb = async (): Promise<string | null> => {
+    const result = await getProfileSetting(WALLET_MNEMONIC_KEY);
+    return typeof result === 'string' ? result : null;
+};
+const saveWalletMnemonicToDb = (mnemonic: string) => putProfileSetting(WALLET_MNEMONIC_KEY, mnemonic);
+const WALLET_MNEMONIC_BACKED_UP_KEY = 'cashuWalletMnemonicBackedUp'; // The user has seen or typed the phrase
+const loadWalletMnemonicBackedUpFromDb = async (): Promise<boolean> => (await getProfileSetting(WALLET_MNEMONIC_BACKED_UP_KEY)) === true;
+const saveWalletMnemonicBackedUpToDb = () => putProfileSetting(WALLET_MNEMONIC_BACKED_UP_KEY, true);
+const KEYSET_COUNTERS_KEY = 'cashuKeysetCounters'; // Next unused derivation counter per keyset id
+const loadKeysetCountersFromDb = async (): Promise<Record<string, number> | null> => {
+    const result = await getProfileSetting(KEYSET_COUNTERS_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveKeysetCountersToDb = (counters: Record<string, number>) => putProfileSetting(KEYSET_COUNTERS_KEY, counters);
+
+// --- Cashu Deposit Helpers ---
+const HANDLED_TOKENS_KEY = 'cashuHandledTokens'; // Keys of deposit tokens already redeemed or rejected
+const loadHandledTokensFromDb = async (): Promise<string[] | null> => {
+    const result = await getProfileSetting(HANDLED_TOKENS_KEY);
+    return Array.isArray(result) ? result : null;
+};
+const saveHandledTokensToDb = (keys: string[]) => putProfileSetting(HANDLED_TOKENS_KEY, keys);
+const DEPOSIT_SETTINGS_KEY = 'cashuDepositSettings';
+const loadDepositSettingsFromDb = async (): Promise<Record<string, unknown> | null> => {
+    const result = await getProfileSetting(DEPOSIT_SETTINGS_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveDepositSettingsToDb = (settings: object) => putProfileSetting(DEPOSIT_SETTINGS_KEY, settings);
+const PAYMENT_REQUEST_KEY = 'cashuPaymentRequest'; // Active NUT-18 request shown as the tip jar QR
+const loadPaymentRequestFromDb = async (): Promise<Record<string, unknown> | null> => {
+    const result = await getProfileSetting(PAYMENT_REQUEST_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const savePaymentRequestToDb = (request: object | null) => putProfileSetting(PAYMENT_REQUEST_KEY, request);
+
+// --- Profile Helpers ---
+const PROFILES_KEY = 'profiles';
+const loadProfilesFromDb = async (): Promise<StoredProfile[]> => {
+    const result = await getSetting(PROFILES_KEY);
+    return Array.isArray(result) ? result : [];
+};
+const saveProfilesToDb = (profiles: StoredProfile[]) => putSetting(PROFILES_KEY, profiles);
+const getActiveProfileId = async (): Promise<string> => {
+    await getDb();
+    return activeProfileId;
+};
+// Takes effect the next time the DB is opened, i.e. after a reload
+const saveActiveProfileIdToDb = (id: string) => putSetting(ACTIVE_PROFILE_KEY, id);
+
+// --- Outbox Relay Settings Helpers ---
+const OUTBOX_SETTINGS_KEY = 'outboxRelaySettings';
+const loadOutboxSettingsFromDb = async (): Promise<Record<string, number> | null> => {
+    const result = await getSetting(OUTBOX_SETTINGS_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveOutboxSettingsToDb = (settings: Record<string, number>) => putSetting(OUTBOX_SETTINGS_KEY, settings);
+
+// --- Blossom Server Helpers ---
+const BLOSSOM_SERVERS_KEY = 'blossomFallbackServers';
+const loadBlossomServersFromDb = async (): Promise<string[] | null> => {
+    const result = await getSetting(BLOSSOM_SERVERS_KEY);
+    return Array.isArray(result) ? result : null;
+};
+const saveBlossomServersToDb = (servers: string[]) => putSetting(BLOSSOM_SERVERS_KEY, servers);
+
+// --- Relay List Helpers ---
+const RELAY_CONFIGS_KEY = 'relayConfigs';
+const loadRelayConfigsFromDb = async (): Promise<unknown[] | null> => {
+    const result = await getSetting(RELAY_CONFIGS_KEY);
+    return Array.isArray(result) ? result : null;
+};
+const saveRelayConfigsToDb = (configs: object[]) => putSetting(RELAY_CONFIGS_KEY, configs);
+
+// --- Private Message Protocol Helpers ---
+const DM_PROTOCOL_SETTINGS_KEY = 'dmProtocolSettings';
+const loadDmProtocolSettingsFromDb = async (): Promise<Record<string, unknown> | null> => {
+    const result = await getSetting(DM_PROTOCOL_SETTINGS_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveDmProtocolSettingsToDb = (settings: object) => putSetting(DM_PROTOCOL_SETTINGS_KEY, settings);
+
+// --- Tip Split Helpers ---
+const TIP_SPLIT_SETTINGS_KEY = 'tipSplitSettings';
+const loadTipSplitSettingsFromDb = async (): Promise<Record<string, unknown> | null> => {
+    const result = await getSetting(TIP_SPLIT_SETTINGS_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveTipSplitSettingsToDb = (settings: object) => putSetting(TIP_SPLIT_SETTINGS_KEY, settings);
+
+// --- Media Cache Retention Helpers ---
+const RETENTION_POLICY_KEY = 'mediaRetentionPolicy';
+const loadRetentionPolicyFromDb = async (): Promise<Record<string, number> | null> => {
+    const result = await getSetting(RETENTION_POLICY_KEY);
+    return result && typeof result === 'object' ? result : null;
+};
+const saveRetentionPolicyToDb = (policy: Record<string, number>) => putSetting(RETENTION_POLICY_KEY, policy);
 
 // Export the specific helpers
 export const idb = {
@@ -354,9 +655,60 @@ export const idb = {
     getAllProofs,      // Gets all proofs across mints as StoredProof[]
     deleteProofs,      // Deletes all proofs for a specific mint
     deleteProofsBySecret, // Deletes specific proofs by secret across all mints
+    getSendJournal,       // Unfinished sends, see SendJournalEntry
+    saveSendJournalEntry,
+    deleteSendJournalEntry,
+    addWalletHistoryEntry, // Transaction history, see WalletHistoryEntry
+    countWalletHistory,
+    getWalletHistoryPage,  // Newest first
+    getAllWalletHistory,   // Newest first, for export
     // Mint URL specific
     loadMintUrlFromDb,
     saveMintUrlToDb,
+    loadTrustedMintsFromDb,
+    saveTrustedMintsToDb,
+    // NIP-60 wallet sync specific
+    loadNip60SyncStateFromDb,
+    saveNip60SyncStateToDb,
+    loadWalletPrivkeyFromDb,
+    saveWalletPrivkeyToDb,
+    // Cashu seed specific
+    loadWalletMnemonicFromDb,
+    saveWalletMnemonicToDb,
+    loadWalletMnemonicBackedUpFromDb,
+    saveWalletMnemonicBackedUpToDb,
+    loadKeysetCountersFromDb,
+    saveKeysetCountersToDb,
+    // Cashu deposit specific
+    loadHandledTokensFromDb,
+    saveHandledTokensToDb,
+    loadDepositSettingsFromDb,
+    saveDepositSettingsToDb,
+    loadPaymentRequestFromDb,
+    savePaymentRequestToDb,
+    // Profile specific
+    loadProfilesFromDb,
+    saveProfilesToDb,
+    getActiveProfileId,
+    saveActiveProfileIdToDb,
+    // Outbox specific
+    loadOutboxSettingsFromDb,
+    saveOutboxSettingsToDb,
+    // Relay list specific
+    loadRelayConfigsFromDb,
+    saveRelayConfigsToDb,
+    // Private message specific
+    loadDmProtocolSettingsFromDb,
+    saveDmProtocolSettingsToDb,
+    // Tip split specific
+    loadTipSplitSettingsFromDb,
+    saveTipSplitSettingsToDb,
+    // Blossom specific
+    loadBlossomServersFromDb,
+    saveBlossomServersToDb,
+    // Media cache specific
+    loadRetentionPolicyFromDb,
+    saveRetentionPolicyToDb,
     // Auth specific
     loadNsecFromDb,
     saveNsecToDb,
@@ -364,6 +716,9 @@ export const idb = {
     loadNip46DataFromDb,
     saveNip46DataToDb,
     clearNip46DataFromDb,
+    loadWatchedNpubFromDb,
+    saveWatchedNpubToDb,
+    clearWatchedNpubFromDb,
     // Tags specific
     loadFollowedTagsFromDb,
     saveFollowedTagsToDb,
@@ -0,0 +1,92 @@
+// src/utils/imeta.ts
+// Helpers for NIP-92 `imeta` tags (inline media metadata).
+// Each imeta tag looks like: ["imeta", "url https://...", "m image/jpeg", "dim 1080x1920", "x <sha256>", ...]
+
+// Parsed representation of a single imeta tag
+export interface ImetaEntry {
+    url: string;
+    mimeType?: string;     // 'm'
+    width?: number;        // from 'dim' (WIDTHxHEIGHT)
+    height?: number;
+    blurhash?: string;
+    sha256?: string;       // 'x' - hash of the served file
+    originalSha256?: string; // 'ox' - hash of the original upload
+    size?: number;         // bytes
+    alt?: string;
+    summary?: string;
+    thumb?: string;
+    images?: string[];     // 'image' entries (preview images, may repeat)
+    fallbackUrls: string[]; // 'fallback' entries (may repeat)
+    extra: Record<string, string[]>; // Any other keys, kept for kind-specific parsers
+}
+
+const SHA256_REGEX = /^[0-9a-f]{64}$/i;
+
+// Parses "1920x1080" into numbers, ignoring malformed values
+export function parseDimensions(dim: string | undefined): { width?: number; height?: number } {
+    if (!dim) return {};
+    const match = dim.trim().match(/^(\d+)x(\d+)$/i);
+    if (!match) return {};
+    return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+}
+
+// Parses a single imeta tag. Returns null if the tag is not an imeta tag or has no url.
+export function parseImetaTag(tag: string[]): ImetaEntry | null {
+    if (tag[0] !== 'imeta') return null;
+
+    const values: Record<string, string[]> = {};
+    for (const part of tag.slice(1)) {
+        if (typeof part !== 'string') continue;
+        const spaceIndex = part.indexOf(' ');
+        if (spaceIndex <= 0) continue; // Needs "key value"
+        const key = part.substring(0, spaceIndex);
+        const value = part.substring(spaceIndex + 1).trim();
+        if (!value) continue;
+        (values[key] ??= []).push(value);
+    }
+
+    const url = values.url?.[0];
+    if (!url) return null;
+
+    const { width, height } = parseDimensions(values.dim?.[0]);
+    const sha256 = values.x?.[0];
+    const originalSha256 = values.ox?.[0];
+    const size = values.size?.[0] ? parseInt(values.size[0], 10) : undefined;
+
+    const known = new Set(['url', 'm', 'dim', 'blurhash', 'x', 'ox', 'size', 'alt', 'summary', 'thumb', 'image', 'fallback']);
+    const extra: Record<string, string[]> = {};
+    Object.entries(values).forEach(([key, list]) => {
+        if (!known.has(key)) extra[key] = list;
+    });
+
+    return {
+        url,
+        mimeType: values.m?.[0]?.toLowerCase(),
+        width,
+        height,
+        blurhash: values.blurhash?.[0],
+        sha256: sha256 && SHA256_REGEX.test(sha256) ? sha256.toLowerCase() : undefined,
+        originalSha256: originalSha256 && SHA256_REGEX.test(originalSha256) ? originalSha256.toLowerCase() : undefined,
+        size: size !== undefined && !isNaN(size) ? size : undefined,
+        alt: values.alt?.[0],
+        summary: values.summary?.[0],
+        thumb: values.thumb?.[0],
+        images: values.image,
+        fallbackUrls: values.fallback ?? [],
+        extra,
+    };
+}
+
+// Parses all imeta tags on an event, skipping malformed ones and duplicate urls
+export function parseImetaTags(tags: string[][]): ImetaEntry[] {
+    const seenUrls = new Set<string>();
+    const entries: ImetaEntry[] = [];
+    for (const tag of tags) {
+        const entry = parseImetaTag(tag);
+        if (entry && !seenUrls.has(entry.url)) {
+            seenUrls.add(entry.url);
+            entries.push(entry);
+        }
+    }
+    return entries;
+}
@@ -0,0 +1,85 @@
+// src/utils/lightning.ts
+// Lightning payment destinations for wallet withdrawals: bolt11 invoices (possibly as lightning: URIs)
+// and lightning addresses, which are resolved to an invoice through LNURL-pay (LUD-06/LUD-16).
+const LNURL_TIMEOUT_MS = 10000;
+
+// BTC multipliers of the bolt11 amount, expressed in sats
+const BOLT11_MULTIPLIERS: Record<string, number> = { m: 1e5, u: 1e2, n: 1e-1, p: 1e-4 };
+
+export function normalizeLightningDestination(input: string): string {
+    return input.trim().replace(/^lightning:/i, '');
+}
+
+export function isLightningAddress(input: string): boolean {
+    return /^[a-z0-9._+-]+@[a-z0-9.-]+\.[a-z]{2,}$/i.test(normalizeLightningDestination(input));
+}
+
+export function isBolt11Invoice(input: string): boolean {
+    return /^ln(bc|tb|tbs|bcrt|sb)[0-9]*[munp]?1[02-9ac-hj-np-z]+$/i.test(normalizeLightningDestination(input));
+}
+
+// Amount encoded in the invoice's human readable prefix (rounded up to whole sats); null for amountless invoices
+export function getInvoiceAmountSats(invoice: string): number | null {
+    const normalized = normalizeLightningDestination(invoice).toLowerCase();
+    const prefix = normalized.slice(0, normalized.lastIndexOf('1'));
+    const match = prefix.match(/^ln(?:bc|tb|tbs|bcrt|sb)(\d+)([munp])?$/);
+    if (!match) return null;
+    const value = Number(match[1]);
+    const sats = match[2] ? value * BOLT11_MULTIPLIERS[match[2]] : value * 1e8;
+    return Math.ceil(sats);
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), LNURL_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return (await response.json()) as T;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+interface LnurlPayResponse {
+    tag?: string;
+    callback?: string;
+    minSendable?: number; // msats
+    maxSendable?: number; // msats
+    status?: string;
+    reason?: string;
+}
+
+interface LnurlInvoiceResponse {
+    pr?: string;
+    status?: string;
+    reason?: string;
+}
+
+// Asks the address's LNURL-pay service for an invoice of exactly `amountSats`
+export async function resolveLightningAddress(address: string, amountSats: number): Promise<string> {
+    const [name, domain] = normalizeLightningDestination(address).split('@');
+    const payInfo = await fetchJson<LnurlPayResponse>(`https://${domain}/.well-known/lnurlp/${encodeURIComponent(name)}`);
+    if (payInfo.status === 'ERROR' || payInfo.tag !== 'payRequest' || !payInfo.callback) {
+        throw new Error(payInfo.reason || `${address} is not a valid lightning address`);
+    }
+
+    const amountMsats = amountSats * 1000;
+    if ((payInfo.minSendable && amountMsats < payInfo.minSendable) || (payInfo.maxSendable && amountMsats > payInfo.maxSendable)) {
+        const min = Math.ceil((payInfo.minSendable ?? 1000) / 1000);
+        const max = Math.floor((payInfo.maxSendable ?? amountMsats) / 1000);
+        throw new Error(`${address} accepts between ${min} and ${max} sats`);
+    }
+
+    const callbackUrl = new URL(payInfo.callback);
+    callbackUrl.searchParams.set('amount', String(amountMsats));
+    const invoiceResponse = await fetchJson<LnurlInvoiceResponse>(callbackUrl.toString());
+    if (invoiceResponse.status === 'ERROR' || !invoiceResponse.pr) {
+        throw new Error(invoiceResponse.reason || `${address} did not return an invoice`);
+    }
+    // Don't trust the service to bill the amount we asked for
+    if (getInvoiceAmountSats(invoiceResponse.pr) !== amountSats) {
+        throw new Error(`Invoice from ${address} is not for ${amountSats} sats`);
+    }
+    return invoiceResponse.pr;
+}
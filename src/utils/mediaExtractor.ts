@@ -0,0 +1,271 @@
+// src/utils/mediaExtractor.ts
+// Turns raw Nostr events into media notes for the image, video and podcast lists.
+// Tagged media (NIP-71, NIP-92 imeta, legacy url/m tags) is preferred; kind 1 notes that only
+// contain bare links in their content are classified by file extension, or by a cached
+// HEAD/Content-Type probe when the extension is unclear.
+import { NDKEvent, NDKKind } from '@nostr-dev-kit/ndk';
+import { NostrNote } from '../types/nostr';
+import { getKindsForMediaType, MediaType } from './filterUtils';
+import { parseDimensions, parseImetaTags } from './imeta';
+import { isNip71VideoKind, parseVideoRenditions, selectVideoRendition } from './videoRenditions';
+import { getCachedContentType } from './contentTypeProbe';
+
+export const MEDIA_TYPES: MediaType[] = ['image', 'video', 'podcast'];
+
+const HLS_MIME_TYPES = ['application/x-mpegurl', 'application/vnd.apple.mpegurl'];
+
+// Media URLs by extension (moved from useMediaState, where they were unused)
+const imageRegex = /\.(?:png|jpg|jpeg|gif|webp|avif)$/i;
+const videoRegex = /\.(?:mp4|mov|webm|m3u8)$/i;
+const audioRegex = /\.(?:mp3|m4a|ogg|aac|wav|opus|flac)$/i;
+// Extensions that are definitely not playable media; never worth a HEAD probe
+const nonMediaRegex = /\.(?:html?|php|aspx?|json|txt|pdf|zip)$/i;
+
+const contentUrlRegex = /https?:\/\/[^\s<>"'()[\]]+/gi;
+
+// Checks whether a mime type belongs to the requested media type
+function mimeMatchesType(mimeType: string | undefined, type: MediaType): boolean {
+    if (!mimeType) return false;
+    switch (type) {
+        case 'image': return mimeType.startsWith('image/');
+        case 'video': return mimeType.startsWith('video/') || HLS_MIME_TYPES.includes(mimeType);
+        case 'podcast': return mimeType.startsWith('audio/');
+        default: return false;
+    }
+}
+
+// Key identifying the latest version of an addressable event (kind:pubkey:d), or null for regular events
+export function getReplaceableKey(note: NostrNote): string | null {
+    if (note.kind < 30000 || note.kind >= 40000) return null;
+    const dTag = note.tags.find(t => t[0] === 'd')?.[1] ?? '';
+    return `${note.kind}:${note.pubkey}:${dTag}`;
+}
+
+// Event processing function (moved here from useMediaContent, originally from App.tsx)
+// Returns one note per matching media item: events with NIP-92 imeta tags can carry several.
+export function processEvent(event: NDKEvent, type: MediaType): NostrNote[] {
+    const title = event.tags.find(t => t[0] === 'title')?.[1];
+    const summary = event.tags.find(t => t[0] === 'summary')?.[1];
+    const image = event.tags.find(t => t[0] === 'image')?.[1];
+    const duration = event.tags.find(t => t[0] === 'duration')?.[1];
+
+    const baseNote: NostrNote = {
+        id: event.id,
+        pubkey: event.pubkey,
+        created_at: event.created_at ?? 0,
+        kind: event.kind ?? 0,
+        tags: event.tags,
+        content: event.content,
+        sig: event.sig || '',
+        posterPubkey: event.pubkey,
+        title: title,
+        summary: summary,
+        image: image,
+        duration: duration,
+    };
+
+    // --- NIP-71 video events: one note per event, imeta tags are renditions ---
+    if (type === 'video' && isNip71VideoKind(event.kind)) {
+        const renditions = parseVideoRenditions(event.tags);
+        const selected = selectVideoRendition(renditions);
+        if (selected) {
+            return [{
+                ...baseNote,
+                eventId: event.id,
+                url: selected.url,
+                mimeType: selected.mimeType,
+                width: selected.width,
+                height: selected.height,
+                sha256: selected.sha256,
+                alt: event.tags.find(t => t[0] === 'alt')?.[1],
+                fallbackUrls: selected.fallbackUrls,
+                image: image ?? selected.previewImage,
+                duration: duration ?? (selected.duration !== undefined ? String(selected.duration) : undefined),
+                renditions: renditions,
+            }];
+        }
+        // Older NIP-71 events without imeta fall through to the legacy tags below
+    }
+
+    // --- NIP-92 imeta tags (preferred) ---
+    const imetaEntries = parseImetaTags(event.tags).filter(entry => mimeMatchesType(entry.mimeType, type));
+    if (imetaEntries.length > 0) {
+        return imetaEntries.map((entry, index) => ({
+            ...baseNote,
+            // Keep the plain event id for the first item so single-media events are unchanged
+            id: index === 0 ? event.id : `${event.id}:${index}`,
+            eventId: event.id,
+            mediaIndex: index,
+            url: entry.url,
+            mimeType: entry.mimeType,
+            width: entry.width,
+            height: entry.height,
+            blurhash: entry.blurhash,
+            sha256: entry.sha256,
+            alt: entry.alt,
+            fallbackUrls: entry.fallbackUrls,
+            summary: summary ?? entry.summary,
+            image: image ?? entry.thumb ?? entry.images?.[0],
+        }));
+    }
+
+    // --- Legacy top-level tags ---
+    const mimeTag = event.tags.find(t => t[0] === 'm');
+    const urlTag = event.tags.find(t => t[0] === 'url');
+    const mediaTag = event.tags.find(t => t[0] === 'media'); // NIP-96
+    const imageTag = event.tags.find(t => t[0] === 'image'); // Older convention
+    const enclosureTag = event.tags.find(t => t[0] === 'enclosure'); // RSS/Podcast
+
+    const mimeType: string | undefined = mimeTag?.[1];
+    if (!mimeMatchesType(mimeType, type)) return [];
+
+    let mediaUrl: string | undefined;
+    if (urlTag?.[1]) {
+        mediaUrl = urlTag[1];
+    } else if (mediaTag?.[1]) {
+        mediaUrl = mediaTag[1];
+    } else if (type === 'image' && imageTag?.[1]) {
+        mediaUrl = imageTag[1];
+    } else if (type === 'podcast' && enclosureTag?.[1]) {
+        mediaUrl = enclosureTag[1];
+    }
+
+    if (!mediaUrl) return [];
+
+    const { width, height } = parseDimensions(event.tags.find(t => t[0] === 'dim')?.[1]);
+    const sha256 = event.tags.find(t => t[0] === 'x')?.[1];
+
+    return [{
+        ...baseNote,
+        eventId: event.id,
+        url: mediaUrl,
+        mimeType: mimeType,
+        width: width,
+        height: height,
+        blurhash: event.tags.find(t => t[0] === 'blurhash')?.[1],
+        sha256: sha256,
+        alt: event.tags.find(t => t[0] === 'alt')?.[1],
+        fallbackUrls: event.tags.filter(t => t[0] === 'fallback' && t[1]).map(t => t[1]),
+    }];
+}
+
+// Result of classifying a bare URL found in note content
+type UrlClassification = MediaType | 'unknown' | null;
+
+// Classifies a URL by the extension of its path (query string and fragment ignored).
+// Returns 'unknown' when the path has no extension and a Content-Type probe could help.
+export function classifyUrlByExtension(url: string): UrlClassification {
+    let pathname: string;
+    try {
+        pathname = new URL(url).pathname;
+    } catch {
+        return null;
+    }
+    if (imageRegex.test(pathname)) return 'image';
+    if (videoRegex.test(pathname)) return 'video';
+    if (audioRegex.test(pathname)) return 'podcast';
+    if (nonMediaRegex.test(pathname)) return null;
+
+    const lastSegment = pathname.split('/').pop() ?? '';
+    // Hosts like Blossom servers or CDNs often serve media from extension-less paths
+    return lastSegment.length > 0 && !lastSegment.includes('.') ? 'unknown' : null;
+}
+
+// Classifies a URL using its extension first, then any cached Content-Type probe result
+function classifyUrl(url: string): UrlClassification {
+    const byExtension = classifyUrlByExtension(url);
+    if (byExtension !== 'unknown') return byExtension;
+
+    const cachedType = getCachedContentType(url);
+    if (cachedType === undefined) return 'unknown';
+    if (cachedType === null) return null;
+    return MEDIA_TYPES.find(type => mimeMatchesType(cachedType, type)) ?? null;
+}
+
+// Extracts bare media links from a note's content (trailing punctuation trimmed)
+export function extractContentUrls(content: string): string[] {
+    const matches = content.match(contentUrlRegex) ?? [];
+    return Array.from(new Set(matches.map(url => url.replace(/[.,;:!?]+$/, ''))));
+}
+
+export interface ExtractedMedia {
+    notes: Record<MediaType, NostrNote[]>;
+    unresolvedUrls: string[]; // Content URLs that need a Content-Type probe before they can be classified
+}
+
+// Runs a single pass over all events and sorts every media item into its list.
+// Events are deduplicated by id; addressable events keep only their newest version.
+export function extractMediaNotes(events: NDKEvent[]): ExtractedMedia {
+    const notesByType: Record<MediaType, Map<string, NostrNote>> = {
+        image: new Map(),
+        video: new Map(),
+        podcast: new Map(),
+    };
+    const unresolvedUrls = new Set<string>();
+    const seenEventIds = new Set<string>();
+
+    const addNote = (type: MediaType, note: NostrNote) => {
+        const key = getReplaceableKey(note) ?? note.id;
+        const existing = notesByType[type].get(key);
+        if (!existing || existing.created_at < note.created_at) {
+            notesByType[type].set(key, note);
+        }
+    };
+
+    events.forEach(event => {
+        if (seenEventIds.has(event.id)) return;
+        seenEventIds.add(event.id);
+
+        const kind = event.kind ?? 0;
+        const taggedUrls = new Set<string>();
+        const indexByType: Record<MediaType, number> = { image: 0, video: 0, podcast: 0 };
+
+        // 1. Tagged media, for the types this kind is subscribed for
+        MEDIA_TYPES.forEach(type => {
+            if (!getKindsForMediaType(type).includes(kind)) return;
+            processEvent(event, type).forEach(note => {
+                if (note.url) taggedUrls.add(note.url);
+                note.renditions?.forEach(r => taggedUrls.add(r.url));
+                indexByType[type]++;
+                addNote(type, note);
+            });
+        });
+
+        // 2. Bare links in kind 1 content that tags didn't already cover
+        if (kind !== NDKKind.Text) return;
+        extractContentUrls(event.content).forEach(url => {
+            if (taggedUrls.has(url)) return;
+            const classification = classifyUrl(url);
+            if (classification === 'unknown') {
+                unresolvedUrls.add(url);
+                return;
+            }
+            if (!classification) return;
+
+            const index = indexByType[classification]++;
+            addNote(classification, {
+                id: index === 0 ? event.id : `${event.id}:${index}`,
+                eventId: event.id,
+                mediaIndex: index,
+                pubkey: event.pubkey,
+                created_at: event.created_at ?? 0,
+                kind: kind,
+                tags: event.tags,
+                content: event.content,
+                sig: event.sig || '',
+                url: url,
+                posterPubkey: event.pubkey,
+                mimeType: getCachedContentType(url) ?? undefined,
+            });
+        });
+    });
+
+    return {
+        notes: {
+            image: Array.from(notesByType.image.values()),
+            video: Array.from(notesByType.video.values()),
+            podcast: Array.from(notesByType.podcast.values()),
+        },
+        unresolvedUrls: Array.from(unresolvedUrls),
+    };
+}
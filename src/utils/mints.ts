@@ -0,0 +1,92 @@
+// src/utils/mints.ts
+// Trusted mint list for the multi-mint wallet. The order is the spending priority: payments use the
+// first trusted mint that holds enough sats. Also provides NUT-06 mint info and per-mint balances.
+import { GetInfoResponse, Proof } from '@cashu/cashu-ts';
+import { cashuHelper } from './cashu';
+import { idb } from './idb';
+
+export type MintInfo = GetInfoResponse;
+
+// Mint URLs are compared without trailing slashes and case-insensitive hosts
+export function normalizeMintUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+        return url.trim().replace(/\/+$/, '');
+    }
+}
+
+export function isSameMint(a: string, b: string): boolean {
+    return normalizeMintUrl(a) === normalizeMintUrl(b);
+}
+
+export function isTrustedMint(trustedMints: string[], mintUrl: string): boolean {
+    return trustedMints.some(mint => isSameMint(mint, mintUrl));
+}
+
+// The saved list; wallets from before multi-mint support start with their single configured mint
+export async function loadTrustedMints(defaultMintUrl: string): Promise<string[]> {
+    try {
+        const saved = await idb.loadTrustedMintsFromDb();
+        if (saved && saved.length > 0) return saved;
+        const legacyMintUrl = await idb.loadMintUrlFromDb();
+        return [legacyMintUrl ?? defaultMintUrl];
+    } catch (error) {
+        console.error('mints: Failed to load trusted mints, using the default:', error);
+        return [defaultMintUrl];
+    }
+}
+
+export async function saveTrustedMints(mints: string[]): Promise<void> {
+    await idb.saveTrustedMintsToDb(mints);
+    // Keep the legacy single-mint setting pointing at the top priority mint
+    await idb.saveMintUrlToDb(mints[0] ?? null);
+}
+
+// Sats held per mint (keys are the mint URLs as stored on the proofs)
+export function getMintBalances(proofs: Array<Proof & { mintUrl: string }>): Record<string, number> {
+    return proofs.reduce<Record<string, number>>((balances, proof) => {
+        balances[proof.mintUrl] = (balances[proof.mintUrl] ?? 0) + proof.amount;
+        return balances;
+    }, {});
+}
+
+export function getMintBalance(balances: Record<string, number>, mintUrl: string): number {
+    return Object.entries(balances)
+        .filter(([url]) => isSameMint(url, mintUrl))
+        .reduce((sum, [, amount]) => sum + amount, 0);
+}
+
+// First trusted mint (in priority order) holding at least `amount` sats, optionally limited to
+// mints the recipient accepts. Returns the URL as stored on the proofs, or null.
+export function pickMintForAmount(
+    trustedMints: string[],
+    balances: Record<string, number>,
+    amount: number,
+    acceptedMints?: string[]
+): string | null {
+    for (const mint of trustedMints) {
+        if (acceptedMints && !acceptedMints.some(accepted => isSameMint(accepted, mint))) continue;
+        const storedUrl = Object.keys(balances).find(url => isSameMint(url, mint) && balances[url] >= amount);
+        if (storedUrl) return storedUrl;
+    }
+    return null;
+}
+
+const mintInfoCache = new Map<string, Promise<MintInfo | null>>();
+
+// NUT-06 info (name, version, supported NUTs, motd), cached for the session
+export function fetchMintInfo(mintUrl: string): Promise<MintInfo | null> {
+    const key = normalizeMintUrl(mintUrl);
+    const cached = mintInfoCache.get(key);
+    if (cached) return cached;
+
+    const lookup = cashuHelper.getCashuMint(mintUrl).getInfo().catch(error => {
+        console.warn(`mints: Could not fetch info for ${mintUrl}:`, error);
+        mintInfoCache.delete(key);
+        return null;
+    });
+    mintInfoCache.set(key, lookup);
+    return lookup;
+}
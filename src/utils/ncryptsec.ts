@@ -0,0 +1,42 @@
+// src/utils/ncryptsec.ts
+// The TV's private key at rest (NIP-49). The nsec is stored as an 'ncryptsec' encrypted with a PIN
+// or passphrase (scrypt + XChaCha20-Poly1305), so reading IndexedDB off the device doesn't give the
+// key away. Older versions stored the plain nsec; those entries are re-encrypted on the first unlock.
+import * as nip19 from 'nostr-tools/nip19';
+import * as nip49 from 'nostr-tools/nip49';
+
+// Anyone holding the ncryptsec can guess PINs offline, so new PINs are long and each guess is slow.
+// Keys encrypted under shorter PINs by older versions still unlock; the minimum applies to new PINs.
+export const MIN_PIN_LENGTH = 8;
+// scrypt cost 2^18: 256 MiB and a second or more per guess. 2^20 needs 1 GiB, more than TVs spare
+const SCRYPT_LOG_N = 18;
+
+// NIP-49 key security byte: whether the key is known to have been handled insecurely
+const KEY_SECURITY_UNKNOWN = 0x02;
+const KEY_SECURITY_INSECURE = 0x00; // e.g. it sat unencrypted in storage
+
+export function isNcryptsec(value: string): boolean {
+    return value.trim().startsWith('ncryptsec1');
+}
+
+export function isValidPin(pin: string): boolean {
+    return pin.length >= MIN_PIN_LENGTH;
+}
+
+// `wasExposed` marks keys that were stored in the clear before being encrypted
+export function encryptNsec(nsec: string, pin: string, wasExposed = false): string {
+    if (!isValidPin(pin)) throw new Error(`PIN must have at least ${MIN_PIN_LENGTH} digits`);
+    const decoded = nip19.decode(nsec);
+    if (decoded.type !== 'nsec') throw new Error('Not an nsec');
+    return nip49.encrypt(decoded.data, pin, SCRYPT_LOG_N, wasExposed ? KEY_SECURITY_INSECURE : KEY_SECURITY_UNKNOWN);
+}
+
+// Throws on a wrong PIN (the ciphertext doesn't authenticate)
+export function decryptNcryptsec(ncryptsec: string, pin: string): string {
+    try {
+        return nip19.nsecEncode(nip49.decrypt(ncryptsec.trim(), pin));
+    } catch (error) {
+        console.warn('ncryptsec: Decryption failed:', error);
+        throw new Error('Wrong PIN or damaged key');
+    }
+}
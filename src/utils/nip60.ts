@@ -0,0 +1,302 @@
+// src/utils/nip60.ts
+// NIP-60 wallet sync: the proofs in IndexedDB are mirrored to the user's relays so the wallet survives
+// an app data wipe. Each mint's proofs are kept in one NIP-44 encrypted kind 7375 token event; when the
+// proofs change a replacement event is published, the old one is deleted (NIP-09) and a kind 7376
+// history entry records the difference. The kind 17375 wallet event lists the mints and the wallet key.
+import NDK, { NDKEvent, NDKKind, NDKRelaySet, NDKUser } from '@nostr-dev-kit/ndk';
+import { Proof, CheckStateEnum } from '@cashu/cashu-ts';
+import { generateSecretKey } from 'nostr-tools/pure';
+import { cashuHelper } from './cashu';
+import { idb, StoredProof } from './idb';
+import { bytesToHex } from './misc';
+import { getWriteRelayUrls } from './relayConfig';
+
+const WALLET_KIND = 17375 as NDKKind;
+const TOKEN_KIND = 7375 as NDKKind;
+const HISTORY_KIND = 7376 as NDKKind;
+const DELETION_KIND = 5 as NDKKind;
+const RESTORE_TIMEOUT_MS = 10000;
+
+interface TokenContent {
+    mint: string;
+    proofs: Proof[];
+    del?: string[]; // Token events this one replaces
+}
+
+interface MintSyncState {
+    eventIds: string[]; // Live token events for this mint (normally one)
+    secrets: string[];  // Proof secrets they contain
+    amount: number;     // Balance of the local proofs among them
+    stale?: boolean;    // Set after a restore: the events must be replaced even if the secrets match
+    carried?: Proof[];  // Restored proofs the mint reported PENDING: not spendable, but republished so they aren't lost
+}
+
+interface SyncState {
+    pubkey: string;
+    mints: Record<string, MintSyncState>;
+}
+
+export interface RestoreResult {
+    proofs: StoredProof[]; // Unspent proofs found on relays that weren't stored locally
+    tokenEventCount: number;
+}
+
+// --- Helpers ---
+
+const stripProof = ({ id, amount, secret, C }: Proof): Proof => ({ id, amount, secret, C });
+
+async function getSelf(ndk: NDK): Promise<NDKUser> {
+    if (!ndk.signer) throw new Error('Signer not available');
+    return ndk.signer.user();
+}
+
+async function encryptToSelf(ndk: NDK, self: NDKUser, value: unknown): Promise<string> {
+    return ndk.signer!.encrypt(self, JSON.stringify(value), 'nip44');
+}
+
+async function decryptFromSelf<T>(ndk: NDK, self: NDKUser, content: string): Promise<T> {
+    return JSON.parse(await ndk.signer!.decrypt(self, content, 'nip44')) as T;
+}
+
+function getPublishRelaySet(ndk: NDK): NDKRelaySet | undefined {
+    const urls = getWriteRelayUrls();
+    return urls.length > 0 ? NDKRelaySet.fromRelayUrls(urls, ndk) : undefined;
+}
+
+async function loadSyncState(pubkey: string): Promise<SyncState> {
+    const saved = await idb.loadNip60SyncStateFromDb() as SyncState | null;
+    // State from another account says nothing about this one
+    return saved && saved.pubkey === pubkey ? saved : { pubkey, mints: {} };
+}
+
+async function getWalletPrivkey(): Promise<string> {
+    const saved = await idb.loadWalletPrivkeyFromDb();
+    if (saved) return saved;
+    const privkey = bytesToHex(generateSecretKey());
+    await idb.saveWalletPrivkeyToDb(privkey);
+    return privkey;
+}
+
+async function fetchOwnEvents(ndk: NDK, pubkey: string, kind: NDKKind): Promise<NDKEvent[]> {
+    const events = await Promise.race([
+        ndk.fetchEvents({ kinds: [kind], authors: [pubkey] }),
+        new Promise<Set<NDKEvent>>(resolve => setTimeout(() => resolve(new Set()), RESTORE_TIMEOUT_MS)),
+    ]);
+    return Array.from(events);
+}
+
+// --- Publishing ---
+
+async function publishWalletEvent(ndk: NDK, self: NDKUser, mints: string[]): Promise<void> {
+    const event = new NDKEvent(ndk);
+    event.kind = WALLET_KIND;
+    event.content = await encryptToSelf(ndk, self, [
+        ['privkey', await getWalletPrivkey()],
+        ...mints.map(mint => ['mint', mint]),
+    ]);
+    event.tags = [];
+    await event.publish(getPublishRelaySet(ndk));
+}
+
+async function publishHistory(
+    ndk: NDK,
+    self: NDKUser,
+    amountDelta: number,
+    createdId: string | null,
+    destroyedIds: string[]
+): Promise<void> {
+    if (amountDelta === 0) return;
+    const event = new NDKEvent(ndk);
+    event.kind = HISTORY_KIND;
+    event.content = await encryptToSelf(ndk, self, [
+        ['direction', amountDelta > 0 ? 'in' : 'out'],
+        ['amount', String(Math.abs(amountDelta))],
+        ['unit', 'sat'],
+        ...(createdId ? [['e', createdId, '', 'created']] : []),
+        ...destroyedIds.map(id => ['e', id, '', 'destroyed']),
+    ]);
+    event.tags = [];
+    await event.publish(getPublishRelaySet(ndk));
+}
+
+async function publishDeletion(ndk: NDK, eventIds: string[]): Promise<void> {
+    if (eventIds.length === 0) return;
+    const event = new NDKEvent(ndk);
+    event.kind = DELETION_KIND;
+    event.content = '';
+    event.tags = [...eventIds.map(id => ['e', id]), ['k', String(TOKEN_KIND)]];
+    await event.publish(getPublishRelaySet(ndk));
+}
+
+// Publishes token events for every mint whose stored proofs changed since the last sync.
+// IndexedDB is the source of truth (several useWallet instances may hold different snapshots).
+async function runSync(ndk: NDK): Promise<void> {
+    const self = await getSelf(ndk);
+    const [state, proofs] = await Promise.all([loadSyncState(self.pubkey), idb.getAllProofs()]);
+
+    const proofsByMint = new Map<string, Proof[]>();
+    proofs.forEach(({ mintUrl, ...proof }) => {
+        proofsByMint.set(mintUrl, [...(proofsByMint.get(mintUrl) ?? []), stripProof(proof)]);
+    });
+
+    const mints = Array.from(new Set([...proofsByMint.keys(), ...Object.keys(state.mints)]));
+    let changed = false;
+    for (const mint of mints) {
+        const localProofs = proofsByMint.get(mint) ?? [];
+        const previous = state.mints[mint] ?? { eventIds: [], secrets: [], amount: 0 };
+        const localSecrets = new Set(localProofs.map(p => p.secret));
+        const carried = (previous.carried ?? []).filter(proof => !localSecrets.has(proof.secret));
+        const mintProofs = [...localProofs, ...carried];
+        const secrets = mintProofs.map(p => p.secret).sort();
+        if (!previous.stale && JSON.stringify(secrets) === JSON.stringify([...previous.secrets].sort())) continue;
+
+        // With no proofs left the old events are deleted without a replacement (everything was spent)
+        let createdId: string | null = null;
+        if (mintProofs.length > 0) {
+            const tokenEvent = new NDKEvent(ndk);
+            tokenEvent.kind = TOKEN_KIND;
+            tokenEvent.content = await encryptToSelf(ndk, self, { mint, proofs: mintProofs, del: previous.eventIds } satisfies TokenContent);
+            tokenEvent.tags = [];
+            await tokenEvent.publish(getPublishRelaySet(ndk));
+            createdId = tokenEvent.id;
+        }
+        await publishDeletion(ndk, previous.eventIds);
+
+        const amount = cashuHelper.getProofsBalance(localProofs);
+        // Consolidating restored events isn't a balance change, so it gets no history entry
+        if (!previous.stale) {
+            await publishHistory(ndk, self, amount - previous.amount, createdId, previous.eventIds)
+                .catch(error => console.warn('nip60: Failed to publish history entry:', error));
+        }
+
+        if (createdId) {
+            state.mints[mint] = { eventIds: [createdId], secrets, amount, ...(carried.length > 0 ? { carried } : {}) };
+        } else {
+            delete state.mints[mint];
+        }
+        changed = true;
+    }
+
+    if (changed) {
+        await publishWalletEvent(ndk, self, Object.keys(state.mints));
+        await idb.saveNip60SyncStateToDb(state);
+        console.log(`nip60: Wallet synced (${Object.keys(state.mints).length} mints).`);
+    }
+}
+
+let syncQueue: Promise<void> = Promise.resolve();
+
+// Safe to call often: runs are serialized and unchanged mints are skipped
+export function syncWalletToRelays(ndk: NDK): Promise<void> {
+    const run = syncQueue.then(() => runSync(ndk));
+    syncQueue = run.catch(() => undefined);
+    return run;
+}
+
+// --- Restoring ---
+
+// Reads the wallet back from relays and stores any missing proofs. Proofs are matched by secret: a proof
+// present in several token events (e.g. from two devices) counts once, proofs already stored locally are
+// skipped, and proofs the mint reports as spent are dropped; pending ones are carried into the next token
+// event. The live token events of every mint that could be checked are recorded so the next sync replaces
+// them. Events for a mint that couldn't be reached are left alone and checked again on the next restore.
+async function runRestore(ndk: NDK, self: NDKUser): Promise<RestoreResult> {
+    const localProofs = await idb.getAllProofs();
+    const [walletEvents, tokenEvents] = await Promise.all([
+        fetchOwnEvents(ndk, self.pubkey, WALLET_KIND),
+        fetchOwnEvents(ndk, self.pubkey, TOKEN_KIND),
+    ]);
+
+    // Recover the wallet key if this device doesn't have one yet
+    const walletEvent = walletEvents.sort((a, b) => (b.created_at ?? 0) - (a.created_at ?? 0))[0];
+    if (walletEvent && !(await idb.loadWalletPrivkeyFromDb())) {
+        try {
+            const tags = await decryptFromSelf<string[][]>(ndk, self, walletEvent.content);
+            const privkey = tags.find(t => t[0] === 'privkey')?.[1];
+            if (privkey) await idb.saveWalletPrivkeyToDb(privkey);
+        } catch (error) {
+            console.warn('nip60: Could not decrypt wallet event:', error);
+        }
+    }
+
+    const tokens: Array<{ id: string; content: TokenContent }> = [];
+    for (const event of tokenEvents) {
+        try {
+            tokens.push({ id: event.id, content: await decryptFromSelf<TokenContent>(ndk, self, event.content) });
+        } catch (error) {
+            console.warn(`nip60: Could not decrypt token event ${event.id}:`, error);
+        }
+    }
+    const replaced = new Set(tokens.flatMap(token => token.content.del ?? []));
+    const liveTokens = tokens.filter(token => !replaced.has(token.id) && token.content.mint && Array.isArray(token.content.proofs));
+
+    const localSecrets = new Set(localProofs.map(p => p.secret));
+    const candidatesByMint = new Map<string, Map<string, Proof>>();
+    liveTokens.forEach(({ content }) => {
+        const bySecret = candidatesByMint.get(content.mint) ?? new Map<string, Proof>();
+        content.proofs.forEach(proof => {
+            if (!localSecrets.has(proof.secret)) bySecret.set(proof.secret, stripProof(proof));
+        });
+        candidatesByMint.set(content.mint, bySecret);
+    });
+
+    const restored: StoredProof[] = [];
+    const pendingByMint = new Map<string, Proof[]>();
+    for (const [mint, bySecret] of candidatesByMint) {
+        const candidates = Array.from(bySecret.values());
+        if (candidates.length === 0) {
+            pendingByMint.set(mint, []);
+            continue;
+        }
+        try {
+            const wallet = await cashuHelper.initCashuWallet(mint);
+            const states = await wallet.checkProofsStates(candidates);
+            const pending: Proof[] = [];
+            candidates.forEach((proof, index) => {
+                const proofState = states[index]?.state;
+                if (proofState === CheckStateEnum.UNSPENT) restored.push({ ...proof, mintUrl: mint });
+                else if (proofState === CheckStateEnum.PENDING) pending.push(proof);
+            });
+            pendingByMint.set(mint, pending);
+        } catch (error) {
+            console.warn(`nip60: Could not check proofs with ${mint}; leaving its token events for the next restore:`, error);
+        }
+    }
+
+    // Make the next sync replace (and delete) the live token events of every checked mint with one
+    // consolidated event, which also holds the proofs that are still pending
+    const state = await loadSyncState(self.pubkey);
+    liveTokens.forEach(({ id, content }) => {
+        const pending = pendingByMint.get(content.mint);
+        if (!pending) return;
+        const mintState = state.mints[content.mint] ?? { eventIds: [], secrets: [], amount: 0 };
+        if (!mintState.eventIds.includes(id)) mintState.eventIds.push(id);
+        mintState.stale = true;
+        mintState.carried = pending;
+        state.mints[content.mint] = mintState;
+    });
+    await idb.saveNip60SyncStateToDb(state);
+
+    if (restored.length > 0) await idb.saveProofs(restored);
+
+    console.log(`nip60: Restored ${restored.length} proofs from ${liveTokens.length} token events.`);
+    return { proofs: restored, tokenEventCount: liveTokens.length };
+}
+
+const restoreByPubkey = new Map<string, Promise<RestoreResult>>();
+
+// Runs once per account per session (every useWallet instance calls this on login)
+export async function restoreWalletFromRelays(ndk: NDK): Promise<RestoreResult> {
+    const self = await getSelf(ndk);
+    const pending = restoreByPubkey.get(self.pubkey);
+    if (pending) return pending;
+
+    const run = syncQueue.then(() => runRestore(ndk, self));
+    syncQueue = run.then(() => undefined, () => undefined);
+    // A failed restore can be retried on the next login
+    restoreByPubkey.set(self.pubkey, run.catch(error => {
+        restoreByPubkey.delete(self.pubkey);
+        throw error;
+    }));
+    return restoreByPubkey.get(self.pubkey)!;
+}
@@ -0,0 +1,95 @@
+// src/utils/nutzap.ts
+// NIP-61 nutzaps: Cashu proofs P2PK-locked (NUT-11) to the recipient's advertised key and published
+// publicly as a kind 9321 event. The recipient's kind 10019 event lists the mints they trust, the
+// key to lock to and the relays to publish to.
+import NDK, { NDKEvent, NDKKind, NDKRelaySet } from '@nostr-dev-kit/ndk';
+import { Proof } from '@cashu/cashu-ts';
+import { normalizeMintUrl } from './mints';
+import { getWriteRelayUrls } from './relayConfig';
+
+export const NUTZAP_INFO_KIND = 10019 as NDKKind;
+export const NUTZAP_KIND = 9321 as NDKKind;
+const NUTZAP_INFO_TIMEOUT_MS = 5000;
+
+export interface NutzapInfo {
+    pubkey: string;       // Recipient's nostr pubkey
+    mints: string[];      // Mints the recipient accepts (normalized)
+    relays: string[];     // Where the recipient reads nutzaps
+    p2pkPubkey: string;   // Key the proofs must be locked to (compressed, 02/03 prefixed)
+}
+
+export interface NutzapParams {
+    recipientPubkey: string;
+    mintUrl: string;
+    proofs: Proof[];      // Already locked to the recipient's p2pkPubkey
+    comment?: string;
+    eventId?: string;     // Note being nutzapped
+    eventKind?: number;
+}
+
+// NIP-61: a 32-byte nostr-style key is used as the even (02-prefixed) compressed point
+export function toP2pkPubkey(pubkey: string): string {
+    return pubkey.length === 64 ? `02${pubkey}` : pubkey;
+}
+
+const nutzapInfoCache = new Map<string, Promise<NutzapInfo | null>>();
+
+// Reads the recipient's kind 10019 event; null when they don't accept nutzaps. Cached for the session.
+export function getNutzapInfo(ndk: NDK, pubkey: string): Promise<NutzapInfo | null> {
+    const cached = nutzapInfoCache.get(pubkey);
+    if (cached) return cached;
+
+    const lookup = (async () => {
+        try {
+            const event = await Promise.race([
+                ndk.fetchEvent({ kinds: [NUTZAP_INFO_KIND], authors: [pubkey] }),
+                new Promise<null>(resolve => setTimeout(() => resolve(null), NUTZAP_INFO_TIMEOUT_MS)),
+            ]);
+            if (!event) return null;
+            const mints = event.tags
+                .filter(t => t[0] === 'mint' && t[1])
+                // A mint tag may list the units it's used for; we only send sats
+                .filter(t => t.length <= 2 || t.slice(2).includes('sat'))
+                .map(t => normalizeMintUrl(t[1]));
+            const p2pkPubkey = event.tags.find(t => t[0] === 'pubkey' && t[1])?.[1];
+            if (mints.length === 0 || !p2pkPubkey) {
+                console.warn(`nutzap: Kind 10019 for ${pubkey} is missing mints or a pubkey; ignoring it.`);
+                return null;
+            }
+            return {
+                pubkey,
+                mints: Array.from(new Set(mints)),
+                relays: event.tags.filter(t => t[0] === 'relay' && t[1]?.startsWith('ws')).map(t => t[1]),
+                p2pkPubkey: toP2pkPubkey(p2pkPubkey),
+            };
+        } catch (error) {
+            console.warn(`nutzap: Failed to fetch nutzap info for ${pubkey}:`, error);
+            nutzapInfoCache.delete(pubkey);
+            return null;
+        }
+    })();
+    nutzapInfoCache.set(pubkey, lookup);
+    return lookup;
+}
+
+// Builds, signs and publishes the kind 9321 event to the recipient's nutzap relays and our write relays
+export async function publishNutzap(ndk: NDK, info: NutzapInfo, params: NutzapParams): Promise<NDKEvent> {
+    const event = new NDKEvent(ndk);
+    event.kind = NUTZAP_KIND;
+    event.created_at = Math.floor(Date.now() / 1000);
+    event.content = params.comment ?? '';
+    event.tags = [
+        ...params.proofs.map(proof => ['proof', JSON.stringify(proof)]),
+        ['unit', 'sat'],
+        ['u', params.mintUrl],
+        ['p', params.recipientPubkey],
+    ];
+    if (params.eventId) {
+        event.tags.push(['e', params.eventId]);
+        if (params.eventKind !== undefined) event.tags.push(['k', String(params.eventKind)]);
+    }
+
+    const relayUrls = Array.from(new Set([...info.relays, ...getWriteRelayUrls()]));
+    await event.publish(relayUrls.length > 0 ? NDKRelaySet.fromRelayUrls(relayUrls, ndk) : undefined);
+    return event;
+}
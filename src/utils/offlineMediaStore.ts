@@ -0,0 +1,121 @@
+// src/utils/offlineMediaStore.ts
+// Pre-downloaded media for offline playback, kept in Cache Storage (one cache per media type).
+// Cache Storage keeps the original request URL as the key, so a note's url can be looked up
+// directly and turned into an object URL when the network is gone.
+import { MediaType } from './filterUtils';
+
+const CACHE_PREFIX = 'madstr-offline';
+const CACHE_VERSION = 'v1';
+const DOWNLOAD_TIMEOUT_MS = 120000; // Videos can be large; give each download two minutes
+
+export const OFFLINE_MEDIA_TYPES: MediaType[] = ['image', 'podcast', 'video'];
+
+function cacheNameFor(type: MediaType): string {
+    return `${CACHE_PREFIX}-${type}-${CACHE_VERSION}`;
+}
+
+function isCacheStorageAvailable(): boolean {
+    return typeof caches !== 'undefined';
+}
+
+// Returns the URLs currently stored for a media type, oldest first (Cache Storage keeps insertion order)
+export async function getCachedMediaUrls(type: MediaType): Promise<string[]> {
+    if (!isCacheStorageAvailable()) return [];
+    try {
+        const cache = await caches.open(cacheNameFor(type));
+        const requests = await cache.keys();
+        return requests.map(request => request.url);
+    } catch (error) {
+        console.error(`offlineMediaStore: Failed to list ${type} cache:`, error);
+        return [];
+    }
+}
+
+// Downloads one URL into the cache. Returns false when the file can't be stored
+// (network error, CORS-opaque response, non-2xx status).
+async function downloadToCache(cache: Cache, url: string): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { mode: 'cors', signal: controller.signal });
+        if (!response.ok) return false;
+        await cache.put(url, response);
+        return true;
+    } catch (error) {
+        console.warn(`offlineMediaStore: Could not download ${url}:`, error);
+        return false;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// Downloads any of the given URLs that aren't cached yet, one at a time so playback bandwidth
+// isn't starved, then trims the cache to maxEntries (oldest downloads go first).
+// Resolves with the number of newly stored files.
+export async function downloadMedia(type: MediaType, urls: string[], maxEntries: number): Promise<number> {
+    if (!isCacheStorageAvailable() || urls.length === 0) return 0;
+    const cache = await caches.open(cacheNameFor(type));
+    let storedCount = 0;
+
+    for (const url of urls) {
+        if (await cache.match(url)) continue;
+        if (await downloadToCache(cache, url)) storedCount++;
+    }
+
+    const requests = await cache.keys();
+    const keep = new Set(urls);
+    const excess = requests.length - maxEntries;
+    if (excess > 0) {
+        // Never evict files from the window we were just asked to keep
+        const evictable = requests.filter(request => !keep.has(request.url)).slice(0, excess);
+        await Promise.all(evictable.map(request => cache.delete(request)));
+    }
+    return storedCount;
+}
+
+// Creates an object URL for a cached file, or null if it isn't stored.
+// Callers own the returned URL and must revoke it.
+export async function createOfflineObjectUrl(type: MediaType, url: string): Promise<string | null> {
+    if (!isCacheStorageAvailable()) return null;
+    try {
+        const cache = await caches.open(cacheNameFor(type));
+        const response = await cache.match(url);
+        if (!response) return null;
+        return URL.createObjectURL(await response.blob());
+    } catch (error) {
+        console.error(`offlineMediaStore: Failed to read cached ${url}:`, error);
+        return null;
+    }
+}
+
+// Size of a response body read chunk by chunk, so a large file is never held in memory whole
+async function measureBody(response: Response): Promise<number> {
+    if (!response.body) return 0;
+    const reader = response.body.getReader();
+    let size = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+    }
+    return size;
+}
+
+// Total size of the offline library in bytes (Content-Length when present, otherwise the streamed body size)
+export async function getOfflineMediaBytes(): Promise<number> {
+    if (!isCacheStorageAvailable()) return 0;
+    let total = 0;
+    for (const type of OFFLINE_MEDIA_TYPES) {
+        const cache = await caches.open(cacheNameFor(type));
+        const responses = await cache.matchAll();
+        for (const response of responses) {
+            const contentLength = Number(response.headers.get('Content-Length'));
+            total += contentLength > 0 ? contentLength : await measureBody(response);
+        }
+    }
+    return total;
+}
+
+export async function clearOfflineMedia(): Promise<void> {
+    if (!isCacheStorageAvailable()) return;
+    await Promise.all(OFFLINE_MEDIA_TYPES.map(type => caches.delete(cacheNameFor(type))));
+    console.log('offlineMediaStore: Cleared offline media library.');
+}
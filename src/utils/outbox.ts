@@ -0,0 +1,183 @@
+// src/utils/outbox.ts
+// NIP-65 outbox model: authors publish to their own "write" relays (kind 10002), so that is where
+// their notes should be requested. Relay lists are cached in the local event store and refreshed
+// from the network; authors without a list fall back to the user's read relays.
+import NDK, { NDKEvent, NDKKind, NostrEvent } from '@nostr-dev-kit/ndk';
+import { DEFAULT_OUTBOX_MAX_RELAYS, DEFAULT_OUTBOX_RELAYS_PER_AUTHOR } from '../constants';
+import { eventStore } from './eventStore';
+import { idb } from './idb';
+
+const RELAY_LIST_KIND = NDKKind.RelayList; // 10002
+const RELAY_LIST_FETCH_TIMEOUT_MS = 8000;
+const RELAY_LIST_CHUNK_SIZE = 250; // Authors per kind 10002 request
+const RELAY_LIST_REFRESH_MS = 6 * 60 * 60 * 1000; // Re-fetch cached lists at most every 6 hours per session
+
+export interface OutboxSettings {
+    maxRelays: number;       // Cap on relays opened for author subscriptions
+    relaysPerAuthor: number; // Write relays used per author
+}
+
+export const DEFAULT_OUTBOX_SETTINGS: OutboxSettings = {
+    maxRelays: DEFAULT_OUTBOX_MAX_RELAYS,
+    relaysPerAuthor: DEFAULT_OUTBOX_RELAYS_PER_AUTHOR,
+};
+
+export interface RelayList {
+    pubkey: string;
+    createdAt: number;
+    read: string[];
+    write: string[];
+}
+
+// One subscription target: a relay and the authors to request from it
+export interface OutboxRelayGroup {
+    relayUrl: string;
+    authors: string[];
+}
+
+export interface OutboxPlan {
+    groups: OutboxRelayGroup[];
+    fallbackAuthors: string[]; // No usable relay list (or all their relays were cut): use the default relays
+}
+
+export async function loadOutboxSettings(): Promise<OutboxSettings> {
+    try {
+        const saved = await idb.loadOutboxSettingsFromDb();
+        return { ...DEFAULT_OUTBOX_SETTINGS, ...saved };
+    } catch (error) {
+        console.error('outbox: Failed to load settings, using defaults:', error);
+        return DEFAULT_OUTBOX_SETTINGS;
+    }
+}
+
+export async function saveOutboxSettings(settings: OutboxSettings): Promise<void> {
+    await idb.saveOutboxSettingsToDb({ ...settings });
+}
+
+// Lowercases the host and drops trailing slashes so the same relay isn't counted twice
+export function normalizeRelayUrl(url: string): string | null {
+    try {
+        const parsed = new URL(url.trim());
+        if (parsed.protocol !== 'wss:' && parsed.protocol !== 'ws:') return null;
+        return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+        return null;
+    }
+}
+
+// Parses 'r' tags; a tag without a marker means the relay is used for both reading and writing
+export function parseRelayList(event: Pick<NostrEvent, 'pubkey' | 'created_at' | 'tags'>): RelayList {
+    const read = new Set<string>();
+    const write = new Set<string>();
+    event.tags.filter(t => t[0] === 'r' && t[1]).forEach(t => {
+        const url = normalizeRelayUrl(t[1]);
+        if (!url) return;
+        const marker = t[2];
+        if (!marker || marker === 'read') read.add(url);
+        if (!marker || marker === 'write') write.add(url);
+    });
+    return { pubkey: event.pubkey, createdAt: event.created_at ?? 0, read: Array.from(read), write: Array.from(write) };
+}
+
+// --- Relay List Lookup ---
+
+const lastRefreshByPubkey = new Map<string, number>();
+
+async function fetchRelayListEvents(ndk: NDK, authors: string[]): Promise<NDKEvent[]> {
+    const results: NDKEvent[] = [];
+    for (let i = 0; i < authors.length; i += RELAY_LIST_CHUNK_SIZE) {
+        const chunk = authors.slice(i, i + RELAY_LIST_CHUNK_SIZE);
+        try {
+            const events = await Promise.race([
+                ndk.fetchEvents({ kinds: [RELAY_LIST_KIND], authors: chunk }),
+                new Promise<Set<NDKEvent>>(resolve => setTimeout(() => resolve(new Set()), RELAY_LIST_FETCH_TIMEOUT_MS)),
+            ]);
+            results.push(...events);
+        } catch (error) {
+            console.warn('outbox: Failed to fetch relay lists:', error);
+        }
+    }
+    return results;
+}
+
+// Returns the newest known relay list per author. Cached lists are returned as-is;
+// authors that are missing or haven't been refreshed this session are fetched from relays
+// (and the results cached) before returning.
+export async function getRelayLists(ndk: NDK, authors: string[]): Promise<Map<string, RelayList>> {
+    const lists = new Map<string, RelayList>();
+    const cached = await eventStore.queryEvents({ kinds: [RELAY_LIST_KIND], authors });
+    cached.forEach(event => {
+        const existing = lists.get(event.pubkey);
+        if (!existing || existing.createdAt < event.created_at) lists.set(event.pubkey, parseRelayList(event));
+    });
+
+    const now = Date.now();
+    const toRefresh = authors.filter(pubkey =>
+        !lists.has(pubkey) || now - (lastRefreshByPubkey.get(pubkey) ?? 0) > RELAY_LIST_REFRESH_MS
+    );
+    if (toRefresh.length === 0) return lists;
+
+    // Cached authors can be served immediately next time even if this refresh is slow
+    toRefresh.forEach(pubkey => lastRefreshByPubkey.set(pubkey, now));
+    const fetched = await fetchRelayListEvents(ndk, toRefresh);
+    fetched.forEach(event => {
+        const list = parseRelayList(event.rawEvent());
+        const existing = lists.get(list.pubkey);
+        if (!existing || existing.createdAt < list.createdAt) lists.set(list.pubkey, list);
+    });
+    if (fetched.length > 0) {
+        await eventStore.saveEvents(fetched.map(event => event.rawEvent()));
+    }
+    console.log(`outbox: ${lists.size}/${authors.length} authors have relay lists (${fetched.length} fetched).`);
+    return lists;
+}
+
+// --- Relay Selection ---
+
+// Picks relays so that each author is covered by up to `relaysPerAuthor` of their write relays,
+// preferring relays shared by many authors, without exceeding `maxRelays` in total.
+export function planOutboxRelays(
+    authors: string[],
+    relayLists: Map<string, RelayList>,
+    settings: OutboxSettings
+): OutboxPlan {
+    const writeRelaysByAuthor = new Map<string, string[]>();
+    const popularity = new Map<string, number>();
+    authors.forEach(pubkey => {
+        const write = relayLists.get(pubkey)?.write ?? [];
+        if (write.length === 0) return;
+        writeRelaysByAuthor.set(pubkey, write);
+        write.forEach(url => popularity.set(url, (popularity.get(url) ?? 0) + 1));
+    });
+
+    // Relays in order of how many followed authors write to them
+    const rankedRelays = Array.from(popularity.keys()).sort((a, b) => popularity.get(b)! - popularity.get(a)!);
+    const selectedRelays = new Set<string>();
+    const authorsByRelay = new Map<string, string[]>();
+    const coverage = new Map<string, number>();
+
+    const assign = (pubkey: string, url: string) => {
+        authorsByRelay.set(url, [...(authorsByRelay.get(url) ?? []), pubkey]);
+        coverage.set(pubkey, (coverage.get(pubkey) ?? 0) + 1);
+    };
+
+    // Each round gives every author one more relay: reuse an already-open relay when possible,
+    // otherwise open their most popular one while still under the cap
+    for (let round = 0; round < settings.relaysPerAuthor; round++) {
+        writeRelaysByAuthor.forEach((write, pubkey) => {
+            if ((coverage.get(pubkey) ?? 0) > round) return;
+            const candidates = rankedRelays.filter(url =>
+                write.includes(url) && !(authorsByRelay.get(url) ?? []).includes(pubkey)
+            );
+            const alreadyOpen = candidates.find(url => selectedRelays.has(url));
+            const choice = alreadyOpen ?? (selectedRelays.size < settings.maxRelays ? candidates[0] : undefined);
+            if (!choice) return;
+            selectedRelays.add(choice);
+            assign(pubkey, choice);
+        });
+    }
+
+    const fallbackAuthors = authors.filter(pubkey => !coverage.has(pubkey));
+    const groups = Array.from(authorsByRelay.entries()).map(([relayUrl, groupAuthors]) => ({ relayUrl, authors: groupAuthors }));
+    return { groups, fallbackAuthors };
+}
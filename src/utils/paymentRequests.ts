@@ -0,0 +1,91 @@
+// src/utils/paymentRequests.ts
+// Cashu payment requests (NUT-18) for the TV's tip jar. The request ('creqA...') is shown as a QR
+// code; a payer's wallet sends the proofs back over the Nostr transport, i.e. as a NIP-17 DM whose
+// content is the JSON payload, which the deposit listener picks up. The active request is stored so
+// the settings screen and the fullscreen overlay show the same code, across restarts too.
+import { PaymentRequest, PaymentRequestPayload, PaymentRequestTransportType, Proof, getEncodedTokenV4 } from '@cashu/cashu-ts';
+import NDK from '@nostr-dev-kit/ndk';
+import { nip19 } from 'nostr-tools';
+import { idb } from './idb';
+import { getDmInboxRelays } from './privateMessages';
+import { getWriteRelayUrls } from './relayConfig';
+
+const MAX_REQUEST_RELAYS = 3; // Relays listed in the request's nprofile; more only makes the QR denser
+
+export interface StoredPaymentRequest {
+    id: string;
+    encoded: string;      // 'creqA...', what the QR code holds
+    amount?: number;      // Sats; open amount if not set
+    description?: string;
+    mints: string[];      // Mints the payer may pay from (our trusted mints)
+    receivedSats: number; // Paid to this request so far
+    createdAt: number;
+}
+
+export async function createPaymentRequest(params: {
+    ndk: NDK;
+    pubkey: string; // Hex key the payment DMs are sent to
+    mints: string[];
+    amount?: number;
+    description?: string;
+}): Promise<StoredPaymentRequest> {
+    const { ndk, pubkey, mints, amount, description } = params;
+    // Payers deliver NIP-17 DMs to the relays in the nprofile, so prefer our own DM inbox relays
+    const inboxRelays = await getDmInboxRelays(ndk, pubkey);
+    const relays = (inboxRelays.length > 0 ? inboxRelays : getWriteRelayUrls()).slice(0, MAX_REQUEST_RELAYS);
+    const id = crypto.randomUUID().replace(/-/g, '').slice(0, 8);
+    const request = new PaymentRequest(
+        [{ type: PaymentRequestTransportType.NOSTR, target: nip19.nprofileEncode({ pubkey, relays }), tags: [['n', '17']] }],
+        id,
+        amount,
+        'sat',
+        mints,
+        description,
+        false // A tip jar takes any number of payments
+    );
+    const stored: StoredPaymentRequest = {
+        id,
+        encoded: request.toEncodedRequest(),
+        amount,
+        description,
+        mints,
+        receivedSats: 0,
+        createdAt: Date.now(),
+    };
+    await idb.savePaymentRequestToDb(stored);
+    return stored;
+}
+
+export async function loadPaymentRequest(): Promise<StoredPaymentRequest | null> {
+    try {
+        return (await idb.loadPaymentRequestFromDb()) as StoredPaymentRequest | null;
+    } catch (error) {
+        console.error('paymentRequests: Failed to load the payment request:', error);
+        return null;
+    }
+}
+
+export async function savePaymentRequest(request: StoredPaymentRequest | null): Promise<void> {
+    await idb.savePaymentRequestToDb(request);
+}
+
+// The NUT-18 payload carried by a DM, or null if the message is something else (e.g. a plain token)
+export function parsePaymentPayload(content: string): PaymentRequestPayload | null {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith('{')) return null;
+    try {
+        const payload = JSON.parse(trimmed);
+        const isValid = typeof payload?.mint === 'string'
+            && Array.isArray(payload.proofs)
+            && payload.proofs.length > 0
+            && payload.proofs.every((p: Partial<Proof>) => typeof p?.secret === 'string' && typeof p.C === 'string' && typeof p.amount === 'number');
+        return isValid ? { ...payload, unit: payload.unit ?? 'sat' } : null;
+    } catch {
+        return null;
+    }
+}
+
+// Payload proofs as a token, so they go through the same redemption path as DM'd tokens
+export function paymentPayloadToToken(payload: PaymentRequestPayload): string {
+    return getEncodedTokenV4({ mint: payload.mint, proofs: payload.proofs, unit: payload.unit, memo: payload.memo });
+}
@@ -0,0 +1,177 @@
+// src/utils/privateMessages.ts
+// Private messages used to move Cashu tokens: legacy NIP-04 kind 4 DMs and NIP-17 messages
+// (a kind 14 rumor, NIP-44 encrypted inside a kind 13 seal and a kind 1059 gift wrap, NIP-59).
+// Incoming messages of either kind are read transparently; the outgoing protocol is chosen per recipient.
+import NDK, { NDKEvent, NDKKind, NDKRelaySet, NDKUser, NostrEvent, giftWrap } from '@nostr-dev-kit/ndk';
+import { UseAuthReturn } from '../hooks/useAuth';
+import { idb } from './idb';
+import { getWriteRelayUrls } from './relayConfig';
+
+export const LEGACY_DM_KIND = 4;
+export const GIFT_WRAP_KIND = 1059;
+const SEAL_KIND = 13;
+const PRIVATE_DM_KIND = 14;
+const DM_RELAY_LIST_KIND = 10050 as NDKKind; // NIP-17 preferred DM relays
+const DM_RELAY_LIST_TIMEOUT_MS = 5000;
+// Gift wraps carry a randomized created_at up to two days in the past
+export const GIFT_WRAP_MAX_BACKDATE_SECONDS = 2 * 24 * 60 * 60;
+
+export type DmProtocol = 'auto' | 'nip04' | 'nip17';
+
+export interface DmProtocolSettings {
+    defaultProtocol: DmProtocol;
+    overrides: Record<string, DmProtocol>;           // Per-recipient choice (hex pubkey), set in Settings
+    learned: Record<string, Exclude<DmProtocol, 'auto'>>; // What each sender last used to message us
+}
+
+export const DEFAULT_DM_PROTOCOL_SETTINGS: DmProtocolSettings = {
+    defaultProtocol: 'auto',
+    overrides: {},
+    learned: {},
+};
+
+export interface PrivateMessage {
+    senderPubkey: string;
+    content: string;
+    createdAt: number; // The real timestamp (the rumor's, for gift wraps)
+    protocol: Exclude<DmProtocol, 'auto'>;
+}
+
+export interface SentPrivateMessage {
+    protocol: Exclude<DmProtocol, 'auto'>;
+    eventId: string; // The published event: the DM itself, or the gift wrap for NIP-17
+}
+
+export async function loadDmProtocolSettings(): Promise<DmProtocolSettings> {
+    try {
+        const saved = await idb.loadDmProtocolSettingsFromDb();
+        return { ...DEFAULT_DM_PROTOCOL_SETTINGS, ...saved };
+    } catch (error) {
+        console.error('privateMessages: Failed to load protocol settings, using defaults:', error);
+        return DEFAULT_DM_PROTOCOL_SETTINGS;
+    }
+}
+
+export async function saveDmProtocolSettings(settings: DmProtocolSettings): Promise<void> {
+    await idb.saveDmProtocolSettingsToDb({ ...settings });
+}
+
+// Remembers the protocol a sender used, so 'auto' answers them the same way
+async function rememberSenderProtocol(pubkey: string, protocol: Exclude<DmProtocol, 'auto'>): Promise<void> {
+    const settings = await loadDmProtocolSettings();
+    if (settings.learned[pubkey] === protocol) return;
+    await saveDmProtocolSettings({ ...settings, learned: { ...settings.learned, [pubkey]: protocol } });
+}
+
+// --- DM Relays ---
+
+const dmRelayCache = new Map<string, Promise<string[]>>();
+
+// Kind 10050 'relay' tags for a user, cached for the session. An empty list means they haven't opted in to NIP-17.
+export function getDmInboxRelays(ndk: NDK, pubkey: string): Promise<string[]> {
+    const cached = dmRelayCache.get(pubkey);
+    if (cached) return cached;
+
+    const lookup = (async () => {
+        try {
+            const event = await Promise.race([
+                ndk.fetchEvent({ kinds: [DM_RELAY_LIST_KIND], authors: [pubkey] }),
+                new Promise<null>(resolve => setTimeout(() => resolve(null), DM_RELAY_LIST_TIMEOUT_MS)),
+            ]);
+            return (event?.tags ?? []).filter(t => t[0] === 'relay' && t[1]?.startsWith('ws')).map(t => t[1]);
+        } catch (error) {
+            console.warn(`privateMessages: Failed to fetch DM relays for ${pubkey}:`, error);
+            return [];
+        }
+    })();
+    dmRelayCache.set(pubkey, lookup);
+    return lookup;
+}
+
+// Override, then the default setting; in 'auto' mode: whatever the recipient last messaged us with,
+// otherwise NIP-17 if they publish a DM relay list, otherwise NIP-04.
+export async function resolveOutgoingProtocol(ndk: NDK, recipientPubkey: string): Promise<Exclude<DmProtocol, 'auto'>> {
+    const settings = await loadDmProtocolSettings();
+    const chosen = settings.overrides[recipientPubkey] ?? settings.defaultProtocol;
+    if (chosen !== 'auto') return chosen;
+    const learned = settings.learned[recipientPubkey];
+    if (learned) return learned;
+    return (await getDmInboxRelays(ndk, recipientPubkey)).length > 0 ? 'nip17' : 'nip04';
+}
+
+// --- Sending ---
+
+// Encrypts and publishes a private message; returns the protocol that was used and the event's id
+export async function sendPrivateMessage(
+    ndk: NDK,
+    auth: UseAuthReturn,
+    recipientPubkey: string,
+    content: string,
+    extraTags: string[][] = []
+): Promise<SentPrivateMessage> {
+    const protocol = await resolveOutgoingProtocol(ndk, recipientPubkey);
+    const writeRelays = getWriteRelayUrls();
+
+    if (protocol === 'nip04') {
+        const dmEvent = new NDKEvent(ndk);
+        dmEvent.kind = LEGACY_DM_KIND;
+        dmEvent.created_at = Math.floor(Date.now() / 1000);
+        dmEvent.content = await auth.encryptDm(recipientPubkey, content, 'nip04');
+        dmEvent.tags = [['p', recipientPubkey], ...extraTags];
+        await dmEvent.publish(writeRelays.length > 0 ? NDKRelaySet.fromRelayUrls(writeRelays, ndk) : undefined);
+        return { protocol, eventId: dmEvent.id };
+    }
+
+    if (!ndk.signer) throw new Error('Signer not available');
+    const rumor = new NDKEvent(ndk);
+    rumor.kind = PRIVATE_DM_KIND;
+    rumor.created_at = Math.floor(Date.now() / 1000);
+    rumor.content = content;
+    rumor.tags = [['p', recipientPubkey], ...extraTags];
+    rumor.pubkey = (await ndk.signer.user()).pubkey;
+
+    const wrap = await giftWrap(rumor, new NDKUser({ pubkey: recipientPubkey }), ndk.signer, { scheme: 'nip44' });
+    // NIP-17: deliver to the recipient's DM relays; our write relays are a fallback for clients that don't look there
+    const inboxRelays = await getDmInboxRelays(ndk, recipientPubkey);
+    const relayUrls = Array.from(new Set([...inboxRelays, ...writeRelays]));
+    await wrap.publish(relayUrls.length > 0 ? NDKRelaySet.fromRelayUrls(relayUrls, ndk) : undefined);
+    return { protocol, eventId: wrap.id };
+}
+
+// --- Receiving ---
+
+// NDK's giftUnwrap checks the rumor author against the wrap's (throwaway) key, which rejects
+// every standard gift wrap, so unwrapping is done here through the signer's NIP-44 decryption.
+async function unwrapGiftWrap(event: NDKEvent, auth: UseAuthReturn): Promise<PrivateMessage | null> {
+    const seal = JSON.parse(await auth.decryptDm(event.pubkey, event.content, 'nip44')) as NostrEvent;
+    if (seal?.kind !== SEAL_KIND || !new NDKEvent(undefined, seal).verifySignature(false)) {
+        console.warn('privateMessages: Ignoring gift wrap with an invalid seal:', event.id);
+        return null;
+    }
+    const rumor = JSON.parse(await auth.decryptDm(seal.pubkey, seal.content, 'nip44')) as NostrEvent;
+    // The seal is signed by the real sender; a rumor claiming someone else is forged
+    if (!rumor || rumor.pubkey !== seal.pubkey) {
+        console.warn('privateMessages: Ignoring gift wrap whose rumor author does not match the seal:', event.id);
+        return null;
+    }
+    if (rumor.kind !== PRIVATE_DM_KIND) return null;
+    return { senderPubkey: rumor.pubkey, content: rumor.content, createdAt: rumor.created_at, protocol: 'nip17' };
+}
+
+// Decrypts a kind 4 DM or a kind 1059 gift wrap addressed to the current user.
+// Returns null for other kinds and for gift wraps that don't contain a direct message.
+export async function readPrivateMessage(event: NDKEvent, auth: UseAuthReturn): Promise<PrivateMessage | null> {
+    let message: PrivateMessage | null = null;
+    if (event.kind === LEGACY_DM_KIND) {
+        const content = await auth.decryptDm(event.pubkey, event.content, 'nip04');
+        message = { senderPubkey: event.pubkey, content, createdAt: event.created_at ?? 0, protocol: 'nip04' };
+    } else if (event.kind === GIFT_WRAP_KIND) {
+        message = await unwrapGiftWrap(event, auth);
+    }
+    if (message) {
+        rememberSenderProtocol(message.senderPubkey, message.protocol).catch(error =>
+            console.warn('privateMessages: Failed to remember sender protocol:', error)
+        );
+    }
+    return message;
+}
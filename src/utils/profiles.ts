@@ -0,0 +1,60 @@
+// src/utils/profiles.ts
+// Saved accounts. Venue TVs are shared by several hosts, each with their own identity, follows and
+// wallet. idb keeps every profile's records under the profile's id; switching changes the active id
+// and reloads the app, so every hook and module cache starts over on the new profile's data.
+import { isWalletMnemonicBackedUp } from './cashuSeed';
+import { idb, ProfileKind, StoredProfile } from './idb';
+
+export async function loadProfiles(): Promise<StoredProfile[]> {
+    try {
+        return await idb.loadProfilesFromDb();
+    } catch (error) {
+        console.error('profiles: Failed to load profiles:', error);
+        return [];
+    }
+}
+
+export function getActiveProfileId(): Promise<string> {
+    return idb.getActiveProfileId();
+}
+
+// Records who is logged in on the active profile, so the switcher can list it
+export async function rememberActiveProfile(kind: ProfileKind, pubkey: string): Promise<void> {
+    const [profiles, id] = await Promise.all([loadProfiles(), getActiveProfileId()]);
+    const existing = profiles.find(profile => profile.id === id);
+    const updated: StoredProfile = { id, kind, pubkey, addedAt: existing?.addedAt ?? Date.now() };
+    await idb.saveProfilesToDb([...profiles.filter(profile => profile.id !== id), updated]);
+}
+
+// What logging out would leave behind on the active profile, or null when its wallet is empty and
+// recoverable elsewhere. Logout refuses to go ahead until the user has seen this.
+export async function getLogoutWarning(): Promise<string | null> {
+    const [proofs, isBackedUp] = await Promise.all([idb.getAllProofs(), isWalletMnemonicBackedUp()]);
+    const balance = proofs.reduce((sum, proof) => sum + proof.amount, 0);
+    const left: string[] = [];
+    if (balance > 0) left.push(`${balance} sats`);
+    if (!isBackedUp) left.push('a recovery phrase that was never backed up');
+    if (left.length === 0) return null;
+    return `This account's wallet still holds ${left.join(' and ')}. It stays in the account list: log in as this account again to reach it.`;
+}
+
+// On logout: keeps the profile listed with its credentials cleared and moves to a fresh, empty one
+// (reloading the app), so whoever logs in next doesn't inherit this account's wallet, mnemonic or
+// tags. They stay under the old id, and logging in on that profile again picks them back up.
+export async function logOutActiveProfile(): Promise<void> {
+    const [profiles, id] = await Promise.all([loadProfiles(), getActiveProfileId()]);
+    await idb.saveProfilesToDb(profiles.map(profile => profile.id === id ? { ...profile, loggedOut: true } : profile));
+    await addProfile();
+}
+
+export async function switchProfile(id: string): Promise<void> {
+    if (id === await getActiveProfileId()) return;
+    console.log(`profiles: Switching to profile '${id}'.`);
+    await idb.saveActiveProfileIdToDb(id);
+    window.location.reload();
+}
+
+// Switches to a new, empty profile to log in on
+export async function addProfile(): Promise<void> {
+    await switchProfile(crypto.randomUUID().replace(/-/g, '').slice(0, 8));
+}
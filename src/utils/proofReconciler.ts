@@ -0,0 +1,138 @@
+// src/utils/proofReconciler.ts
+// Keeps the stored proofs in line with what the mints say. Storage only knows what this device did,
+// so proofs spent elsewhere (a double-spent token, a restored backup used on another device) or stuck
+// pending at the mint would still count toward the balance. The reconciler asks each mint about the
+// stored proofs (NUT-07), deletes the spent ones and flags the pending ones so they aren't offered
+// for payments. It also merges piles of small proofs, so a tip doesn't need dozens of inputs.
+import { CheckStateEnum, Proof } from '@cashu/cashu-ts';
+import { idb, StoredProof } from './idb';
+import { cashuHelper } from './cashu';
+import { beginSend, finishSend, markCountersReserved, markTokenCreated, recoverSend } from './sendJournal';
+
+export const RECONCILE_INTERVAL_MS = 10 * 60 * 1000;
+const STATE_CHECK_BATCH_SIZE = 100;    // Proofs per NUT-07 request
+const DUST_MAX_AMOUNT = 8;             // Proofs this small count as dust
+const CONSOLIDATE_MIN_DUST_PROOFS = 16; // Dust proofs held at one mint before they're merged
+const CONSOLIDATE_MAX_FEE_PERCENT = 5; // Leave the dust alone if the mint's input fees would take more
+
+export interface ReconcileResult {
+    removedSats: number;         // Spent proofs deleted from storage
+    pendingSats: number;         // Held back from payments until the mint settles them
+    consolidatedMints: string[]; // Mints whose dust was merged
+    changed: boolean;            // Stored proofs or pending flags changed, so the wallet should reload
+}
+
+// Secrets the mints last reported as pending. Only kept for the session; the next run rechecks them.
+let pendingSecrets = new Set<string>();
+let lastRunAt = 0;
+let running: Promise<ReconcileResult> | null = null;
+
+export function isProofPending(proof: Proof): boolean {
+    return pendingSecrets.has(proof.secret);
+}
+
+async function checkMintProofs(mintUrl: string, proofs: StoredProof[]): Promise<{ spent: StoredProof[]; pending: StoredProof[] }> {
+    const spent: StoredProof[] = [];
+    const pending: StoredProof[] = [];
+    for (let start = 0; start < proofs.length; start += STATE_CHECK_BATCH_SIZE) {
+        const batch = proofs.slice(start, start + STATE_CHECK_BATCH_SIZE);
+        const states = await cashuHelper.checkProofStates(mintUrl, batch);
+        batch.forEach((proof, index) => {
+            if (states[index] === CheckStateEnum.SPENT) spent.push(proof);
+            else if (states[index] === CheckStateEnum.PENDING) pending.push(proof);
+        });
+    }
+    return { spent, pending };
+}
+
+// Swaps a mint's dust for fewer, larger proofs. Journaled like a send, since the old proofs are gone
+// as soon as the mint answers. Returns whether the stored proofs may have changed.
+async function consolidateDust(mintUrl: string, proofs: StoredProof[]): Promise<boolean> {
+    const dust = proofs.filter(p => p.amount <= DUST_MAX_AMOUNT);
+    if (dust.length < CONSOLIDATE_MIN_DUST_PROOFS) return false;
+    const amount = cashuHelper.getProofsBalance(dust);
+    const wallet = await cashuHelper.initCashuWallet(mintUrl);
+    const fee = wallet.getFeesForProofs(dust);
+    if (fee * 100 > amount * CONSOLIDATE_MAX_FEE_PERCENT) {
+        console.log(`proofReconciler: Not merging ${dust.length} small proofs at ${mintUrl}; the ${fee} sat fee is too high for ${amount} sats.`);
+        return false;
+    }
+
+    let entry = await beginSend('swap', mintUrl, amount, undefined, dust);
+    try {
+        const { proofs: merged } = await cashuHelper.consolidateProofs(mintUrl, dust, async range => {
+            entry = await markCountersReserved(entry, range);
+        });
+        entry = await markTokenCreated(entry, [], merged);
+        await idb.deleteProofsBySecret(dust.map(p => p.secret));
+        await idb.saveProofs(merged.map(p => ({ ...p, mintUrl })));
+        await finishSend(entry);
+        console.log(`proofReconciler: Merged ${dust.length} proofs (${amount} sats) into ${merged.length} at ${mintUrl}.`);
+    } catch (error) {
+        console.error(`proofReconciler: Merging small proofs at ${mintUrl} failed:`, error);
+        // The swap may have gone through before the error; the journal settles it either way
+        await recoverSend(entry);
+    }
+    return true;
+}
+
+async function runReconcile(): Promise<ReconcileResult> {
+    const stored = await idb.getAllProofs();
+    const byMint = new Map<string, StoredProof[]>();
+    stored.forEach(proof => byMint.set(proof.mintUrl, [...(byMint.get(proof.mintUrl) ?? []), proof]));
+
+    const nextPending = new Set<string>();
+    const consolidatedMints: string[] = [];
+    let removedSats = 0;
+    let pendingSats = 0;
+    let proofsChanged = false;
+
+    for (const [mintUrl, mintProofs] of byMint) {
+        let checked: { spent: StoredProof[]; pending: StoredProof[] };
+        try {
+            checked = await checkMintProofs(mintUrl, mintProofs);
+        } catch (error) {
+            console.warn(`proofReconciler: Could not check proofs at ${mintUrl}:`, error);
+            // Mint unreachable: keep whatever we knew about its proofs
+            mintProofs.filter(isProofPending).forEach(p => nextPending.add(p.secret));
+            continue;
+        }
+
+        if (checked.spent.length > 0) {
+            await idb.deleteProofsBySecret(checked.spent.map(p => p.secret));
+            removedSats += cashuHelper.getProofsBalance(checked.spent);
+            proofsChanged = true;
+            console.warn(`proofReconciler: Removed ${checked.spent.length} spent proofs (${cashuHelper.getProofsBalance(checked.spent)} sats) from ${mintUrl}.`);
+        }
+        checked.pending.forEach(p => nextPending.add(p.secret));
+        pendingSats += cashuHelper.getProofsBalance(checked.pending);
+
+        const settled = new Set([...checked.spent, ...checked.pending].map(p => p.secret));
+        try {
+            if (await consolidateDust(mintUrl, mintProofs.filter(p => !settled.has(p.secret)))) {
+                consolidatedMints.push(mintUrl);
+                proofsChanged = true;
+            }
+        } catch (error) {
+            console.warn(`proofReconciler: Skipping consolidation at ${mintUrl}:`, error);
+        }
+    }
+
+    const pendingChanged = nextPending.size !== pendingSecrets.size || [...nextPending].some(secret => !pendingSecrets.has(secret));
+    pendingSecrets = nextPending;
+    if (nextPending.size > 0) console.warn(`proofReconciler: ${nextPending.size} proofs (${pendingSats} sats) are pending at their mint.`);
+    return { removedSats, pendingSats, consolidatedMints, changed: proofsChanged || pendingChanged };
+}
+
+// Checks every stored proof with its mint, at most once per RECONCILE_INTERVAL_MS unless forced.
+// Concurrent callers (each useWallet instance schedules runs) share the run in progress; null means
+// it was skipped because the last run is recent enough.
+export async function reconcileStoredProofs(force = false): Promise<ReconcileResult | null> {
+    if (running) return running;
+    if (!force && Date.now() - lastRunAt < RECONCILE_INTERVAL_MS) return null;
+    lastRunAt = Date.now();
+    running = runReconcile().finally(() => {
+        running = null;
+    });
+    return running;
+}
@@ -0,0 +1,24 @@
+// src/utils/pubkeyInput.ts
+// Turns what someone types or scans to name a Nostr user into a hex pubkey: an npub, an nprofile
+// (its relay hints are not needed) or a NIP-05 address, with or without a 'nostr:' prefix.
+import * as nip19 from 'nostr-tools/nip19';
+import { isNip05, queryProfile } from 'nostr-tools/nip05';
+
+export async function resolvePubkey(input: string): Promise<string> {
+    const value = input.trim().replace(/^nostr:/, '');
+    if (isNip05(value)) {
+        const pointer = await queryProfile(value);
+        if (!pointer) throw new Error(`No Nostr user found for ${value}`);
+        return pointer.pubkey;
+    }
+    let decoded: ReturnType<typeof nip19.decode>;
+    try {
+        decoded = nip19.decode(value);
+    } catch {
+        throw new Error('Enter an npub, nprofile or NIP-05 address');
+    }
+    if (decoded.type === 'npub') return decoded.data;
+    if (decoded.type === 'nprofile') return decoded.data.pubkey;
+    if (decoded.type === 'nsec') throw new Error('That is a private key. Use it to log in instead.');
+    throw new Error(`Expected an npub or nprofile, got ${decoded.type}`);
+}
@@ -0,0 +1,138 @@
+// src/utils/relayConfig.ts
+// User-editable relay list. RELAYS in constants.ts is only the default; the saved list decides which
+// relays the NDK pool keeps open (enabled + read) and where our own events are published (enabled + write).
+// Also fetches NIP-11 relay information documents for the relay manager in Settings.
+import NDK, { NDKRelaySet, normalizeRelayUrl as toPoolUrl } from '@nostr-dev-kit/ndk';
+import { RELAYS } from '../constants';
+import { idb } from './idb';
+import { normalizeRelayUrl } from './outbox';
+
+const RELAY_INFO_TIMEOUT_MS = 5000;
+
+export interface RelayConfig {
+    url: string;
+    read: boolean;    // Used for subscriptions (kept connected in the pool)
+    write: boolean;   // Used when publishing
+    enabled: boolean; // Disabled relays stay in the list but are not used at all
+}
+
+// Subset of the NIP-11 relay information document shown in Settings
+export interface RelayInfo {
+    name?: string;
+    description?: string;
+    pubkey?: string;
+    contact?: string;
+    software?: string;
+    version?: string;
+    supported_nips?: number[];
+    limitation?: {
+        max_message_length?: number;
+        max_subscriptions?: number;
+        max_filters?: number;
+        max_limit?: number;
+        min_pow_difficulty?: number;
+        auth_required?: boolean;
+        payment_required?: boolean;
+        restricted_writes?: boolean;
+    };
+}
+
+export const DEFAULT_RELAY_CONFIGS: RelayConfig[] = RELAYS.map(url => ({ url, read: true, write: true, enabled: true }));
+
+// The list currently applied to the pool; read synchronously by subscriptions that need default relays
+let activeConfigs: RelayConfig[] = DEFAULT_RELAY_CONFIGS;
+// Every URL we have put in the pool, so disabling one can remove it without touching outbox relays
+const managedUrls = new Set<string>(RELAYS);
+
+const isRelayConfig = (value: unknown): value is RelayConfig =>
+    !!value && typeof value === 'object' && typeof (value as RelayConfig).url === 'string';
+
+export async function loadRelayConfigs(): Promise<RelayConfig[]> {
+    try {
+        const saved = await idb.loadRelayConfigsFromDb();
+        const configs = saved?.filter(isRelayConfig);
+        return configs && configs.length > 0 ? configs : DEFAULT_RELAY_CONFIGS;
+    } catch (error) {
+        console.error('relayConfig: Failed to load relay list, using defaults:', error);
+        return DEFAULT_RELAY_CONFIGS;
+    }
+}
+
+export async function saveRelayConfigs(configs: RelayConfig[]): Promise<void> {
+    await idb.saveRelayConfigsToDb(configs.map(config => ({ ...config })));
+}
+
+// Validates and normalizes a relay URL typed by the user; returns null if it isn't a ws(s) URL
+export function parseRelayInput(input: string): string | null {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+    return normalizeRelayUrl(/^wss?:\/\//i.test(trimmed) ? trimmed : `wss://${trimmed}`);
+}
+
+export function getReadRelayUrls(): string[] {
+    const urls = activeConfigs.filter(config => config.enabled && config.read).map(config => config.url);
+    // Never leave subscriptions with nowhere to go
+    return urls.length > 0 ? urls : RELAYS;
+}
+
+export function getWriteRelayUrls(): string[] {
+    return activeConfigs.filter(config => config.enabled && config.write).map(config => config.url);
+}
+
+// Relay set for publishing our own events; undefined lets NDK pick (e.g. when no write relay is configured)
+export function getWriteRelaySet(ndk: NDK): NDKRelaySet | undefined {
+    const urls = getWriteRelayUrls();
+    return urls.length > 0 ? NDKRelaySet.fromRelayUrls(urls, ndk) : undefined;
+}
+
+// Connects enabled read relays and drops relays the user removed or disabled.
+// The pool keys relays by NDK's own normalized URL (with a trailing slash), hence toPoolUrl.
+export function applyRelayConfigs(ndk: NDK, configs: RelayConfig[]): void {
+    activeConfigs = configs;
+    const readPoolUrls = getReadRelayUrls().map(toPoolUrl);
+
+    readPoolUrls.forEach(url => {
+        managedUrls.add(url);
+        if (!ndk.pool.relays.has(url)) ndk.addExplicitRelay(url, undefined, true);
+    });
+    managedUrls.forEach(url => {
+        const poolUrl = toPoolUrl(url);
+        if (readPoolUrls.includes(poolUrl)) return;
+        if (ndk.pool.relays.has(poolUrl)) ndk.pool.removeRelay(poolUrl);
+        // The explicitRelayUrls setter rebuilds the whole pool, so edit the list in place
+        const explicitIndex = ndk.explicitRelayUrls.indexOf(poolUrl);
+        if (explicitIndex !== -1) ndk.explicitRelayUrls.splice(explicitIndex, 1);
+    });
+    console.log(`relayConfig: Applied ${readPoolUrls.length} read / ${getWriteRelayUrls().length} write relays.`);
+}
+
+// --- NIP-11 ---
+
+const relayInfoCache = new Map<string, Promise<RelayInfo | null>>();
+
+// Fetches the relay's NIP-11 document (cached per session; failed lookups are retried next time)
+export function fetchRelayInfo(url: string): Promise<RelayInfo | null> {
+    const cached = relayInfoCache.get(url);
+    if (cached) return cached;
+
+    const lookup = (async () => {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), RELAY_INFO_TIMEOUT_MS);
+        try {
+            const response = await fetch(url.replace(/^ws/i, 'http'), {
+                headers: { Accept: 'application/nostr+json' },
+                signal: controller.signal,
+            });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return (await response.json()) as RelayInfo;
+        } catch (error) {
+            console.warn(`relayConfig: Could not fetch NIP-11 info for ${url}:`, error);
+            relayInfoCache.delete(url);
+            return null;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    })();
+    relayInfoCache.set(url, lookup);
+    return lookup;
+}
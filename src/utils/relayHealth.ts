@@ -0,0 +1,101 @@
+// src/utils/relayHealth.ts
+// Per-relay health for the relay manager in Settings: connection state, connect latency,
+// events received and the last error, collected from NDK pool and relay events.
+import NDK, { NDKRelay, NDKRelayStatus, normalizeRelayUrl as toPoolUrl } from '@nostr-dev-kit/ndk';
+
+export interface RelayHealth {
+    url: string;
+    inPool: boolean;
+    status: NDKRelayStatus | null;
+    connected: boolean;
+    latencyMs: number | null;      // Time the last connection attempt took to open
+    eventsReceived: number;
+    lastError: string | null;
+    lastErrorAt: number | null;
+}
+
+interface RelayStats {
+    connectingSince: number | null;
+    latencyMs: number | null;
+    eventsReceived: number;
+    lastError: string | null;
+    lastErrorAt: number | null;
+}
+
+const statsByUrl = new Map<string, RelayStats>();
+const instrumentedRelays = new WeakSet<NDKRelay>();
+const trackedInstances = new WeakSet<NDK>();
+
+const getStats = (url: string): RelayStats => {
+    let stats = statsByUrl.get(url);
+    if (!stats) {
+        stats = { connectingSince: null, latencyMs: null, eventsReceived: 0, lastError: null, lastErrorAt: null };
+        statsByUrl.set(url, stats);
+    }
+    return stats;
+};
+
+const recordError = (url: string, message: string) => {
+    const stats = getStats(url);
+    stats.lastError = message;
+    stats.lastErrorAt = Date.now();
+};
+
+// Hooks into a relay once. NDK calls addValidatedEvent/addNonValidatedEvent for every event a
+// subscription receives from the relay, which makes them a convenient event counter.
+function instrumentRelay(relay: NDKRelay) {
+    if (instrumentedRelays.has(relay)) return;
+    instrumentedRelays.add(relay);
+    const url = relay.url;
+
+    const countEvent = <T extends () => void>(original: T) => function (this: NDKRelay) {
+        getStats(url).eventsReceived++;
+        return original.call(this);
+    };
+    relay.addValidatedEvent = countEvent(relay.addValidatedEvent);
+    relay.addNonValidatedEvent = countEvent(relay.addNonValidatedEvent);
+
+    relay.on('notice', (notice: string) => recordError(url, `Notice: ${notice}`));
+    relay.on('auth:failed', (error: Error) => recordError(url, `Auth failed: ${error.message}`));
+    relay.on('publish:failed', (_event, error: Error) => recordError(url, `Publish failed: ${error.message}`));
+    relay.on('disconnect', () => {
+        // Only count drops of an open connection, not failed attempts (those show as not connected)
+        if (getStats(url).connectingSince === null) recordError(url, 'Connection lost');
+    });
+}
+
+// Starts collecting health for every relay in the pool, including relays added later
+export function startRelayHealthTracking(ndk: NDK): void {
+    if (trackedInstances.has(ndk)) return;
+    trackedInstances.add(ndk);
+
+    ndk.pool.relays.forEach(instrumentRelay);
+    ndk.pool.on('relay:connecting', (relay: NDKRelay) => {
+        instrumentRelay(relay);
+        getStats(relay.url).connectingSince = Date.now();
+    });
+    ndk.pool.on('relay:connect', (relay: NDKRelay) => {
+        instrumentRelay(relay);
+        const stats = getStats(relay.url);
+        if (stats.connectingSince !== null) stats.latencyMs = Date.now() - stats.connectingSince;
+        stats.connectingSince = null;
+    });
+}
+
+// Snapshot for a configured relay URL; relays that aren't in the pool (disabled, write-only) report as such
+export function getRelayHealth(ndk: NDK, url: string): RelayHealth {
+    const poolUrl = toPoolUrl(url);
+    const relay = ndk.pool.relays.get(poolUrl);
+    if (relay) instrumentRelay(relay);
+    const stats = getStats(poolUrl);
+    return {
+        url,
+        inPool: !!relay,
+        status: relay ? relay.status : null,
+        connected: relay ? relay.status >= NDKRelayStatus.CONNECTED : false,
+        latencyMs: stats.latencyMs,
+        eventsReceived: stats.eventsReceived,
+        lastError: stats.lastError,
+        lastErrorAt: stats.lastErrorAt,
+    };
+}
@@ -0,0 +1,227 @@
+// src/utils/sendJournal.ts
+// Crash-safe bookkeeping for Cashu sends. A send goes through three steps: the inputs are reserved
+// and handed to the mint, the swap returns the proofs to send plus our change ('token-created'), and
+// the token DM or nutzap is published. Each step is written to IndexedDB before moving on, so if the
+// app dies half way, recoverSendJournal can tell from the entry (and the mint's view of the proofs)
+// whether to finish the send or roll it back. Internal swaps (proof consolidation) and Lightning
+// payments (melts) are journaled the same way, with everything in the kept proofs and nothing to publish.
+import NDK from '@nostr-dev-kit/ndk';
+import { CheckStateEnum, Proof } from '@cashu/cashu-ts';
+import { idb, OutputCounterRange, SendJournalEntry } from './idb';
+import { cashuHelper } from './cashu';
+import { getNutzapInfo, publishNutzap } from './nutzap';
+
+// Entries a send in this tab is still working on. Journal recovery leaves them to their send.
+const inFlightEntryIds = new Set<string>();
+let startupRecovery: Promise<void> | null = null;
+
+// Records a send before the mint is contacted. `reservedProofs` are all the proofs offered for the swap.
+export async function beginSend(
+    kind: SendJournalEntry['kind'],
+    mintUrl: string,
+    amount: number,
+    recipientPubkey: string | undefined,
+    reservedProofs: Proof[],
+    nutzap?: SendJournalEntry['nutzap']
+): Promise<SendJournalEntry> {
+    const now = Date.now();
+    const entry: SendJournalEntry = {
+        id: crypto.randomUUID(),
+        kind,
+        mintUrl,
+        amount,
+        recipientPubkey,
+        step: 'reserved',
+        reservedProofs: reservedProofs.map(stripMintUrl),
+        nutzap,
+        createdAt: now,
+        updatedAt: now,
+    };
+    inFlightEntryIds.add(entry.id); // Before the write, so recovery can never see it unclaimed
+    await idb.saveSendJournalEntry(entry);
+    return entry;
+}
+
+// Deterministic outputs of the swap (or melt): must be recorded before the mint is asked for them
+export async function markCountersReserved(entry: SendJournalEntry, range: OutputCounterRange): Promise<SendJournalEntry> {
+    const updated: SendJournalEntry = { ...entry, outputCounters: [...(entry.outputCounters ?? []), range], updatedAt: Date.now() };
+    await idb.saveSendJournalEntry(updated);
+    return updated;
+}
+
+// The swap succeeded: must be recorded before the wallet's stored proofs are updated
+export async function markTokenCreated(
+    entry: SendJournalEntry,
+    sendProofs: Proof[],
+    keepProofs: Proof[],
+    token?: string
+): Promise<SendJournalEntry> {
+    const updated: SendJournalEntry = {
+        ...entry,
+        step: 'token-created',
+        sendProofs: sendProofs.map(stripMintUrl),
+        keepProofs: keepProofs.map(stripMintUrl),
+        token,
+        updatedAt: Date.now(),
+    };
+    await idb.saveSendJournalEntry(updated);
+    return updated;
+}
+
+export async function markPublished(entry: SendJournalEntry): Promise<SendJournalEntry> {
+    const updated: SendJournalEntry = { ...entry, step: 'published', updatedAt: Date.now() };
+    await idb.saveSendJournalEntry(updated);
+    return updated;
+}
+
+// The send is settled one way or the other (sent, or its proofs are back in the wallet)
+export async function finishSend(entry: SendJournalEntry): Promise<void> {
+    await idb.deleteSendJournalEntry(entry.id);
+    inFlightEntryIds.delete(entry.id);
+}
+
+// The send gave up without settling (e.g. a nutzap that couldn't be published): the entry stays in the
+// journal for recovery on the next start
+export function releaseSend(entry: SendJournalEntry): void {
+    inFlightEntryIds.delete(entry.id);
+}
+
+// Stored proofs are a plain Proof plus the mint URL; the journal keeps the mint once per entry
+function stripMintUrl(proof: Proof): Proof {
+    const { mintUrl: _mintUrl, ...plain } = proof as Proof & { mintUrl?: string };
+    return plain;
+}
+
+// Makes the stored proofs match a completed swap: reserved inputs that didn't come back are deleted
+// and the kept proofs are stored. Safe to repeat, since the swap may already have been applied.
+async function applySwapToStorage(entry: SendJournalEntry, storedSecrets: Set<string>): Promise<void> {
+    const keepProofs = entry.keepProofs ?? [];
+    const keepSecrets = new Set(keepProofs.map(p => p.secret));
+    await idb.deleteProofsBySecret(entry.reservedProofs.filter(p => !keepSecrets.has(p.secret)).map(p => p.secret));
+    await idb.saveProofs(keepProofs.filter(p => !storedSecrets.has(p.secret)).map(p => ({ ...p, mintUrl: entry.mintUrl })));
+}
+
+// Publishes an unfinished nutzap again. Its proofs are locked to the recipient, so publishing is the
+// only way to deliver them. Returns false when that isn't possible yet (no signer, no nutzap info).
+async function republishNutzap(entry: SendJournalEntry, ndk: NDK | undefined): Promise<boolean> {
+    const sendProofs = entry.sendProofs ?? [];
+    const states = await cashuHelper.checkProofStates(entry.mintUrl, sendProofs);
+    if (states.includes(CheckStateEnum.PENDING)) return false;
+    if (states.includes(CheckStateEnum.SPENT)) {
+        console.log(`sendJournal: Nutzap ${entry.id} was already redeemed by its recipient.`);
+        return true;
+    }
+    if (!ndk?.signer || !entry.recipientPubkey) return false;
+    const info = await getNutzapInfo(ndk, entry.recipientPubkey);
+    if (!info) {
+        console.warn(`sendJournal: Nutzap info for ${entry.recipientPubkey} not found; nutzap ${entry.id} stays unpublished.`);
+        return false;
+    }
+    const event = await publishNutzap(ndk, info, {
+        recipientPubkey: entry.recipientPubkey,
+        mintUrl: entry.mintUrl,
+        proofs: sendProofs,
+        ...entry.nutzap,
+    });
+    console.log(`sendJournal: Published unfinished nutzap ${entry.id} of ${entry.amount} sats:`, event.id);
+    return true;
+}
+
+// Settles one unfinished entry. Returns false when the mint couldn't give a definite answer (or a nutzap
+// couldn't be published yet), in which case the entry is kept for the next attempt.
+async function recoverEntry(entry: SendJournalEntry, storedSecrets: Set<string>, ndk: NDK | undefined): Promise<boolean> {
+    if (entry.step === 'reserved') {
+        // The swap may or may not have reached the mint: the inputs' state tells
+        const states = await cashuHelper.checkProofStates(entry.mintUrl, entry.reservedProofs);
+        if (states.includes(CheckStateEnum.PENDING)) return false;
+        const spent = entry.reservedProofs.filter((_, index) => states[index] === CheckStateEnum.SPENT);
+        if (spent.length === 0) {
+            console.log(`sendJournal: Send ${entry.id} never reached the mint; its proofs stay in the wallet.`);
+            return true;
+        }
+        // The mint swapped them but we never saw the outputs: derive them again from the reserved counters.
+        // Outputs locked to a nutzap recipient aren't deterministic, so only the change comes back for those.
+        const { proofs: unspentOutputs, hasPending } = await cashuHelper.restoreReservedOutputs(entry.mintUrl, entry.outputCounters ?? []);
+        if (hasPending) return false; // e.g. a melt still being paid: its inputs may come back
+        const restored = unspentOutputs.filter(p => !storedSecrets.has(p.secret));
+        await idb.deleteProofsBySecret(spent.map(p => p.secret));
+        await idb.saveProofs(restored.map(p => ({ ...p, mintUrl: entry.mintUrl })));
+        const spentSats = cashuHelper.getProofsBalance(spent);
+        const restoredSats = cashuHelper.getProofsBalance(restored);
+        if (entry.kind === 'melt') {
+            console.log(`sendJournal: Payment ${entry.id} of ${entry.amount} sats reached ${entry.mintUrl}; restored ${restoredSats} sats of change and unspent outputs.`);
+        } else if (restoredSats < spentSats) {
+            console.error(`sendJournal: Send ${entry.id} was swapped at ${entry.mintUrl} but its response was lost; restored ${restoredSats} of ${spentSats} sats.`);
+        } else {
+            console.log(`sendJournal: Restored the outputs of send ${entry.id} (${restoredSats} sats) at ${entry.mintUrl}.`);
+        }
+        return true;
+    }
+
+    await applySwapToStorage(entry, storedSecrets);
+    if (entry.step === 'published' || entry.kind === 'swap' || entry.kind === 'melt') return true;
+
+    // 'token-created': the swap is done, but we don't know whether the recipient was told
+    const sendProofs = entry.sendProofs ?? [];
+    // Locked to the recipient's key, so only they can spend these now
+    if (entry.kind === 'nutzap') return republishNutzap(entry, ndk);
+    if (sendProofs.every(p => storedSecrets.has(p.secret))) {
+        return true; // The failed DM's token was already put back in the wallet
+    }
+    const states = await cashuHelper.checkProofStates(entry.mintUrl, sendProofs);
+    if (states.includes(CheckStateEnum.PENDING)) return false;
+    if (states.includes(CheckStateEnum.SPENT)) {
+        console.log(`sendJournal: Token ${entry.id} was already redeemed by its recipient.`);
+        return true;
+    }
+    // Nobody has redeemed it: take it back rather than guess whether the DM went out
+    if (!entry.token) return true;
+    const { proofs: reclaimed, mintUrl } = await cashuHelper.redeemToken(entry.token);
+    await idb.saveProofs(reclaimed.map(p => ({ ...p, mintUrl })));
+    console.log(`sendJournal: Reclaimed ${cashuHelper.getProofsBalance(reclaimed)} sats from unfinished send ${entry.id}.`);
+    return true;
+}
+
+// Settles a single entry, e.g. right after its swap failed in an unknown way. Returns whether it was
+// settled; if not, the entry stays in the journal and recoverSendJournal retries it on the next start.
+// Either way the calling send is done with it. `ndk` (with a signer) is needed to publish unfinished nutzaps.
+export async function recoverSend(entry: SendJournalEntry, ndk?: NDK): Promise<boolean> {
+    try {
+        // Read fresh: earlier recoveries may have changed the stored proofs
+        const storedSecrets = new Set((await idb.getAllProofs()).map(p => p.secret));
+        if (!(await recoverEntry(entry, storedSecrets, ndk))) {
+            console.warn(`sendJournal: Send ${entry.id} at ${entry.mintUrl} can't be settled yet; will retry later.`);
+            return false;
+        }
+        await finishSend(entry);
+        return true;
+    } catch (error) {
+        console.error(`sendJournal: Could not recover send ${entry.id}; will retry later:`, error);
+        return false;
+    } finally {
+        releaseSend(entry);
+    }
+}
+
+// Replays or rolls back every send left unfinished by a previous session. Entries a send in this tab
+// is still working on are skipped; entries that can't be settled yet (mint offline, proofs pending) are kept.
+export async function recoverSendJournal(ndk?: NDK): Promise<void> {
+    const entries = (await idb.getSendJournal()).filter(entry => !inFlightEntryIds.has(entry.id));
+    if (entries.length === 0) return;
+    console.log(`sendJournal: Recovering ${entries.length} unfinished send(s).`);
+    for (const entry of entries.sort((a, b) => a.createdAt - b.createdAt)) {
+        await recoverSend(entry, ndk);
+    }
+}
+
+// Runs recoverSendJournal once per app start; later calls wait for that run. Await it before reading
+// the wallet's proofs. A failed run is retried by the next call.
+export function recoverSendJournalOnce(ndk?: NDK): Promise<void> {
+    if (!startupRecovery) {
+        startupRecovery = recoverSendJournal(ndk).catch(error => {
+            startupRecovery = null;
+            throw error;
+        });
+    }
+    return startupRecovery;
+}
@@ -0,0 +1,48 @@
+// src/utils/serviceWorker.ts
+// Registers /sw.js (emitted by the serviceWorker plugin in vite.config.ts, production builds only)
+// and exposes the hooks needed for a controlled update: a new worker stays "waiting" until
+// activateWaitingWorker() is called, then the page reloads onto the new version.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function isServiceWorkerSupported(): boolean {
+    return import.meta.env.PROD && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+// Registers the worker and calls onUpdateWaiting whenever a new version has installed
+// and is waiting for activation (immediately, if one is already waiting).
+export async function registerServiceWorker(
+    onUpdateWaiting: (registration: ServiceWorkerRegistration) => void
+): Promise<ServiceWorkerRegistration | null> {
+    if (!isServiceWorkerSupported()) return null;
+    try {
+        const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        console.log('serviceWorker: Registered with scope', registration.scope);
+
+        // Only an update if a worker already controls the page; the first install just activates
+        if (registration.waiting && navigator.serviceWorker.controller) {
+            onUpdateWaiting(registration);
+        }
+        registration.addEventListener('updatefound', () => {
+            const installing = registration.installing;
+            installing?.addEventListener('statechange', () => {
+                if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+                    console.log('serviceWorker: New version installed, waiting for idle playback.');
+                    onUpdateWaiting(registration);
+                }
+            });
+        });
+        return registration;
+    } catch (error) {
+        console.error('serviceWorker: Registration failed:', error);
+        return null;
+    }
+}
+
+// Tells the waiting worker to take over and reloads once it controls the page
+export function activateWaitingWorker(registration: ServiceWorkerRegistration): void {
+    const waiting = registration.waiting;
+    if (!waiting) return;
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,147 @@
+// src/utils/storageManager.ts
+// Keeps the local event store within a retention policy (age, notes per media type, byte budget).
+// Eviction is least-recently-shown first: an event's recency is when a note from it was last
+// on screen, or when it was stored if it has never been shown.
+import { NDKEvent } from '@nostr-dev-kit/ndk';
+import { MediaType } from './filterUtils';
+import { eventStore, StoredEvent } from './eventStore';
+import { extractMediaNotes, MEDIA_TYPES } from './mediaExtractor';
+import { idb } from './idb';
+import { getOfflineMediaBytes } from './offlineMediaStore';
+
+export interface RetentionPolicy {
+    maxAgeDays: number;      // Evict events not shown (or stored) within this many days
+    maxNotesPerType: number; // Keep at most this many events per media type
+    maxBytes: number;        // Storage budget for cached notes (the offline media library has its own limits)
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    maxAgeDays: 30,
+    maxNotesPerType: 500,
+    maxBytes: 100 * 1024 * 1024, // 100 MB
+};
+
+export interface StorageUsage {
+    usage: number | null; // Bytes used by this origin (navigator.storage.estimate), null if unsupported
+    quota: number | null; // Bytes available to this origin
+    eventCount: number;
+    eventBytes: number;   // Approximate size of the stored events
+    offlineMediaBytes: number; // Size of the pre-downloaded offline media library
+}
+
+export interface PruneResult {
+    evictedCount: number;
+    freedBytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approximate on-disk size of a record (UTF-16 JSON is a reasonable upper bound for IDB)
+function estimateRecordBytes(record: StoredEvent): number {
+    return JSON.stringify(record).length * 2;
+}
+
+function recencyOf(record: StoredEvent): number {
+    return record.lastShownAt ?? record.storedAt;
+}
+
+// Media types each event contributes notes to (an event with no playable media gets none)
+function classifyStoredEvents(records: StoredEvent[]): Map<string, MediaType[]> {
+    const events = records.map(record => new NDKEvent(undefined, record));
+    const { notes } = extractMediaNotes(events);
+    const typesById = new Map<string, MediaType[]>();
+    MEDIA_TYPES.forEach(type => {
+        notes[type].forEach(note => {
+            const id = note.eventId ?? note.id;
+            const types = typesById.get(id) ?? [];
+            if (!types.includes(type)) typesById.set(id, [...types, type]);
+        });
+    });
+    return typesById;
+}
+
+export async function loadRetentionPolicy(): Promise<RetentionPolicy> {
+    try {
+        const saved = await idb.loadRetentionPolicyFromDb();
+        return { ...DEFAULT_RETENTION_POLICY, ...saved };
+    } catch (error) {
+        console.error('storageManager: Failed to load retention policy, using defaults:', error);
+        return DEFAULT_RETENTION_POLICY;
+    }
+}
+
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+    await idb.saveRetentionPolicyToDb({ ...policy });
+}
+
+// Origin-wide usage/quota as reported by the browser (null when unsupported)
+async function estimateOriginStorage(): Promise<{ usage: number | null; quota: number | null }> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return { usage: null, quota: null };
+    try {
+        const estimate = await navigator.storage.estimate();
+        return { usage: estimate.usage ?? null, quota: estimate.quota ?? null };
+    } catch (error) {
+        console.warn('storageManager: navigator.storage.estimate() failed:', error);
+        return { usage: null, quota: null };
+    }
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const records = await eventStore.getAllStoredEvents();
+    const eventBytes = records.reduce((total, record) => total + estimateRecordBytes(record), 0);
+    const [{ usage, quota }, offlineMediaBytes] = await Promise.all([estimateOriginStorage(), getOfflineMediaBytes()]);
+    return { usage, quota, eventCount: records.length, eventBytes, offlineMediaBytes };
+}
+
+// Applies the retention policy. Rules run in order (age, per-type count, byte budget);
+// each later rule only sees the events that survived the earlier ones.
+export async function pruneEventStore(policy: RetentionPolicy): Promise<PruneResult> {
+    const records = await eventStore.getAllStoredEvents();
+    if (records.length === 0) return { evictedCount: 0, freedBytes: 0 };
+
+    const evicted = new Set<string>();
+    const now = Date.now();
+
+    // 1. Age
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    records.forEach(record => {
+        if (recencyOf(record) < cutoff) evicted.add(record.id);
+    });
+
+    // 2. Count per media type (most recently shown are kept)
+    const byRecency = records
+        .filter(record => !evicted.has(record.id))
+        .sort((a, b) => recencyOf(b) - recencyOf(a));
+    const typesById = classifyStoredEvents(byRecency);
+    const keptPerType: Record<MediaType, number> = { image: 0, video: 0, podcast: 0 };
+    byRecency.forEach(record => {
+        const types = typesById.get(record.id) ?? [];
+        types.forEach(type => { keptPerType[type]++; });
+        if (types.length > 0 && types.every(type => keptPerType[type] > policy.maxNotesPerType)) {
+            evicted.add(record.id);
+        }
+    });
+
+    // 3. Byte budget for the notes themselves. Origin-wide usage isn't used: it includes caches,
+    // offline media and the wallet databases, none of which evicting notes can shrink.
+    const remaining = byRecency.filter(record => !evicted.has(record.id));
+    let currentBytes = remaining.reduce((total, record) => total + estimateRecordBytes(record), 0);
+    for (let i = remaining.length - 1; i >= 0 && currentBytes > policy.maxBytes; i--) {
+        evicted.add(remaining[i].id);
+        currentBytes -= estimateRecordBytes(remaining[i]);
+    }
+
+    if (evicted.size === 0) return { evictedCount: 0, freedBytes: 0 };
+
+    const freedBytes = records
+        .filter(record => evicted.has(record.id))
+        .reduce((total, record) => total + estimateRecordBytes(record), 0);
+    await eventStore.deleteEvents(Array.from(evicted));
+    console.log(`storageManager: Evicted ${evicted.size} events (~${Math.round(freedBytes / 1024)} KB).`);
+    return { evictedCount: evicted.size, freedBytes };
+}
+
+// Removes every cached event; they are refetched from relays as needed
+export async function purgeEventStore(): Promise<void> {
+    await eventStore.clearEvents();
+}
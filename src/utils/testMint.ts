@@ -0,0 +1,282 @@
+// src/utils/testMint.ts
+// Local stand-in for a Cashu mint, used in development builds to try the Lightning deposit and
+// withdrawal flows without real sats. It answers the mint's HTTP API in-process (plugged into
+// CashuMint as its request function): keys, swaps, state checks, NUT-09 restore and the NUT-04/NUT-05
+// bolt11 quotes.
+// Mint quotes are marked paid a few seconds after they are created, so the UI's polling gets
+// exercised; melt quotes accept any invoice with an amount and "pay" it without spending any fees,
+// so the whole fee reserve comes back as change. Nothing is persisted: a page reload makes every
+// proof from this mint worthless.
+import { CashuMint, MintOperationError, Proof, SerializedBlindedMessage, SerializedBlindedSignature, deriveKeysetId } from '@cashu/cashu-ts';
+import { ProjectivePoint, etc, utils as secpUtils } from '@noble/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { getInvoiceAmountSats } from './lightning';
+
+export const TEST_MINT_URL = 'https://testmint.invalid';
+
+const MAX_ORDER = 20; // Denominations 1 .. 2^20 sats
+const QUOTE_PAID_AFTER_MS = 5000;
+const QUOTE_EXPIRY_SECONDS = 10 * 60;
+
+type RequestFunction = NonNullable<ConstructorParameters<typeof CashuMint>[1]>;
+
+interface TestMintRequest {
+    endpoint: string;
+    method?: string;
+    requestBody?: Record<string, unknown>;
+}
+
+interface MintQuote {
+    quote: string;
+    request: string;
+    amount: number;
+    createdAt: number;
+    issued: boolean;
+    expiry: number;
+}
+
+interface MeltQuote {
+    quote: string;
+    request: string;
+    amount: number;
+    fee_reserve: number;
+    paid: boolean;
+    expiry: number;
+}
+
+// Only reachable in development builds
+export function isTestMintUrl(mintUrl: string): boolean {
+    return import.meta.env.DEV && mintUrl.replace(/\/+$/, '') === TEST_MINT_URL;
+}
+
+// --- Keys ---
+
+const privateKeys = new Map<number, bigint>();
+const publicKeys: Record<number, string> = {};
+for (let order = 0; order <= MAX_ORDER; order++) {
+    const amount = 2 ** order;
+    const privateKey = etc.bytesToNumberBE(secpUtils.randomPrivateKey());
+    privateKeys.set(amount, privateKey);
+    publicKeys[amount] = ProjectivePoint.BASE.multiply(privateKey).toHex(true);
+}
+const keysetId = deriveKeysetId(publicKeys);
+
+// --- State ---
+
+const mintQuotes = new Map<string, MintQuote>();
+const meltQuotes = new Map<string, MeltQuote>();
+const spentYs = new Set<string>();
+const signatures = new Map<string, SerializedBlindedSignature>(); // By B_, for restores
+
+// --- Crypto (NUT-00) ---
+
+const DOMAIN_SEPARATOR = new TextEncoder().encode('Secp256k1_HashToCurve_Cashu_');
+
+function hashToCurve(secret: string): InstanceType<typeof ProjectivePoint> {
+    const messageHash = sha256(etc.concatBytes(DOMAIN_SEPARATOR, new TextEncoder().encode(secret)));
+    const counter = new Uint8Array(4);
+    for (let i = 0; i < 2 ** 16; i++) {
+        new DataView(counter.buffer).setUint32(0, i, true);
+        try {
+            return ProjectivePoint.fromHex(`02${bytesToHex(sha256(etc.concatBytes(messageHash, counter)))}`);
+        } catch {
+            // Not a valid x coordinate, try the next counter
+        }
+    }
+    throw new Error('No valid point found');
+}
+
+function fail(detail: string, code = 10000): never {
+    throw new MintOperationError(code, detail);
+}
+
+function signOutputs(outputs: SerializedBlindedMessage[]): SerializedBlindedSignature[] {
+    outputs.forEach(output => {
+        const privateKey = privateKeys.get(output.amount);
+        if (output.id !== keysetId || privateKey === undefined) fail(`Unknown output amount ${output.amount} or keyset ${output.id}`);
+        // Like a real mint: a reused deterministic secret is refused, not signed twice
+        if (signatures.has(output.B_)) fail('Blinded message already signed', 10002);
+    });
+    return outputs.map(output => {
+        const signature = { id: keysetId, amount: output.amount, C_: ProjectivePoint.fromHex(output.B_).multiply(privateKeys.get(output.amount)!).toHex(true) };
+        signatures.set(output.B_, signature);
+        return signature;
+    });
+}
+
+// Checks the inputs are valid, unspent signatures of ours and returns their total
+function verifyInputs(inputs: Proof[]): number {
+    const ys = inputs.map(proof => {
+        const privateKey = privateKeys.get(proof.amount);
+        if (proof.id !== keysetId || privateKey === undefined) fail('Unknown keyset or amount');
+        const y = hashToCurve(proof.secret);
+        if (!y.multiply(privateKey).equals(ProjectivePoint.fromHex(proof.C))) fail('Invalid proof', 10003);
+        return y.toHex(true);
+    });
+    if (new Set(ys).size !== ys.length) fail('Duplicate inputs', 11007);
+    if (ys.some(y => spentYs.has(y))) fail('Token already spent', 11001);
+    return inputs.reduce((sum, proof) => sum + proof.amount, 0);
+}
+
+function markSpent(inputs: Proof[]): void {
+    inputs.forEach(proof => spentYs.add(hashToCurve(proof.secret).toHex(true)));
+}
+
+// Splits an amount into power-of-two denominations for change
+function splitAmount(amount: number): number[] {
+    return Array.from({ length: MAX_ORDER + 1 }, (_, order) => 2 ** order).filter(value => (amount & value) !== 0);
+}
+
+// --- Quotes ---
+
+function randomId(): string {
+    return bytesToHex(etc.randomBytes(16));
+}
+
+function nowSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Looks like a bolt11 invoice (amount in the prefix) but can't be paid by a real wallet
+function fakeInvoice(amountSats: number, quoteId: string): string {
+    const data = Array.from(quoteId, char => BECH32_CHARSET[parseInt(char, 16)]).join('');
+    return `lnbc${amountSats * 10}n1p${data}`;
+}
+
+function mintQuoteState(quote: MintQuote): string {
+    if (quote.issued) return 'ISSUED';
+    return Date.now() - quote.createdAt >= QUOTE_PAID_AFTER_MS ? 'PAID' : 'UNPAID';
+}
+
+function mintQuoteResponse(quote: MintQuote) {
+    return { quote: quote.quote, request: quote.request, state: mintQuoteState(quote), expiry: quote.expiry };
+}
+
+function meltQuoteResponse(quote: MeltQuote, change?: SerializedBlindedSignature[]) {
+    return {
+        quote: quote.quote,
+        amount: quote.amount,
+        fee_reserve: quote.fee_reserve,
+        state: quote.paid ? 'PAID' : 'UNPAID',
+        expiry: quote.expiry,
+        payment_preimage: quote.paid ? bytesToHex(sha256(quote.quote)) : null,
+        ...(change ? { change } : {}),
+    };
+}
+
+// --- Routes ---
+
+function handle(path: string, method: string, body: Record<string, unknown>): unknown {
+    if (path === '/v1/info') {
+        return {
+            name: 'Madstr.tv Test Mint',
+            pubkey: publicKeys[1],
+            version: 'testmint/0.1',
+            description: 'In-app stand-in mint for development. Its sats are not real.',
+            contact: [],
+            nuts: {
+                4: { methods: [{ method: 'bolt11', unit: 'sat' }], disabled: false },
+                5: { methods: [{ method: 'bolt11', unit: 'sat' }], disabled: false },
+                7: { supported: true },
+                9: { supported: true },
+            },
+        };
+    }
+    if (path === '/v1/keysets') {
+        return { keysets: [{ id: keysetId, unit: 'sat', active: true, input_fee_ppk: 0 }] };
+    }
+    if (path === '/v1/keys' || path === `/v1/keys/${keysetId}`) {
+        return { keysets: [{ id: keysetId, unit: 'sat', keys: publicKeys }] };
+    }
+    if (path === '/v1/swap' && method === 'POST') {
+        const inputs = body.inputs as Proof[];
+        const outputs = body.outputs as SerializedBlindedMessage[];
+        const total = verifyInputs(inputs);
+        if (outputs.reduce((sum, output) => sum + output.amount, 0) !== total) fail('Inputs and outputs are not balanced', 11002);
+        const signatures = signOutputs(outputs);
+        markSpent(inputs);
+        return { signatures };
+    }
+    if (path === '/v1/restore' && method === 'POST') {
+        const known = (body.outputs as SerializedBlindedMessage[]).filter(output => signatures.has(output.B_));
+        return { outputs: known, signatures: known.map(output => signatures.get(output.B_)!) };
+    }
+    if (path === '/v1/checkstate' && method === 'POST') {
+        return { states: (body.Ys as string[]).map(Y => ({ Y, state: spentYs.has(Y) ? 'SPENT' : 'UNSPENT', witness: null })) };
+    }
+
+    // NUT-04
+    if (path === '/v1/mint/quote/bolt11' && method === 'POST') {
+        const amount = Number(body.amount);
+        if (!Number.isInteger(amount) || amount <= 0) fail('Invalid amount');
+        const quote: MintQuote = { quote: randomId(), request: '', amount, createdAt: Date.now(), issued: false, expiry: nowSeconds() + QUOTE_EXPIRY_SECONDS };
+        quote.request = fakeInvoice(amount, quote.quote);
+        mintQuotes.set(quote.quote, quote);
+        console.log(`testMint: Mint quote ${quote.quote} for ${amount} sats, paid in ${QUOTE_PAID_AFTER_MS / 1000}s.`);
+        return mintQuoteResponse(quote);
+    }
+    if (path.startsWith('/v1/mint/quote/bolt11/')) {
+        const quote = mintQuotes.get(path.split('/').pop()!) ?? fail('Quote not found', 20007);
+        return mintQuoteResponse(quote);
+    }
+    if (path === '/v1/mint/bolt11' && method === 'POST') {
+        const quote = mintQuotes.get(String(body.quote)) ?? fail('Quote not found', 20007);
+        const state = mintQuoteState(quote);
+        if (state === 'UNPAID') fail('Quote not paid', 20001);
+        if (state === 'ISSUED') fail('Tokens already issued', 20002);
+        const outputs = body.outputs as SerializedBlindedMessage[];
+        if (outputs.reduce((sum, output) => sum + output.amount, 0) !== quote.amount) fail('Outputs do not match the quote amount');
+        const signatures = signOutputs(outputs);
+        quote.issued = true;
+        return { signatures };
+    }
+
+    // NUT-05
+    if (path === '/v1/melt/quote/bolt11' && method === 'POST') {
+        const request = String(body.request);
+        const amount = getInvoiceAmountSats(request);
+        if (!amount) fail('Invoice has no amount');
+        // Like a real mint, reserve about 1% (at least 2 sats) for routing fees
+        const quote: MeltQuote = {
+            quote: randomId(),
+            request,
+            amount,
+            fee_reserve: Math.max(2, Math.ceil(amount * 0.01)),
+            paid: false,
+            expiry: nowSeconds() + QUOTE_EXPIRY_SECONDS,
+        };
+        meltQuotes.set(quote.quote, quote);
+        return meltQuoteResponse(quote);
+    }
+    if (path.startsWith('/v1/melt/quote/bolt11/')) {
+        const quote = meltQuotes.get(path.split('/').pop()!) ?? fail('Quote not found', 20007);
+        return meltQuoteResponse(quote);
+    }
+    if (path === '/v1/melt/bolt11' && method === 'POST') {
+        const quote = meltQuotes.get(String(body.quote)) ?? fail('Quote not found', 20007);
+        if (quote.paid) fail('Invoice already paid', 20006);
+        const inputs = body.inputs as Proof[];
+        const total = verifyInputs(inputs);
+        if (total < quote.amount + quote.fee_reserve) fail('Not enough inputs for amount and fee reserve', 11002);
+        markSpent(inputs);
+        quote.paid = true;
+        console.log(`testMint: "Paid" ${quote.amount} sats to ${quote.request.slice(0, 24)}...`);
+        // No routing fee was spent, so everything above the amount is returned in the blank outputs (NUT-08)
+        const blankOutputs = body.outputs as SerializedBlindedMessage[] ?? [];
+        const changeAmounts = splitAmount(total - quote.amount).slice(0, blankOutputs.length);
+        const change = signOutputs(changeAmounts.map((amount, index) => ({ ...blankOutputs[index], amount })));
+        return meltQuoteResponse(quote, change);
+    }
+
+    fail(`Test mint does not implement ${method} ${path}`);
+}
+
+export const testMintRequest = (async ({ endpoint, method = 'GET', requestBody }: TestMintRequest) => {
+    const path = endpoint.slice(TEST_MINT_URL.length);
+    // Answer asynchronously like a network call would
+    await new Promise(resolve => setTimeout(resolve, 50));
+    return handle(path, method.toUpperCase(), requestBody ?? {});
+}) as RequestFunction;
@@ -0,0 +1,97 @@
+// src/utils/tipSplits.ts
+// How a tip is divided. A note can name several recipients with NIP-57 'zap' tags
+// (["zap", <hex pubkey>, <relay>, <weight>]); without them the author gets everything. An optional
+// house cut for the TV operator is taken off the top before the split.
+import { nip19 } from 'nostr-tools';
+import { TV_PUBKEY_NPUB } from '../constants';
+import { idb } from './idb';
+
+export interface TipSplitSettings {
+    houseCutPercent: number; // 0 disables the house cut
+    houseNpub: string;       // Who receives it
+}
+
+export const DEFAULT_TIP_SPLIT_SETTINGS: TipSplitSettings = {
+    houseCutPercent: 0,
+    houseNpub: TV_PUBKEY_NPUB,
+};
+
+export interface TipShare {
+    pubkey: string; // Hex
+    amount: number;
+    isHouseCut: boolean;
+}
+
+export async function loadTipSplitSettings(): Promise<TipSplitSettings> {
+    try {
+        const saved = await idb.loadTipSplitSettingsFromDb();
+        return { ...DEFAULT_TIP_SPLIT_SETTINGS, ...saved };
+    } catch (error) {
+        console.error('tipSplits: Failed to load settings, using defaults:', error);
+        return DEFAULT_TIP_SPLIT_SETTINGS;
+    }
+}
+
+export async function saveTipSplitSettings(settings: TipSplitSettings): Promise<void> {
+    await idb.saveTipSplitSettingsToDb({ ...settings });
+}
+
+// Weighted recipients from a note's 'zap' tags. NIP-57: if any tag has a weight, tags without one
+// get nothing; if none do, the split is equal.
+export function parseZapSplits(tags: string[][]): Array<{ pubkey: string; weight: number }> {
+    const zapTags = tags.filter(t => t[0] === 'zap' && /^[0-9a-f]{64}$/i.test(t[1] ?? ''));
+    const hasWeights = zapTags.some(t => t[3] !== undefined && t[3] !== '');
+    return zapTags
+        .map(t => ({ pubkey: t[1].toLowerCase(), weight: hasWeights ? Math.max(0, Number(t[3]) || 0) : 1 }))
+        .filter(split => split.weight > 0);
+}
+
+function decodeNpub(npub: string): string | null {
+    try {
+        const decoded = nip19.decode(npub.trim());
+        return decoded.type === 'npub' ? decoded.data : null;
+    } catch {
+        return null;
+    }
+}
+
+// Whole-sat shares adding up to `amountSats`. Rounding remainders go to the largest fractions
+// (largest remainder method); a recipient listed twice gets one combined share.
+export function computeTipShares(
+    amountSats: number,
+    authorPubkey: string,
+    noteTags: string[][],
+    settings: TipSplitSettings
+): TipShare[] {
+    const housePubkey = settings.houseCutPercent > 0 ? decodeNpub(settings.houseNpub) : null;
+    const houseAmount = housePubkey ? Math.floor((amountSats * settings.houseCutPercent) / 100) : 0;
+    const remaining = amountSats - houseAmount;
+
+    const splits = parseZapSplits(noteTags);
+    const recipients = splits.length > 0 ? splits : [{ pubkey: authorPubkey, weight: 1 }];
+    const totalWeight = recipients.reduce((sum, split) => sum + split.weight, 0);
+
+    const exact = recipients.map(split => (remaining * split.weight) / totalWeight);
+    const amounts = exact.map(Math.floor);
+    let leftover = remaining - amounts.reduce((sum, amount) => sum + amount, 0);
+    exact
+        .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+        .sort((a, b) => b.fraction - a.fraction)
+        .forEach(({ index }) => {
+            if (leftover > 0) {
+                amounts[index]++;
+                leftover--;
+            }
+        });
+
+    const shares = new Map<string, TipShare>();
+    recipients.forEach((split, index) => {
+        const existing = shares.get(split.pubkey);
+        shares.set(split.pubkey, { pubkey: split.pubkey, amount: (existing?.amount ?? 0) + amounts[index], isHouseCut: false });
+    });
+    if (housePubkey && houseAmount > 0) {
+        const existing = shares.get(housePubkey);
+        shares.set(housePubkey, { pubkey: housePubkey, amount: (existing?.amount ?? 0) + houseAmount, isHouseCut: !existing });
+    }
+    return Array.from(shares.values()).filter(share => share.amount > 0);
+}
@@ -0,0 +1,103 @@
+// src/utils/videoRenditions.ts
+// NIP-71 video events (kinds 21/22 and addressable 34235/34236) publish one imeta tag per
+// rendition of the same video. These helpers turn those tags into VideoRendition objects
+// and pick the one that best fits the screen.
+import { NDKKind } from '@nostr-dev-kit/ndk';
+import { VideoRendition } from '../types/nostr';
+import { parseImetaTags } from './imeta';
+
+// NIP-71 kinds: normal and short-form video, plus their addressable (replaceable) forms
+export const NIP71_VIDEO_KINDS: number[] = [
+    NDKKind.Video,           // 21
+    NDKKind.ShortVideo,      // 22
+    NDKKind.HorizontalVideo, // 34235 (addressable normal video)
+    NDKKind.VerticalVideo,   // 34236 (addressable short video)
+];
+
+export function isNip71VideoKind(kind: number | undefined): boolean {
+    return kind !== undefined && NIP71_VIDEO_KINDS.includes(kind);
+}
+
+// Parses "123", "123.4" or "HH:MM:SS" into seconds
+function parseDurationSeconds(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    if (value.includes(':')) {
+        const parts = value.split(':').map(Number);
+        if (parts.some(isNaN)) return undefined;
+        return parts.reduce((total, part) => total * 60 + part, 0);
+    }
+    const seconds = parseFloat(value);
+    return isNaN(seconds) ? undefined : seconds;
+}
+
+// Parses "2500000", "2500 kbps" or "2.5mbps" into bits per second
+function parseBitrate(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const match = value.trim().toLowerCase().match(/^([\d.]+)\s*(k|m)?(?:bps|bit\/s)?$/);
+    if (!match) return undefined;
+    const base = parseFloat(match[1]);
+    if (isNaN(base)) return undefined;
+    const multiplier = match[2] === 'm' ? 1_000_000 : match[2] === 'k' ? 1_000 : 1;
+    return Math.round(base * multiplier);
+}
+
+// Builds the rendition list from an event's tags. Only video/* (or mime-less) imeta entries are kept.
+export function parseVideoRenditions(tags: string[][]): VideoRendition[] {
+    const eventDuration = parseDurationSeconds(tags.find(t => t[0] === 'duration')?.[1]);
+
+    return parseImetaTags(tags)
+        .filter(entry => !entry.mimeType || entry.mimeType.startsWith('video/') || entry.mimeType === 'application/x-mpegurl')
+        .map(entry => ({
+            url: entry.url,
+            mimeType: entry.mimeType,
+            width: entry.width,
+            height: entry.height,
+            bitrate: parseBitrate(entry.extra.bitrate?.[0]),
+            duration: parseDurationSeconds(entry.extra.duration?.[0]) ?? eventDuration,
+            previewImage: entry.images?.[0] ?? entry.thumb,
+            sha256: entry.sha256,
+            fallbackUrls: entry.fallbackUrls,
+        }));
+}
+
+// Height used to rank renditions; portrait videos are compared by their short side
+function renditionResolution(rendition: VideoRendition): number {
+    if (rendition.width && rendition.height) return Math.min(rendition.width, rendition.height);
+    return rendition.height ?? rendition.width ?? 0;
+}
+
+let probeElement: HTMLVideoElement | null = null;
+
+// Whether the browser reports it can (maybe) play this mime type. Unknown types are assumed playable.
+function canPlayMimeType(mimeType: string | undefined): boolean {
+    if (!mimeType || typeof document === 'undefined') return true;
+    probeElement ??= document.createElement('video');
+    return probeElement.canPlayType(mimeType) !== '';
+}
+
+interface SelectRenditionOptions {
+    maxResolution?: number; // Largest short-side resolution worth fetching (defaults to the screen)
+}
+
+// Picks the best playable rendition that does not exceed the screen resolution.
+// Falls back to the smallest playable one if every rendition is larger than the screen.
+export function selectVideoRendition(
+    renditions: VideoRendition[] | undefined,
+    { maxResolution }: SelectRenditionOptions = {}
+): VideoRendition | null {
+    if (!renditions || renditions.length === 0) return null;
+
+    const screenLimit = maxResolution ?? (typeof window !== 'undefined'
+        ? Math.round(Math.min(window.screen.width, window.screen.height) * (window.devicePixelRatio || 1))
+        : 1080);
+
+    const playable = renditions.filter(r => canPlayMimeType(r.mimeType));
+    const candidates = playable.length > 0 ? playable : renditions;
+
+    const byQuality = [...candidates].sort((a, b) =>
+        renditionResolution(b) - renditionResolution(a) || (b.bitrate ?? 0) - (a.bitrate ?? 0)
+    );
+
+    const fitting = byQuality.find(r => renditionResolution(r) <= screenLimit);
+    return fitting ?? byQuality[byQuality.length - 1];
+}
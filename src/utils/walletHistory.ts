@@ -0,0 +1,67 @@
+// src/utils/walletHistory.ts
+// Stored record of what went in and out of the wallet: received tokens, tips, Lightning deposits
+// (mints) and withdrawals (melts). Entries are only ever added; the settings screen pages through
+// them and can export the lot as CSV or JSON.
+import { nip19 } from 'nostr-tools';
+import { idb, WalletHistoryEntry } from './idb';
+
+export type { WalletHistoryEntry, WalletHistoryStatus, WalletHistoryType } from './idb';
+
+export const WALLET_HISTORY_PAGE_SIZE = 10;
+
+const CSV_COLUMNS: Array<keyof WalletHistoryEntry> = [
+    'createdAt', 'type', 'status', 'amount', 'fee', 'mintUrl', 'counterpartyNpub', 'noteId', 'eventId', 'memo', 'id',
+];
+
+export function toNpub(hexPubkey: string): string {
+    try {
+        return nip19.npubEncode(hexPubkey);
+    } catch {
+        return hexPubkey;
+    }
+}
+
+// Adds an entry. History is bookkeeping only, so a failure here never fails the payment it describes.
+export async function recordWalletHistory(entry: Omit<WalletHistoryEntry, 'id' | 'createdAt'>): Promise<void> {
+    try {
+        await idb.addWalletHistoryEntry({ ...entry, id: crypto.randomUUID(), createdAt: Date.now() });
+    } catch (error) {
+        console.error('walletHistory: Failed to record entry:', entry, error);
+    }
+}
+
+export async function loadWalletHistoryPage(page: number): Promise<{ entries: WalletHistoryEntry[]; total: number }> {
+    const [entries, total] = await Promise.all([
+        idb.getWalletHistoryPage(page * WALLET_HISTORY_PAGE_SIZE, WALLET_HISTORY_PAGE_SIZE),
+        idb.countWalletHistory(),
+    ]);
+    return { entries, total };
+}
+
+function csvField(value: unknown): string {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function walletHistoryToCsv(entries: WalletHistoryEntry[]): string {
+    const rows = entries.map(entry => CSV_COLUMNS.map(column =>
+        csvField(column === 'createdAt' ? new Date(entry.createdAt).toISOString() : entry[column])
+    ).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// Saves the full history as a file through the browser's download
+export async function exportWalletHistory(format: 'csv' | 'json'): Promise<number> {
+    const entries = await idb.getAllWalletHistory();
+    const content = format === 'csv' ? walletHistoryToCsv(entries) : JSON.stringify(entries, null, 2);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `madstr-wallet-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return entries.length;
+}
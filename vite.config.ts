@@ -1,9 +1,32 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { readFileSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+
+const SERVICE_WORKER_SOURCE = 'src/sw/service-worker.js'
+
+// Emits /sw.js with the build's app shell (every bundled file plus index.html) baked in.
+// The version is derived from the hashed file names, so each deploy with changed assets installs a new worker.
+function serviceWorker(): Plugin {
+  return {
+    name: 'madstr-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter(fileName => !fileName.endsWith('.map'))
+      const manifest = Array.from(new Set(['/index.html', ...files.map(fileName => `/${fileName}`)]))
+      const version = createHash('sha256').update(manifest.join('\n')).digest('hex').slice(0, 12)
+      const source = readFileSync(SERVICE_WORKER_SOURCE, 'utf-8')
+        .replace('self.__PRECACHE_MANIFEST', JSON.stringify(manifest))
+        .replace('self.__BUILD_VERSION', JSON.stringify(version))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   server: {
     port: 3000
   }